@@ -0,0 +1,480 @@
+/**
+ * 원격 로그 릴레이 서버
+ *
+ * 기기에서 RemoteLogTransport로 보낸 로그를 받아 뷰어 페이지로 중계합니다.
+ * 외부 의존성 없이 Node 기본 모듈만 사용하며, 127.0.0.1에만 바인딩되어 로컬에서만 접근할 수 있습니다.
+ * 브라우저에 열린 다른 페이지도 127.0.0.1에 접속할 수 있으므로,
+ * 뷰어 연결은 Origin이 이 서버인 경우만, 로그 수신은 실행할 때마다 새로 만드는 토큰이 있는 경우만 허용합니다.
+ *
+ * 사용법:
+ *   yarn build:lib          # 뷰어가 사용하는 UMD 빌드 생성
+ *   yarn relay [--port 8787]
+ *
+ * - 뷰어:       http://127.0.0.1:8787/
+ * - 로그 수신:  ws://127.0.0.1:8787/ingest?token=<시작할 때 출력되는 토큰>
+ *               (debugOverlay.init({ remote: { url } })에 지정)
+ *
+ * 실제 기기에서는 포트 포워딩으로 로컬 서버에 연결합니다. (예: adb reverse tcp:8787 tcp:8787)
+ */
+
+import { createServer } from 'node:http'
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+
+/**
+ * 바인딩할 주소 (로컬 전용)
+ */
+const HOST = '127.0.0.1'
+
+/**
+ * WebSocket 핸드셰이크에 사용하는 고정 GUID (RFC 6455)
+ */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+/**
+ * 새로 연결한 뷰어에게 보내줄 최근 로그 수
+ */
+const BACKLOG_SIZE = 2000
+
+/**
+ * 수신할 수 있는 메시지의 최대 크기 (바이트)
+ */
+const MAX_MESSAGE_SIZE = 16 * 1024 * 1024
+
+/**
+ * 정적 파일 경로
+ */
+const STATIC_FILES = {
+  '/': {
+    path: fileURLToPath(new URL('./viewer.html', import.meta.url)),
+    type: 'text/html; charset=utf-8',
+  },
+  '/overlay.js': {
+    path: fileURLToPath(
+      new URL(
+        '../dist/interactive-debug-console-overlay.umd.js',
+        import.meta.url
+      )
+    ),
+    type: 'text/javascript; charset=utf-8',
+  },
+}
+
+const port = readPort()
+
+/**
+ * 뷰어 연결을 허용하는 Origin (이 서버가 제공하는 뷰어 페이지)
+ */
+const VIEWER_ORIGIN = `http://${HOST}:${port}`
+
+/**
+ * 로그 수신 연결에 필요한 토큰 (실행할 때마다 새로 생성)
+ */
+const INGEST_TOKEN = randomBytes(16).toString('hex')
+
+/** @type {Set<WebSocketConnection>} */
+const viewers = new Set()
+/** @type {Map<string, { clientId: string, userAgent: string, url: string, startedAt: string }>} */
+const clients = new Map()
+/** @type {{ clientId: string, entry: unknown }[]} */
+const backlog = []
+
+/**
+ * 최소한의 WebSocket 서버 측 연결 (텍스트 프레임, ping/pong, close만 지원)
+ */
+class WebSocketConnection {
+  /**
+   * @param {import('node:net').Socket} socket
+   * @param {(message: string) => void} onMessage
+   * @param {() => void} onClose
+   */
+  constructor(socket, onMessage, onClose) {
+    this._socket = socket
+    this._onMessage = onMessage
+    this._onClose = onClose
+    this._buffer = Buffer.alloc(0)
+    this._fragments = []
+    this._closed = false
+
+    socket.on('data', (chunk) => {
+      this._buffer = Buffer.concat([this._buffer, chunk])
+      this._readFrames()
+    })
+    socket.on('close', () => this._handleClose())
+    socket.on('error', () => this._handleClose())
+  }
+
+  /**
+   * 텍스트 메시지를 전송합니다.
+   *
+   * @param {string} message
+   */
+  send(message) {
+    if (this._closed) return
+    this._writeFrame(0x1, Buffer.from(message, 'utf8'))
+  }
+
+  /**
+   * 연결을 닫습니다.
+   *
+   * @param {number} code
+   */
+  close(code = 1000) {
+    if (this._closed) return
+
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code)
+    this._writeFrame(0x8, payload)
+    this._socket.end()
+    this._handleClose()
+  }
+
+  /**
+   * 버퍼에 쌓인 프레임들을 해석합니다.
+   */
+  _readFrames() {
+    while (this._buffer.length >= 2) {
+      const first = this._buffer[0]
+      const second = this._buffer[1]
+      const isFinal = (first & 0x80) !== 0
+      const opcode = first & 0x0f
+      const isMasked = (second & 0x80) !== 0
+      let length = second & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (this._buffer.length < 4) return
+        length = this._buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this._buffer.length < 10) return
+        length = Number(this._buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      if (!isMasked || length > MAX_MESSAGE_SIZE) {
+        // 클라이언트 프레임은 반드시 마스킹되어야 합니다.
+        this.close(isMasked ? 1009 : 1002)
+        return
+      }
+
+      const frameLength = offset + 4 + length
+      if (this._buffer.length < frameLength) return
+
+      const mask = this._buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(
+        this._buffer.subarray(offset + 4, frameLength)
+      )
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4]
+      }
+      this._buffer = this._buffer.subarray(frameLength)
+
+      this._handleFrame(isFinal, opcode, payload)
+      if (this._closed) return
+    }
+  }
+
+  /**
+   * 해석된 프레임을 종류에 맞게 처리합니다.
+   *
+   * @param {boolean} isFinal
+   * @param {number} opcode
+   * @param {Buffer} payload
+   */
+  _handleFrame(isFinal, opcode, payload) {
+    switch (opcode) {
+      case 0x0:
+      case 0x1:
+        this._fragments.push(payload)
+        if (isFinal) {
+          const message = Buffer.concat(this._fragments).toString('utf8')
+          this._fragments = []
+          this._onMessage(message)
+        }
+        break
+      case 0x8:
+        this.close()
+        break
+      case 0x9:
+        this._writeFrame(0xa, payload)
+        break
+      default:
+        // pong과 바이너리 프레임은 무시합니다.
+        break
+    }
+  }
+
+  /**
+   * 마스킹하지 않은 서버 프레임을 씁니다.
+   *
+   * @param {number} opcode
+   * @param {Buffer} payload
+   */
+  _writeFrame(opcode, payload) {
+    let header
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length])
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4)
+      header[0] = 0x80 | opcode
+      header[1] = 126
+      header.writeUInt16BE(payload.length, 2)
+    } else {
+      header = Buffer.alloc(10)
+      header[0] = 0x80 | opcode
+      header[1] = 127
+      header.writeBigUInt64BE(BigInt(payload.length), 2)
+    }
+
+    this._socket.write(Buffer.concat([header, payload]))
+  }
+
+  /**
+   * 연결 종료를 한 번만 알립니다.
+   */
+  _handleClose() {
+    if (this._closed) return
+    this._closed = true
+    this._socket.destroy()
+    this._onClose()
+  }
+}
+
+/**
+ * 모든 뷰어에게 메시지를 보냅니다.
+ *
+ * @param {unknown} message
+ */
+function broadcast(message) {
+  const text = JSON.stringify(message)
+  viewers.forEach((viewer) => viewer.send(text))
+}
+
+/**
+ * 기기(로그 송신 측)에서 받은 메시지를 처리합니다.
+ *
+ * @param {string} text
+ * @param {{ clientId: string | null }} state
+ */
+function handleIngestMessage(text, state) {
+  let message
+  try {
+    message = JSON.parse(text)
+  } catch {
+    return
+  }
+
+  if (!message || typeof message.clientId !== 'string') return
+  state.clientId = message.clientId
+
+  switch (message.type) {
+    case 'hello': {
+      const client = {
+        clientId: message.clientId,
+        userAgent: String(message.userAgent ?? ''),
+        url: String(message.url ?? ''),
+        startedAt: String(message.startedAt ?? ''),
+      }
+      clients.set(client.clientId, client)
+      console.log(`[relay] 연결됨: ${client.url} (${client.userAgent})`)
+      broadcast({ type: 'client', client, connected: true })
+      break
+    }
+    case 'logs': {
+      if (!Array.isArray(message.entries)) return
+      message.entries.forEach((entry) => {
+        backlog.push({ clientId: message.clientId, entry })
+      })
+      if (backlog.length > BACKLOG_SIZE) {
+        backlog.splice(0, backlog.length - BACKLOG_SIZE)
+      }
+      broadcast({
+        type: 'logs',
+        clientId: message.clientId,
+        entries: message.entries,
+      })
+      break
+    }
+    case 'update': {
+      if (!Array.isArray(message.entries)) return
+      // 백로그에 남아 있는 항목은 교체해 새로 연결하는 뷰어도 바뀐 내용을 받도록 합니다.
+      message.entries.forEach((entry) => {
+        const index = backlog.findIndex(
+          (item) =>
+            item.clientId === message.clientId && item.entry?.id === entry?.id
+        )
+        if (index >= 0) {
+          backlog[index] = { clientId: message.clientId, entry }
+        }
+      })
+      broadcast({
+        type: 'update',
+        clientId: message.clientId,
+        entries: message.entries,
+      })
+      break
+    }
+    case 'clear': {
+      for (let i = backlog.length - 1; i >= 0; i--) {
+        if (backlog[i].clientId === message.clientId) {
+          backlog.splice(i, 1)
+        }
+      }
+      broadcast({ type: 'clear', clientId: message.clientId })
+      break
+    }
+  }
+}
+
+/**
+ * WebSocket 업그레이드 요청을 처리합니다.
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @param {import('node:net').Socket} socket
+ */
+function handleUpgrade(request, socket) {
+  const { pathname, searchParams } = new URL(
+    request.url ?? '/',
+    `http://${HOST}`
+  )
+  const key = request.headers['sec-websocket-key']
+
+  if (typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+
+  const isAllowed =
+    pathname === '/view'
+      ? request.headers.origin === VIEWER_ORIGIN
+      : pathname === '/ingest' && isIngestToken(searchParams.get('token'))
+
+  if (!isAllowed) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n')
+    return
+  }
+
+  const accept = createHash('sha1')
+    .update(key + WEBSOCKET_GUID)
+    .digest('base64')
+
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n')
+  )
+  socket.setNoDelay(true)
+
+  if (pathname === '/view') {
+    const viewer = new WebSocketConnection(
+      socket,
+      () => {},
+      () => viewers.delete(viewer)
+    )
+    viewers.add(viewer)
+    viewer.send(
+      JSON.stringify({
+        type: 'snapshot',
+        clients: Array.from(clients.values()),
+        backlog,
+      })
+    )
+    return
+  }
+
+  const state = { clientId: null }
+  new WebSocketConnection(
+    socket,
+    (text) => handleIngestMessage(text, state),
+    () => {
+      if (state.clientId && clients.delete(state.clientId)) {
+        console.log(`[relay] 연결 종료: ${state.clientId}`)
+        broadcast({
+          type: 'client',
+          client: { clientId: state.clientId },
+          connected: false,
+        })
+      }
+    }
+  )
+}
+
+/**
+ * 로그 수신 토큰이 맞는지 확인합니다. (비교 시간으로 토큰을 추측할 수 없도록 고정 시간 비교)
+ *
+ * @param {string | null} token
+ */
+function isIngestToken(token) {
+  if (!token) return false
+
+  const expected = Buffer.from(INGEST_TOKEN)
+  const actual = Buffer.from(token)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * 뷰어 페이지와 UMD 빌드를 제공합니다.
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @param {import('node:http').ServerResponse} response
+ */
+async function handleRequest(request, response) {
+  const { pathname } = new URL(request.url ?? '/', `http://${HOST}`)
+  const file = STATIC_FILES[pathname]
+
+  if (!file) {
+    response.writeHead(404).end('Not Found')
+    return
+  }
+
+  try {
+    const content = await readFile(file.path)
+    response
+      .writeHead(200, {
+        'Content-Type': file.type,
+        'Cache-Control': 'no-store',
+      })
+      .end(content)
+  } catch {
+    response
+      .writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' })
+      .end(
+        `${pathname}을(를) 찾을 수 없습니다. 먼저 'yarn build:lib'을 실행하세요.`
+      )
+  }
+}
+
+/**
+ * --port 인자나 RELAY_PORT 환경 변수에서 포트를 읽습니다.
+ */
+function readPort() {
+  const index = process.argv.indexOf('--port')
+  const value =
+    index >= 0 ? process.argv[index + 1] : (process.env.RELAY_PORT ?? '8787')
+  const parsed = Number(value)
+
+  if (!Number.isInteger(parsed) || parsed <= 0 || parsed > 65535) {
+    console.error(`[relay] 잘못된 포트: ${value}`)
+    process.exit(1)
+  }
+
+  return parsed
+}
+
+const server = createServer((request, response) => {
+  handleRequest(request, response)
+})
+server.on('upgrade', handleUpgrade)
+server.listen(port, HOST, () => {
+  console.log(`[relay] 뷰어:      http://${HOST}:${port}/`)
+  console.log(
+    `[relay] 로그 수신: ws://${HOST}:${port}/ingest?token=${INGEST_TOKEN}`
+  )
+})
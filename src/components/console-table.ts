@@ -0,0 +1,175 @@
+import { JsonViewer } from './json-viewer.js'
+
+/**
+ * 표에 표시할 최대 행 수
+ */
+const MAX_ROWS = 1000
+
+/**
+ * 인덱스 열 이름
+ */
+const INDEX_COLUMN = '(index)'
+
+/**
+ * 원시값 행의 값을 표시하는 열 이름
+ */
+const VALUE_COLUMN = 'Value'
+
+/**
+ * console.table 컴포넌트
+ * 배열이나 객체를 브라우저 콘솔처럼 (index) 열과 속성 열을 가진 표로 표시합니다.
+ */
+export class ConsoleTable {
+  /**
+   * 데이터를 표 요소로 렌더링합니다.
+   *
+   * @param data console.table에 전달된 데이터
+   * @param columns 표시할 열 이름들 (생략하면 모든 행의 속성을 합친 열)
+   * @returns 렌더링된 표 요소
+   */
+  public static render(data: object, columns?: string[]): HTMLElement {
+    const rows = ConsoleTable._collectRows(data)
+    const visibleRows = rows.slice(0, MAX_ROWS)
+    const propertyColumns = columns ?? ConsoleTable._collectColumns(visibleRows)
+    const hasPrimitiveRows = visibleRows.some(
+      ([, value]) => !ConsoleTable._isObject(value)
+    )
+
+    const headers = [INDEX_COLUMN, ...propertyColumns]
+    if (hasPrimitiveRows) {
+      headers.push(VALUE_COLUMN)
+    }
+
+    const wrapper = document.createElement('div')
+    wrapper.className = 'debug-overlay-table-wrapper'
+
+    const table = document.createElement('table')
+    table.className = 'debug-overlay-table'
+
+    const headRow = document.createElement('tr')
+    headers.forEach((header) => {
+      const th = document.createElement('th')
+      th.textContent = header
+      headRow.appendChild(th)
+    })
+
+    const thead = document.createElement('thead')
+    thead.appendChild(headRow)
+    table.appendChild(thead)
+
+    const tbody = document.createElement('tbody')
+    visibleRows.forEach(([index, value]) => {
+      const tr = document.createElement('tr')
+
+      tr.appendChild(ConsoleTable._createCell(index, true))
+
+      propertyColumns.forEach((column) => {
+        const cellValue = ConsoleTable._isObject(value)
+          ? (value as Record<string, unknown>)[column]
+          : undefined
+        const hasValue =
+          ConsoleTable._isObject(value) && column in (value as object)
+        tr.appendChild(
+          hasValue
+            ? ConsoleTable._createCell(ConsoleTable._formatCell(cellValue))
+            : ConsoleTable._createCell('')
+        )
+      })
+
+      if (hasPrimitiveRows) {
+        tr.appendChild(
+          ConsoleTable._isObject(value)
+            ? ConsoleTable._createCell('')
+            : ConsoleTable._createCell(ConsoleTable._formatCell(value))
+        )
+      }
+
+      tbody.appendChild(tr)
+    })
+    table.appendChild(tbody)
+
+    wrapper.appendChild(table)
+
+    if (rows.length > MAX_ROWS) {
+      const more = document.createElement('div')
+      more.className = 'debug-overlay-table-more'
+      more.textContent = `… ${rows.length - MAX_ROWS} more rows`
+      wrapper.appendChild(more)
+    }
+
+    return wrapper
+  }
+
+  /**
+   * 데이터를 [인덱스, 값] 행 목록으로 변환합니다.
+   */
+  private static _collectRows(data: object): [string, unknown][] {
+    if (data instanceof Map) {
+      return Array.from(data.entries()).map(([key, value], index) => [
+        String(index),
+        { Key: key, Values: value },
+      ])
+    }
+
+    if (data instanceof Set) {
+      return Array.from(data.values()).map((value, index) => [
+        String(index),
+        value,
+      ])
+    }
+
+    return Object.keys(data).map((key) => [
+      key,
+      (data as Record<string, unknown>)[key],
+    ])
+  }
+
+  /**
+   * 모든 객체 행의 속성 이름을 등장 순서대로 모읍니다.
+   */
+  private static _collectColumns(rows: [string, unknown][]): string[] {
+    const columns = new Set<string>()
+    rows.forEach(([, value]) => {
+      if (ConsoleTable._isObject(value)) {
+        Object.keys(value as object).forEach((key) => columns.add(key))
+      }
+    })
+    return Array.from(columns)
+  }
+
+  /**
+   * 셀에 표시할 문자열을 생성합니다.
+   * 중첩된 객체는 펼치지 않고 요약만 표시합니다.
+   */
+  private static _formatCell(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `Array(${value.length})`
+    }
+    if (ConsoleTable._isObject(value)) {
+      return '{…}'
+    }
+    return JsonViewer.stringify(value)
+  }
+
+  /**
+   * 표 셀 요소를 생성합니다.
+   */
+  private static _createCell(
+    text: string,
+    isIndex: boolean = false
+  ): HTMLElement {
+    const cell = document.createElement('td')
+    cell.textContent = text
+    if (isIndex) {
+      cell.className = 'debug-overlay-table-index'
+    }
+    return cell
+  }
+
+  /**
+   * 값이 객체(배열 포함)인지 확인합니다.
+   */
+  private static _isObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null
+  }
+}
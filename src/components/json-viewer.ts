@@ -1,10 +1,53 @@
+import {
+  ROOT_PATH,
+  appendPath,
+  describeNode,
+  getConstructorName,
+  safeStringify,
+} from '../utils/safe-stringify.js';
+import { isSnapshotNode, reviveSnapshot } from '../utils/serializer.js';
+import type { SnapshotEntry, SnapshotNode, SnapshotValue } from '../types/types.js';
+
+/**
+ * Map, Set, 타입 배열에서 한 번에 표시할 최대 항목 수
+ */
+const MAX_COLLECTION_ITEMS = 100;
+
+/**
+ * 트리 노드의 자식 항목
+ * - key: 자식 앞에 표시할 키 요소 (Set처럼 키가 없으면 null)
+ * - render: 자식 값 요소를 생성하는 함수
+ */
+interface JsonViewerChild {
+  key: HTMLElement | null;
+  render: () => HTMLElement;
+}
+
+/**
+ * 접을 수 있는 트리 노드의 표시 정보
+ */
+interface JsonViewerNode {
+  /** 여는 괄호 앞에 표시할 설명 (예: 'Map(2) ', 'Foo ') */
+  prefix: string;
+  /** 설명에 붙일 클래스 이름 (선택사항) */
+  prefixClassName?: string;
+  open: string;
+  close: string;
+  /** 자식 컨테이너에 붙일 클래스 이름 */
+  childClassName: string;
+  children: () => JsonViewerChild[];
+}
 
 /**
  * JSON 뷰어 컴포넌트
  * 객체와 배열을 재귀적으로 시각화하여 접을 수 있는 트리 구조로 표시합니다.
+ * 순환 참조는 `[Circular → path]`로 표시하고, Map, Set, Error, 타입 배열, DOM 노드 등을 각각의 형태로 렌더링합니다.
+ * serializer로 만든 스냅샷 노드는 원본 값과 같은 형태로 렌더링합니다.
  */
 export class JsonViewer {
   private _maxDepth: number;
+  /** 현재 렌더링 중인 경로 위의 조상 객체와 그 경로 (순환 참조 감지용) */
+  private _ancestors: Map<object, string>;
 
   /**
    * JsonViewer 인스턴스를 생성합니다.
@@ -12,6 +55,7 @@ export class JsonViewer {
    */
   constructor(maxDepth: number = 3) {
     this._maxDepth = maxDepth;
+    this._ancestors = new Map();
   }
 
   /**
@@ -32,7 +76,7 @@ export class JsonViewer {
       container.appendChild(keyElement);
     }
 
-    const valueElement = this._renderValue(value, currentDepth);
+    const valueElement = this._renderValue(value, currentDepth, ROOT_PATH);
     container.appendChild(valueElement);
 
     return container;
@@ -42,9 +86,10 @@ export class JsonViewer {
    * 값의 타입에 따라 적절한 렌더링 메서드를 호출합니다.
    * @param value 렌더링할 값
    * @param currentDepth 현재 깊이
+   * @param path 최상위 값으로부터의 경로
    * @returns 렌더링된 HTML 요소
    */
-  private _renderValue(value: unknown, currentDepth: number = 0): HTMLElement {
+  private _renderValue(value: unknown, currentDepth: number, path: string): HTMLElement {
     if (value === null) {
       return this._renderNull();
     }
@@ -58,13 +103,14 @@ export class JsonViewer {
         return this._renderString(value);
       case 'number':
         return this._renderNumber(value);
+      case 'bigint':
+        return this._renderLeaf('debug-overlay-json-number', `${value}n`);
       case 'boolean':
         return this._renderBoolean(value);
+      case 'symbol':
+        return this._renderLeaf('debug-overlay-json-symbol', value.toString());
       case 'object':
-        if (Array.isArray(value)) {
-          return this._renderArray(value, currentDepth);
-        }
-        return this._renderObject(value as Record<string, unknown>, currentDepth);
+        return this._renderObjectValue(value, currentDepth, path);
       case 'function':
         return this._renderFunction(value);
       default:
@@ -72,6 +118,63 @@ export class JsonViewer {
     }
   }
 
+  /**
+   * 객체 값을 종류에 맞게 렌더링합니다.
+   * 렌더링 경로 위에 이미 있는 객체면 순환 참조 표시를 반환합니다.
+   */
+  private _renderObjectValue(value: object, currentDepth: number, path: string): HTMLElement {
+    if (isSnapshotNode(value)) {
+      return this._renderSnapshot(value, currentDepth, path);
+    }
+
+    const circularPath = this._ancestors.get(value);
+    if (circularPath !== undefined) {
+      return this._renderLeaf('debug-overlay-json-circular', `[Circular → ${circularPath}]`);
+    }
+
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+      return this._renderLeaf('debug-overlay-json-node', describeNode(value));
+    }
+    if (value instanceof Date) {
+      const text = Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+      return this._renderLeaf('debug-overlay-json-date', text);
+    }
+    if (value instanceof RegExp) {
+      return this._renderLeaf('debug-overlay-json-regexp', value.toString());
+    }
+    if (value instanceof Promise) {
+      // then()을 붙이면 처리되지 않은 거부(unhandledrejection)가 사라지므로 상태는 읽지 않습니다.
+      return this._renderLeaf('debug-overlay-json-special', 'Promise {…}');
+    }
+    if (value instanceof WeakMap || value instanceof WeakSet) {
+      return this._renderLeaf('debug-overlay-json-special', `${value instanceof WeakMap ? 'WeakMap' : 'WeakSet'} {…}`);
+    }
+    if (value instanceof ArrayBuffer) {
+      return this._renderLeaf('debug-overlay-json-special', `ArrayBuffer(${value.byteLength})`);
+    }
+    if (value instanceof DataView) {
+      return this._renderLeaf('debug-overlay-json-special', `DataView(${value.byteLength})`);
+    }
+
+    if (Array.isArray(value)) {
+      return this._renderArray(value, currentDepth, path);
+    }
+    if (ArrayBuffer.isView(value)) {
+      return this._renderTypedArray(value, currentDepth, path);
+    }
+    if (value instanceof Map) {
+      return this._renderMap(value, currentDepth, path);
+    }
+    if (value instanceof Set) {
+      return this._renderSet(value, currentDepth, path);
+    }
+    if (value instanceof Error) {
+      return this._renderError(value, currentDepth, path);
+    }
+
+    return this._renderObject(value as Record<string, unknown>, currentDepth, path);
+  }
+
   /**
    * 문자열 값을 렌더링합니다.
    */
@@ -142,151 +245,446 @@ export class JsonViewer {
     return element;
   }
 
+  /**
+   * 자식이 없는 값을 한 줄 텍스트로 렌더링합니다.
+   */
+  private _renderLeaf(className: string, text: string): HTMLElement {
+    const element = document.createElement('span');
+    element.className = className;
+    element.textContent = text;
+    return element;
+  }
+
   /**
    * 객체를 렌더링합니다.
+   * 클래스 인스턴스는 생성자 이름을, 심볼 키는 `[Symbol(...)]` 형태의 키를 함께 표시합니다.
    */
-  private _renderObject(obj: Record<string, unknown>, currentDepth: number): HTMLElement {
-    const container = document.createElement('div');
-    
-    if (currentDepth >= this._maxDepth) {
-      container.className = 'debug-overlay-json-collapsed';
-      container.style.cursor = 'pointer';
-      container.textContent = '{...}';
-      
-      // 클릭하면 확장할 수 있도록 이벤트 추가
-      container.addEventListener('click', () => {
-        // 새로운 뷰어로 전체 객체를 렌더링
-        const expandedViewer = new JsonViewer(this._maxDepth + 3);
-        const expandedElement = expandedViewer.render(obj, undefined, currentDepth);
-        container.replaceWith(expandedElement);
-      });
-      
-      return container;
-    }
+  private _renderObject(obj: Record<string, unknown>, currentDepth: number, path: string): HTMLElement {
+    const constructorName = getConstructorName(obj);
+    const prefix = constructorName === 'null prototype'
+      ? '[Object: null prototype] '
+      : constructorName ? `${constructorName} ` : '';
+
+    return this._renderNode(obj, currentDepth, path, {
+      prefix,
+      open: '{',
+      close: '}',
+      childClassName: 'debug-overlay-json-object',
+      children: () => this._collectPropertyChildren(obj, currentDepth, path),
+    });
+  }
 
-    const keys = Object.keys(obj);
-    if (keys.length === 0) {
-      container.textContent = '{}';
-      return container;
+  /**
+   * 배열을 렌더링합니다.
+   */
+  private _renderArray(arr: unknown[], currentDepth: number, path: string): HTMLElement {
+    const constructorName = getConstructorName(arr);
+
+    return this._renderNode(arr, currentDepth, path, {
+      prefix: constructorName ? `${constructorName}(${arr.length}) ` : '',
+      open: '[',
+      close: ']',
+      childClassName: 'debug-overlay-json-array',
+      children: () => arr.map((item, index) => ({
+        key: this._createKeyElement(`${index}: `),
+        render: () => this._renderValue(item, currentDepth + 1, appendPath(path, index)),
+      })),
+    });
+  }
+
+  /**
+   * 타입 배열(Uint8Array 등)을 렌더링합니다.
+   */
+  private _renderTypedArray(view: ArrayBufferView, currentDepth: number, path: string): HTMLElement {
+    const items = Array.from(view as unknown as ArrayLike<number | bigint>);
+
+    return this._renderNode(view, currentDepth, path, {
+      prefix: `${getConstructorName(view)}(${items.length}) `,
+      open: '[',
+      close: ']',
+      childClassName: 'debug-overlay-json-array',
+      children: () => this._limitChildren(
+        items.map((item, index) => ({
+          key: this._createKeyElement(`${index}: `),
+          render: () => this._renderValue(item, currentDepth + 1, appendPath(path, index)),
+        }))
+      ),
+    });
+  }
+
+  /**
+   * Map을 `key => value` 항목들로 렌더링합니다.
+   */
+  private _renderMap(map: Map<unknown, unknown>, currentDepth: number, path: string): HTMLElement {
+    return this._renderNode(map, currentDepth, path, {
+      prefix: `${getConstructorName(map)}(${map.size}) `,
+      open: '{',
+      close: '}',
+      childClassName: 'debug-overlay-json-object',
+      children: () => this._limitChildren(
+        Array.from(map.entries()).map(([key, value], index) => {
+          const entryPath = appendPath(`${path}[[Entries]]`, index);
+          return {
+            key: this._createMapKeyElement(key, currentDepth, appendPath(entryPath, 'key')),
+            render: () => this._renderValue(value, currentDepth + 1, appendPath(entryPath, 'value')),
+          };
+        })
+      ),
+    });
+  }
+
+  /**
+   * Set을 렌더링합니다.
+   */
+  private _renderSet(set: Set<unknown>, currentDepth: number, path: string): HTMLElement {
+    return this._renderNode(set, currentDepth, path, {
+      prefix: `${getConstructorName(set)}(${set.size}) `,
+      open: '{',
+      close: '}',
+      childClassName: 'debug-overlay-json-array',
+      children: () => this._limitChildren(
+        Array.from(set.values()).map((value, index) => ({
+          key: null,
+          render: () => this._renderValue(value, currentDepth + 1, appendPath(`${path}[[Entries]]`, index)),
+        }))
+      ),
+    });
+  }
+
+  /**
+   * Error를 `Name: message` 헤더와 스택, cause 체인, 추가 속성으로 렌더링합니다.
+   */
+  private _renderError(error: Error, currentDepth: number, path: string): HTMLElement {
+    return this._renderNode(error, currentDepth, path, {
+      prefix: `${error.name}: ${error.message} `,
+      open: '{',
+      close: '}',
+      childClassName: 'debug-overlay-json-object',
+      prefixClassName: 'debug-overlay-json-error',
+      children: () => {
+        const children: JsonViewerChild[] = [];
+
+        if (error.stack) {
+          const stack = error.stack;
+          children.push({
+            key: this._createKeyElement('stack: '),
+            render: () => this._renderLeaf('debug-overlay-json-stack', stack),
+          });
+        }
+
+        if ('cause' in error && error.cause !== undefined) {
+          const cause = error.cause;
+          children.push({
+            key: this._createKeyElement('cause: '),
+            render: () => this._renderValue(cause, currentDepth + 1, appendPath(path, 'cause')),
+          });
+        }
+
+        return children.concat(this._collectPropertyChildren(error, currentDepth, path));
+      },
+    });
+  }
+
+  /**
+   * 스냅샷 노드를 원본 값의 종류에 맞게 렌더링합니다.
+   * 직렬화 한도 때문에 생략된 부분은 요약이나 남은 항목 수로 표시합니다.
+   */
+  private _renderSnapshot(node: SnapshotNode, currentDepth: number, path: string): HTMLElement {
+    switch (node['@snapshot']) {
+      case 'undefined':
+        return this._renderUndefined();
+      case 'number':
+        return this._renderLeaf('debug-overlay-json-number', node.value);
+      case 'bigint':
+        return this._renderLeaf('debug-overlay-json-number', `${node.value}n`);
+      case 'symbol':
+        return this._renderLeaf('debug-overlay-json-symbol', node.description);
+      case 'string':
+        return this._renderLeaf('debug-overlay-json-string', `"${node.value}…" (${node.length} chars)`);
+      case 'function':
+        return this._renderLeaf('debug-overlay-json-string', `[Function: ${node.name || 'anonymous'}]`);
+      case 'date':
+        return this._renderLeaf('debug-overlay-json-date', node.value);
+      case 'regexp':
+        return this._renderLeaf('debug-overlay-json-regexp', node.value);
+      case 'node':
+        return this._renderLeaf('debug-overlay-json-node', node.description);
+      case 'opaque':
+        return this._renderLeaf('debug-overlay-json-special', node.description);
+      case 'circular':
+        return this._renderLeaf('debug-overlay-json-circular', `[Circular → ${node.path}]`);
+      case 'depth':
+        return this._renderLeaf('debug-overlay-json-special', `${node.preview} …`);
+      case 'object':
+        return this._renderNode(node, currentDepth, path, {
+          prefix: node.className === 'null prototype'
+            ? '[Object: null prototype] '
+            : node.className ? `${node.className} ` : '',
+          open: '{',
+          close: '}',
+          childClassName: 'debug-overlay-json-object',
+          children: () => this._appendTruncatedChild(
+            this._collectSnapshotEntries(node.entries, currentDepth, path),
+            node.truncated
+          ),
+        });
+      case 'array':
+        return this._renderNode(node, currentDepth, path, {
+          prefix: node.className ? `${node.className}(${node.length}) ` : '',
+          open: '[',
+          close: ']',
+          childClassName: 'debug-overlay-json-array',
+          children: () => this._appendTruncatedChild(
+            node.items.map((item, index) => ({
+              key: this._createKeyElement(`${index}: `),
+              render: () => this._renderValue(item, currentDepth + 1, appendPath(path, index)),
+            })),
+            node.truncated
+          ),
+        });
+      case 'map':
+        return this._renderNode(node, currentDepth, path, {
+          prefix: `${node.className}(${node.size}) `,
+          open: '{',
+          close: '}',
+          childClassName: 'debug-overlay-json-object',
+          children: () => this._appendTruncatedChild(
+            node.entries.map(([key, value], index) => {
+              const entryPath = appendPath(`${path}[[Entries]]`, index);
+              return {
+                key: this._createMapKeyElement(key, currentDepth, appendPath(entryPath, 'key')),
+                render: () => this._renderValue(value, currentDepth + 1, appendPath(entryPath, 'value')),
+              };
+            }),
+            node.truncated
+          ),
+        });
+      case 'set':
+        return this._renderNode(node, currentDepth, path, {
+          prefix: `${node.className}(${node.size}) `,
+          open: '{',
+          close: '}',
+          childClassName: 'debug-overlay-json-array',
+          children: () => this._appendTruncatedChild(
+            node.items.map((value, index) => ({
+              key: null,
+              render: () => this._renderValue(value, currentDepth + 1, appendPath(`${path}[[Entries]]`, index)),
+            })),
+            node.truncated
+          ),
+        });
+      case 'error':
+        return this._renderNode(node, currentDepth, path, {
+          prefix: `${node.name}: ${node.message} `,
+          open: '{',
+          close: '}',
+          childClassName: 'debug-overlay-json-object',
+          prefixClassName: 'debug-overlay-json-error',
+          children: () => {
+            const children: JsonViewerChild[] = [];
+
+            if (node.stack !== undefined) {
+              const stack = node.stack;
+              children.push({
+                key: this._createKeyElement('stack: '),
+                render: () => this._renderLeaf('debug-overlay-json-stack', stack),
+              });
+            }
+
+            if (node.cause !== undefined) {
+              const cause: SnapshotValue = node.cause;
+              children.push({
+                key: this._createKeyElement('cause: '),
+                render: () => this._renderValue(cause, currentDepth + 1, appendPath(path, 'cause')),
+              });
+            }
+
+            return children.concat(this._collectSnapshotEntries(node.entries, currentDepth, path));
+          },
+        });
     }
+  }
 
-    // 토글 가능한 객체 생성
-    const toggle = document.createElement('span');
-    toggle.className = 'debug-overlay-json-toggle';
-    toggle.textContent = '▼';
-    
-    const objectContainer = document.createElement('div');
-    objectContainer.className = 'debug-overlay-json-object';
-    
-    let isCollapsed = false;
+  /**
+   * 스냅샷 객체의 [키, 값] 항목들을 자식 항목으로 변환합니다.
+   */
+  private _collectSnapshotEntries(entries: SnapshotEntry[], currentDepth: number, path: string): JsonViewerChild[] {
+    return entries.map(([key, value]) => ({
+      key: this._createKeyElement(`"${key}": `),
+      render: () => this._renderValue(value, currentDepth + 1, appendPath(path, key)),
+    }));
+  }
 
-    // 토글 기능
-    toggle.addEventListener('click', () => {
-      isCollapsed = !isCollapsed;
-      toggle.textContent = isCollapsed ? '▶' : '▼';
-      objectContainer.style.display = isCollapsed ? 'none' : 'block';
+  /**
+   * 직렬화 때 생략된 항목이 있으면 남은 개수를 알리는 항목을 덧붙입니다.
+   */
+  private _appendTruncatedChild(children: JsonViewerChild[], truncated: number): JsonViewerChild[] {
+    if (truncated <= 0) {
+      return children;
+    }
+
+    return children.concat({
+      key: null,
+      render: () => this._renderLeaf('debug-overlay-json-special', `… ${truncated} more items`),
     });
+  }
 
-    container.appendChild(toggle);
-    container.appendChild(document.createTextNode('{ '));
-
-    keys.forEach((key, index) => {
-      const keyElement = document.createElement('div');
-      
-      const keySpan = document.createElement('span');
-      keySpan.className = 'debug-overlay-json-key';
-      keySpan.textContent = `"${key}": `;
-      
-      const valueElement = this._renderValue(obj[key], currentDepth + 1);
-      
-      keyElement.appendChild(keySpan);
-      keyElement.appendChild(valueElement);
-      
-      if (index < keys.length - 1) {
-        keyElement.appendChild(document.createTextNode(','));
+  /**
+   * 객체의 열거 가능한 문자열 키와 심볼 키를 자식 항목으로 모읍니다.
+   */
+  private _collectPropertyChildren(obj: object, currentDepth: number, path: string): JsonViewerChild[] {
+    const record = obj as Record<string | symbol, unknown>;
+
+    const children: JsonViewerChild[] = Object.keys(obj).map((key) => ({
+      key: this._createKeyElement(`"${key}": `),
+      render: () => this._renderValue(record[key], currentDepth + 1, appendPath(path, key)),
+    }));
+
+    Object.getOwnPropertySymbols(obj).forEach((symbol) => {
+      if (Object.prototype.propertyIsEnumerable.call(obj, symbol)) {
+        const label = `[${symbol.toString()}]`;
+        children.push({
+          key: this._createKeyElement(`${label}: `),
+          render: () => this._renderValue(record[symbol], currentDepth + 1, `${path}${label}`),
+        });
       }
-      
-      objectContainer.appendChild(keyElement);
     });
 
-    container.appendChild(objectContainer);
-    container.appendChild(document.createTextNode(' }'));
+    return children;
+  }
 
-    return container;
+  /**
+   * 자식 항목이 최대 개수를 넘으면 나머지 개수를 알리는 항목으로 대체합니다.
+   */
+  private _limitChildren(children: JsonViewerChild[]): JsonViewerChild[] {
+    if (children.length <= MAX_COLLECTION_ITEMS) {
+      return children;
+    }
+
+    const remaining = children.length - MAX_COLLECTION_ITEMS;
+    return children.slice(0, MAX_COLLECTION_ITEMS).concat({
+      key: null,
+      render: () => this._renderLeaf('debug-overlay-json-special', `… ${remaining} more items`),
+    });
   }
 
   /**
-   * 배열을 렌더링합니다.
+   * 키 요소를 생성합니다.
+   */
+  private _createKeyElement(text: string): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'debug-overlay-json-key';
+    element.textContent = text;
+    return element;
+  }
+
+  /**
+   * Map 항목의 `key => ` 요소를 생성합니다.
+   * 키가 객체일 수 있으므로 값과 같은 방식으로 렌더링합니다.
+   */
+  private _createMapKeyElement(key: unknown, currentDepth: number, path: string): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'debug-overlay-json-map-key';
+    element.appendChild(this._renderValue(key, currentDepth + 1, path));
+    element.appendChild(document.createTextNode(' => '));
+    return element;
+  }
+
+  /**
+   * 접을 수 있는 트리 노드를 렌더링합니다.
+   * 최대 깊이에 도달하면 클릭해서 펼칠 수 있는 요약만 표시합니다.
    */
-  private _renderArray(arr: unknown[], currentDepth: number): HTMLElement {
+  private _renderNode(
+    value: object,
+    currentDepth: number,
+    path: string,
+    node: JsonViewerNode
+  ): HTMLElement {
     const container = document.createElement('div');
-    
+
     if (currentDepth >= this._maxDepth) {
       container.className = 'debug-overlay-json-collapsed';
-      container.style.cursor = 'pointer';
-      container.textContent = '[...]';
-      
+      container.textContent = `${node.prefix}${node.open}...${node.close}`;
+
       // 클릭하면 확장할 수 있도록 이벤트 추가
       container.addEventListener('click', () => {
-        // 새로운 뷰어로 전체 배열을 렌더링
+        // 새로운 뷰어로 전체 값을 렌더링 (순환 참조 감지를 위해 조상 정보를 이어받음)
         const expandedViewer = new JsonViewer(this._maxDepth + 3);
-        const expandedElement = expandedViewer.render(arr, undefined, currentDepth);
+        this._ancestors.forEach((ancestorPath, ancestor) => {
+          expandedViewer._ancestors.set(ancestor, ancestorPath);
+        });
+        const expandedElement = expandedViewer._renderValue(value, currentDepth, path);
         container.replaceWith(expandedElement);
       });
-      
+
       return container;
     }
 
-    if (arr.length === 0) {
-      container.textContent = '[]';
+    this._ancestors.set(value, path);
+    let children: HTMLElement[];
+    try {
+      children = node.children().map((child) => {
+        const childElement = document.createElement('div');
+        if (child.key) {
+          childElement.appendChild(child.key);
+        }
+        childElement.appendChild(child.render());
+        return childElement;
+      });
+    } finally {
+      this._ancestors.delete(value);
+    }
+
+    if (children.length === 0) {
+      container.appendChild(this._createPrefixElement(node));
+      container.appendChild(document.createTextNode(`${node.open}${node.close}`));
       return container;
     }
 
-    // 토글 가능한 배열 생성
+    // 토글 가능한 노드 생성
     const toggle = document.createElement('span');
     toggle.className = 'debug-overlay-json-toggle';
     toggle.textContent = '▼';
-    
-    const arrayContainer = document.createElement('div');
-    arrayContainer.className = 'debug-overlay-json-array';
-    
+
+    const childContainer = document.createElement('div');
+    childContainer.className = node.childClassName;
+
     let isCollapsed = false;
 
     // 토글 기능
     toggle.addEventListener('click', () => {
       isCollapsed = !isCollapsed;
       toggle.textContent = isCollapsed ? '▶' : '▼';
-      arrayContainer.style.display = isCollapsed ? 'none' : 'block';
+      childContainer.classList.toggle('hidden', isCollapsed);
     });
 
     container.appendChild(toggle);
-    container.appendChild(document.createTextNode('[ '));
-
-    arr.forEach((item, index) => {
-      const itemElement = document.createElement('div');
-      
-      const indexSpan = document.createElement('span');
-      indexSpan.className = 'debug-overlay-json-key';
-      indexSpan.textContent = `${index}: `;
-      
-      const valueElement = this._renderValue(item, currentDepth + 1);
-      
-      itemElement.appendChild(indexSpan);
-      itemElement.appendChild(valueElement);
-      
-      if (index < arr.length - 1) {
-        itemElement.appendChild(document.createTextNode(','));
+    container.appendChild(this._createPrefixElement(node));
+    container.appendChild(document.createTextNode(`${node.open} `));
+
+    children.forEach((childElement, index) => {
+      if (index < children.length - 1) {
+        childElement.appendChild(document.createTextNode(','));
       }
-      
-      arrayContainer.appendChild(itemElement);
+      childContainer.appendChild(childElement);
     });
 
-    container.appendChild(arrayContainer);
-    container.appendChild(document.createTextNode(' ]'));
+    container.appendChild(childContainer);
+    container.appendChild(document.createTextNode(` ${node.close}`));
 
     return container;
   }
 
+  /**
+   * 트리 노드의 설명 요소를 생성합니다.
+   */
+  private _createPrefixElement(node: JsonViewerNode): Node {
+    if (!node.prefixClassName) {
+      return document.createTextNode(node.prefix);
+    }
+    return this._renderLeaf(node.prefixClassName, node.prefix);
+  }
+
   /**
    * 정적 메서드: 간단한 값 렌더링
    * 복잡한 객체나 배열이 아닌 단순한 값들을 빠르게 렌더링할 때 사용합니다.
@@ -299,17 +697,19 @@ export class JsonViewer {
   /**
    * 정적 메서드: 값을 문자열로 변환
    * 로그 출력 시 사용할 수 있는 문자열 표현을 생성합니다.
+   * 순환 참조는 `[Circular → path]`로 표시되고, 스냅샷은 원본 값 형태로 되돌려 변환합니다.
    */
-  public static stringify(value: unknown): string {
-    try {
-      if (value === null) return 'null';
-      if (value === undefined) return 'undefined';
-      if (typeof value === 'string') return `"${value}"`;
-      if (typeof value === 'function') return `[Function: ${value.name || 'anonymous'}]`;
-      
-      return JSON.stringify(value, null, 2);
-    } catch (error) {
-      return `[Circular or Invalid JSON: ${typeof value}]`;
-    }
+  public static stringify(snapshotOrValue: unknown): string {
+    const value = reviveSnapshot(snapshotOrValue);
+
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'string') return `"${value}"`;
+    if (typeof value === 'function') return `[Function: ${value.name || 'anonymous'}]`;
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+    return safeStringify(value, 2);
   }
 }
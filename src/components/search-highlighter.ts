@@ -0,0 +1,97 @@
+/**
+ * 검색 일치 구간을 표시하는 mark 요소의 클래스 이름
+ */
+const MATCH_CLASS = 'debug-overlay-search-match'
+
+/**
+ * 검색어 하이라이트 컴포넌트
+ * 요소 안의 텍스트 노드에서 검색 정규식과 일치하는 구간을 mark 요소로 감쌉니다.
+ */
+export class SearchHighlighter {
+  /**
+   * 요소 안의 일치 구간을 하이라이트합니다.
+   * 이전 하이라이트는 먼저 제거됩니다.
+   *
+   * @param root 하이라이트할 요소
+   * @param pattern 검색 정규식 (null이면 하이라이트만 제거)
+   * @returns 하이라이트된 구간 수
+   */
+  public static apply(root: HTMLElement, pattern: RegExp | null): number {
+    SearchHighlighter.clear(root)
+
+    if (!pattern) {
+      return 0
+    }
+
+    const globalPattern = new RegExp(
+      pattern.source,
+      pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+    )
+
+    const textNodes: Text[] = []
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text)
+    }
+
+    return textNodes.reduce(
+      (count, node) =>
+        count + SearchHighlighter._highlightTextNode(node, globalPattern),
+      0
+    )
+  }
+
+  /**
+   * 요소 안의 하이라이트를 모두 제거하고 원래 텍스트로 되돌립니다.
+   *
+   * @param root 하이라이트를 제거할 요소
+   */
+  public static clear(root: HTMLElement): void {
+    const marks = root.querySelectorAll(`mark.${MATCH_CLASS}`)
+    if (marks.length === 0) return
+
+    marks.forEach((mark) => {
+      mark.replaceWith(document.createTextNode(mark.textContent ?? ''))
+    })
+    root.normalize()
+  }
+
+  /**
+   * 텍스트 노드 하나를 일치 구간 기준으로 나누어 mark 요소로 감쌉니다.
+   */
+  private static _highlightTextNode(node: Text, pattern: RegExp): number {
+    const text = node.data
+    const fragment = document.createDocumentFragment()
+    let lastIndex = 0
+    let count = 0
+    let match: RegExpExecArray | null
+
+    pattern.lastIndex = 0
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // 빈 문자열과 일치하는 정규식이 멈추지 않도록 한 글자 건너뜁니다.
+        pattern.lastIndex++
+        continue
+      }
+
+      fragment.appendChild(
+        document.createTextNode(text.slice(lastIndex, match.index))
+      )
+
+      const mark = document.createElement('mark')
+      mark.className = MATCH_CLASS
+      mark.textContent = match[0]
+      fragment.appendChild(mark)
+
+      lastIndex = match.index + match[0].length
+      count++
+    }
+
+    if (count > 0) {
+      fragment.appendChild(document.createTextNode(text.slice(lastIndex)))
+      node.replaceWith(fragment)
+    }
+
+    return count
+  }
+}
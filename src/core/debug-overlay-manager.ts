@@ -1,14 +1,59 @@
 import { LogLevel } from '../types/types.js'
 import type {
+  ChannelLogger,
   DebugOverlayAPI,
+  DebugOverlayPlugin,
+  DebugOverlayPluginContext,
+  DebugReport,
+  ExportFormat,
   OverlayOptions,
   LogEntry,
+  LogReplayOptions,
+  LogStoreChange,
+  NetworkEntry,
+  ReportDelivery,
 } from '../types/types.js'
 import { ConsoleInterceptor } from '../interceptors/console-interceptor.js'
+import { NetworkInterceptor } from '../interceptors/network-interceptor.js'
 import { LogStore } from '../storage/log-store.js'
+import { NetworkStore } from '../storage/network-store.js'
+import { LogPersistence } from '../storage/log-persistence.js'
+import { RemoteLogTransport } from '../transport/remote-log-transport.js'
 import { OverlayRenderer } from '../ui/overlay-renderer.js'
 import { ErrorCapturer } from '../interceptors/error-capturer.js'
-import { injectStyles, removeStyles } from '../ui/styles.js'
+import { ReplEvaluator } from '../repl/repl-evaluator.js'
+import { LogReplayer } from '../replay/log-replayer.js'
+import { SourceMapResolver } from '../sourcemap/source-map-resolver.js'
+import { safeStringify } from '../utils/safe-stringify.js'
+import {
+  createDebugReport,
+  exportLogsAsHtml,
+  exportLogsAsJson,
+  exportLogsAsNdjson,
+  exportLogsAsText,
+  exportNetworkAsHar,
+} from '../export/log-exporter.js'
+import { parseLogExport } from '../export/log-importer.js'
+import {
+  copyTextToClipboard,
+  createFileTimestamp,
+  downloadTextFile,
+  isMobileEnvironment,
+} from '../export/file-download.js'
+
+/**
+ * 내보내기 형식별 파일 확장자와 MIME 타입
+ */
+const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  ndjson: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  har: { extension: 'har', mimeType: 'application/json' },
+}
 
 /**
  * 디버그 오버레이 매니저 클래스
@@ -16,9 +61,10 @@ import { injectStyles, removeStyles } from '../ui/styles.js'
  * 단일 책임: 위 세 클래스의 인스턴스를 생성하고, 이들 간의 데이터 흐름과 상호작용을 조율하는 '지휘자'의 책임만 가집니다.
  * 외부로 노출되는 Public API를 제공합니다.
  *
- * - ConsoleInterceptor, LogStore, OverlayRenderer 간의 협업 조율
+ * - ConsoleInterceptor, NetworkInterceptor, LogStore, NetworkStore, OverlayRenderer 간의 협업 조율
  * - 라이브러리 생명주기 관리 (초기화, 정리)
  * - Public API 구현
+ * - 플러그인 등록과 훅 호출
  * - 설정 관리
  */
 export class DebugOverlayManager implements DebugOverlayAPI {
@@ -26,6 +72,16 @@ export class DebugOverlayManager implements DebugOverlayAPI {
   private _logStore: LogStore | null
   private _overlayRenderer: OverlayRenderer | null
   private _errorCapturer: ErrorCapturer | null
+  private _networkInterceptor: NetworkInterceptor | null
+  private _networkStore: NetworkStore | null
+  private _replEvaluator: ReplEvaluator | null
+  private _logPersistence: LogPersistence | null
+  private _remoteTransport: RemoteLogTransport | null
+  private _logReplayer: LogReplayer | null
+  private _sourceMapResolver: SourceMapResolver | null
+  private _plugins: DebugOverlayPlugin[]
+  private _isRunningLogHooks: boolean
+  private _readCounts: Record<LogLevel, number>
   private _isInitialized: boolean
   private _options: OverlayOptions
 
@@ -37,6 +93,16 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     this._logStore = null
     this._overlayRenderer = null
     this._errorCapturer = null
+    this._networkInterceptor = null
+    this._networkStore = null
+    this._replEvaluator = null
+    this._logPersistence = null
+    this._remoteTransport = null
+    this._logReplayer = null
+    this._sourceMapResolver = null
+    this._plugins = []
+    this._isRunningLogHooks = false
+    this._readCounts = createEmptyLevelCounts()
     this._isInitialized = false
     this._options = {}
   }
@@ -56,21 +122,55 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     try {
       this._options = { ...options }
 
-      injectStyles(this._options.theme)
-
-      this._logStore = new LogStore(this._options.maxLogs)
-      this._consoleInterceptor = new ConsoleInterceptor()
+      this._logStore = new LogStore(
+        this._options.maxLogs,
+        this._options.collapseRepeats
+      )
+      this._consoleInterceptor = new ConsoleInterceptor(
+        this._options.argsMode,
+        this._options.snapshot
+      )
       this._errorCapturer = new ErrorCapturer()
+      this._replEvaluator = new ReplEvaluator()
+      this._logReplayer = new LogReplayer()
       this._overlayRenderer = new OverlayRenderer(this._options)
 
+      if (this._options.persistence) {
+        this._logPersistence = new LogPersistence(
+          this._options.persistence,
+          this._options.maxLogs
+        )
+      }
+
+      if (this._options.remote) {
+        this._remoteTransport = new RemoteLogTransport(this._options.remote)
+      }
+
+      // NetworkInterceptor보다 먼저 생성해야 .map 요청이 Network 탭에 기록되지 않습니다.
+      if (this._options.sourceMaps) {
+        this._sourceMapResolver = new SourceMapResolver(
+          this._options.sourceMaps === true ? {} : this._options.sourceMaps
+        )
+      }
+
+      if (this._options.captureNetwork !== false) {
+        this._networkStore = new NetworkStore(this._options.maxNetworkEntries)
+        this._networkInterceptor = new NetworkInterceptor()
+      }
+
       this._setupConnections()
 
       this._consoleInterceptor.startIntercepting()
       this._errorCapturer.start()
+      this._networkInterceptor?.startIntercepting()
+      this._remoteTransport?.connect()
       this._overlayRenderer.createOverlay()
 
       this._isInitialized = true
 
+      this._plugins.forEach((plugin) => this._initPlugin(plugin))
+      this._restorePreviousSessions()
+
       console.log('🐛 Interactive Debug Console Overlay가 초기화되었습니다.')
     } catch (error) {
       console.error('DebugOverlayManager 초기화 중 오류:', error)
@@ -114,6 +214,7 @@ export class DebugOverlayManager implements DebugOverlayAPI {
 
     if (this._overlayRenderer) {
       this._overlayRenderer.hide()
+      this._markLogsRead()
     }
   }
 
@@ -125,6 +226,9 @@ export class DebugOverlayManager implements DebugOverlayAPI {
 
     if (this._overlayRenderer) {
       this._overlayRenderer.toggle()
+      if (!this._overlayRenderer.isVisible()) {
+        this._markLogsRead()
+      }
     }
   }
 
@@ -155,6 +259,85 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     }
   }
 
+  /**
+   * 채널 이름이 붙는 로거를 생성합니다.
+   * 초기화 전에도 만들 수 있으며, 초기화되기 전의 로그는 브라우저 콘솔에만 출력됩니다.
+   *
+   * @param channel 채널 이름 (예: 'payments', 'payments:card')
+   * @returns console과 같은 메서드를 가진 로거
+   */
+  public createLogger(channel: string): ChannelLogger {
+    const write =
+      (level: LogLevel) =>
+      (...args: unknown[]): void => {
+        this._writeChannelLog(channel, level, args)
+      }
+
+    return {
+      channel,
+      log: write(LogLevel.LOG),
+      info: write(LogLevel.INFO),
+      warn: write(LogLevel.WARN),
+      error: write(LogLevel.ERROR),
+      debug: write(LogLevel.DEBUG),
+    }
+  }
+
+  /**
+   * 패턴과 일치하는 로그 채널을 오버레이에 표시합니다.
+   *
+   * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (예: 'payments:*,-payments:verbose')
+   */
+  public enableChannels(patterns: string): void {
+    this._ensureInitialized()
+    this._overlayRenderer?.enableChannels(patterns)
+  }
+
+  /**
+   * 패턴과 일치하는 로그 채널을 오버레이에서 숨깁니다.
+   * 숨긴 채널의 로그도 계속 저장되므로 다시 표시하면 나타납니다.
+   *
+   * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (예: 'payments:*')
+   */
+  public disableChannels(patterns: string): void {
+    this._ensureInitialized()
+    this._overlayRenderer?.disableChannels(patterns)
+  }
+
+  /**
+   * JavaScript 표현식을 페이지 스코프에서 평가합니다.
+   * 입력한 명령과 평가 결과(또는 예외)가 로그 항목으로 추가됩니다.
+   *
+   * @param code 평가할 JavaScript 코드
+   */
+  public evaluate(code: string): void {
+    this._ensureInitialized()
+
+    if (this._replEvaluator) {
+      this._replEvaluator.evaluate(code)
+    }
+  }
+
+  /**
+   * 플러그인을 등록합니다.
+   * 등록한 플러그인은 destroy() 후 다시 init()해도 유지되며, 초기화될 때마다 onInit이 호출됩니다.
+   * 이미 초기화되었으면 onInit이 바로 호출됩니다.
+   *
+   * @param plugin 등록할 플러그인
+   */
+  public use(plugin: DebugOverlayPlugin): void {
+    if (this._plugins.some(({ name }) => name === plugin.name)) {
+      console.warn(`플러그인 '${plugin.name}'이(가) 이미 등록되었습니다.`)
+      return
+    }
+
+    this._plugins.push(plugin)
+
+    if (this._isInitialized) {
+      this._initPlugin(plugin)
+    }
+  }
+
   /**
    * 모든 로그를 삭제합니다.
    */
@@ -164,6 +347,40 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     if (this._logStore) {
       this._logStore.clearLogs()
     }
+
+    if (this._logPersistence) {
+      this._logPersistence.clear()
+    }
+
+    if (this._remoteTransport) {
+      this._remoteTransport.clear()
+    }
+  }
+
+  /**
+   * 캡처된 네트워크 요청 항목들을 반환합니다.
+   *
+   * @returns 네트워크 요청 항목들 (네트워크 캡처가 꺼져 있으면 빈 배열)
+   */
+  public getNetworkEntries(): NetworkEntry[] {
+    this._ensureInitialized()
+
+    if (this._networkStore) {
+      return this._networkStore.getAllEntries()
+    }
+
+    return []
+  }
+
+  /**
+   * 캡처된 네트워크 요청 항목들을 모두 삭제합니다.
+   */
+  public clearNetworkEntries(): void {
+    this._ensureInitialized()
+
+    if (this._networkStore) {
+      this._networkStore.clearEntries()
+    }
   }
 
   /**
@@ -188,11 +405,30 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     this._options = { ...this._options, ...options }
 
     if (oldOptions.theme !== this._options.theme) {
-      injectStyles(this._options.theme)
+      this._overlayRenderer?.setTheme(this._options.theme ?? 'dark')
+    }
+
+    if (oldOptions.channels !== this._options.channels) {
+      this._overlayRenderer?.setChannelPatterns(this._options.channels ?? '')
     }
 
     if (oldOptions.maxLogs !== this._options.maxLogs && this._logStore) {
       this._logStore.setMaxLogs(this._options.maxLogs || 1000)
+      this._logPersistence?.setMaxEntries(this._options.maxLogs || 1000)
+    }
+
+    if (
+      oldOptions.collapseRepeats !== this._options.collapseRepeats &&
+      this._logStore
+    ) {
+      this._logStore.setCollapseMode(this._options.collapseRepeats ?? 'off')
+    }
+
+    if (
+      oldOptions.maxNetworkEntries !== this._options.maxNetworkEntries &&
+      this._networkStore
+    ) {
+      this._networkStore.setMaxEntries(this._options.maxNetworkEntries || 500)
     }
   }
 
@@ -256,19 +492,152 @@ export class DebugOverlayManager implements DebugOverlayAPI {
   }
 
   /**
-   * 로그를 JSON 형태로 내보냅니다.
+   * 로그를 지정한 형식의 문자열로 내보냅니다.
+   * 'har' 형식은 로그 대신 네트워크 요청 항목을 내보냅니다.
+   *
+   * @param format 내보내기 형식 (기본값: 'json')
+   * @returns 내보낸 문자열
+   */
+  public exportLogs(format: ExportFormat = 'json'): string {
+    this._ensureInitialized()
+
+    const logs = this._logStore ? this._logStore.getAllLogs() : []
+
+    switch (format) {
+      case 'ndjson':
+        return exportLogsAsNdjson(logs)
+      case 'text':
+        return exportLogsAsText(logs)
+      case 'html':
+        return exportLogsAsHtml(logs, this.getNetworkEntries())
+      case 'har':
+        return exportNetworkAsHar(this.getNetworkEntries())
+      default:
+        return exportLogsAsJson(logs)
+    }
+  }
+
+  /**
+   * 로그를 지정한 형식의 파일로 다운로드합니다.
+   *
+   * @param format 내보내기 형식 (기본값: 'json')
+   */
+  public downloadLogs(format: ExportFormat = 'json'): void {
+    const content = this.exportLogs(format)
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format]
+    const name = format === 'har' ? 'debug-network' : 'debug-logs'
+
+    downloadTextFile(
+      `${name}-${createFileTimestamp()}.${extension}`,
+      content,
+      mimeType
+    )
+  }
+
+  /**
+   * 로그, 네트워크 요청, 실행 환경(User-Agent, 뷰포트, URL), 설정 값, 통계를 묶은 버그 리포트를 생성합니다.
    *
-   * @returns JSON 문자열
+   * @returns 버그 리포트 번들
    */
-  public exportLogs(): string {
+  public createReport(): DebugReport {
     this._ensureInitialized()
 
+    return createDebugReport({
+      logs: this._logStore ? this._logStore.getAllLogs() : [],
+      network: this.getNetworkEntries(),
+      options: this.getOptions(),
+      statistics: this.getStatistics(),
+    })
+  }
+
+  /**
+   * 버그 리포트를 JSON 파일로 다운로드합니다.
+   * 모바일 환경에서는 클립보드에 복사하고, 복사에 실패하면 다운로드합니다.
+   *
+   * @returns 리포트를 전달한 방식
+   */
+  public async saveReport(): Promise<ReportDelivery> {
+    const content = safeStringify(this.createReport(), 2)
+
+    if (isMobileEnvironment() && (await copyTextToClipboard(content))) {
+      return 'clipboard'
+    }
+
+    downloadTextFile(
+      `debug-report-${createFileTimestamp()}.json`,
+      content,
+      'application/json'
+    )
+    return 'download'
+  }
+
+  /**
+   * 내보낸 로그(JSON/NDJSON 내보내기 또는 버그 리포트)를 가져와 현재 로그 앞에 추가합니다.
+   * 가져온 항목은 'imported' 세션으로 표시되며 영구 저장이나 원격 전송 대상이 아닙니다.
+   *
+   * @param data 내보낸 문자열 또는 파싱한 배열/버그 리포트 객체
+   * @param name 세션 이름 (구분선에 표시, 선택사항)
+   * @returns 가져온 로그 항목들
+   * @throws 지원하지 않는 형식인 경우
+   */
+  public importLogs(data: unknown, name?: string): LogEntry[] {
+    this._ensureInitialized()
+
+    const entries = parseLogExport(data, name)
     if (this._logStore) {
-      const logs = this._logStore.getAllLogs()
-      return JSON.stringify(logs, null, 2)
+      this._logStore.prependLogs(entries)
     }
 
-    return '[]'
+    return entries
+  }
+
+  /**
+   * 내보낸 로그를 기록된 시간 간격대로 LogStore에 다시 재생합니다.
+   * 재생 중인 로그가 있으면 중지하고 새로 시작합니다.
+   *
+   * @param data 내보낸 문자열 또는 파싱한 배열/버그 리포트 객체
+   * @param options 재생 옵션 (속도 배율, 세션 이름)
+   * @throws 지원하지 않는 형식이거나 속도가 올바르지 않은 경우
+   */
+  public replayLogs(data: unknown, options: LogReplayOptions = {}): void {
+    this._ensureInitialized()
+
+    const entries = parseLogExport(data, options.name ?? 'Replay')
+    this._logReplayer?.play(entries, options.speed)
+  }
+
+  /**
+   * 재생 속도 배율을 변경합니다. 재생 중이면 다음 항목부터 적용됩니다.
+   *
+   * @param speed 재생 속도 배율 (0보다 커야 함)
+   */
+  public setReplaySpeed(speed: number): void {
+    this._ensureInitialized()
+    this._logReplayer?.setSpeed(speed)
+  }
+
+  /**
+   * 로그 재생을 일시 정지합니다.
+   */
+  public pauseReplay(): void {
+    this._ensureInitialized()
+    this._logReplayer?.pause()
+  }
+
+  /**
+   * 일시 정지한 로그 재생을 이어서 시작합니다.
+   */
+  public resumeReplay(): void {
+    this._ensureInitialized()
+    this._logReplayer?.resume()
+  }
+
+  /**
+   * 로그 재생을 중지합니다. 이미 재생된 항목은 남아 있습니다.
+   */
+  public stopReplay(): void {
+    this._ensureInitialized()
+    this._logReplayer?.stop()
   }
 
   /**
@@ -279,19 +648,38 @@ export class DebugOverlayManager implements DebugOverlayAPI {
       !this._consoleInterceptor ||
       !this._logStore ||
       !this._overlayRenderer ||
-      !this._errorCapturer
+      !this._errorCapturer ||
+      !this._replEvaluator
     ) {
       throw new Error('모든 컴포넌트가 초기화되지 않았습니다.')
     }
 
     this._consoleInterceptor.addCallback((entry: LogEntry) => {
-      this._logStore!.addLog(entry)
+      this._addLogEntry(entry)
     })
     this._errorCapturer.addCallback((entry: LogEntry) => {
-      this._logStore!.addLog(entry)
+      this._addLogEntry(entry)
+    })
+    this._replEvaluator.addCallback((entry: LogEntry) => {
+      this._addLogEntry(entry)
     })
-    this._logStore.subscribe((logs: LogEntry[]) => {
-      this._overlayRenderer!.renderLogs(logs)
+    this._logReplayer?.addCallback((entry: LogEntry) => {
+      this._addLogEntry(entry)
+    })
+    this._logStore.subscribeChanges((change: LogStoreChange) => {
+      if (change.type === 'add') {
+        this._overlayRenderer!.appendLog(change.entry, change.removed)
+        this._logPersistence?.record(change.entry)
+        this._remoteTransport?.send(change.entry)
+        this._resolveStack(change.entry)
+      } else if (change.type === 'update') {
+        this._overlayRenderer!.updateLog(change.entry)
+        this._logPersistence?.record(change.entry)
+        this._remoteTransport?.update(change.entry)
+      } else {
+        this._overlayRenderer!.renderLogs(change.logs)
+      }
+      this._updateUnreadCounts(change)
     })
     this._overlayRenderer.onClear(() => {
       this.clearLogs()
@@ -301,6 +689,44 @@ export class DebugOverlayManager implements DebugOverlayAPI {
       this.close()
     })
 
+    this._overlayRenderer.onOpen(() => {
+      this.open()
+    })
+
+    this._overlayRenderer.onCommand((code: string) => {
+      this.evaluate(code)
+    })
+
+    this._overlayRenderer.onExport((format: ExportFormat) => {
+      this.downloadLogs(format)
+    })
+
+    this._overlayRenderer.onReport(() => {
+      this.saveReport()
+        .then((delivery) => {
+          this._overlayRenderer?.showNotice(
+            delivery === 'clipboard'
+              ? 'Report copied to clipboard'
+              : 'Report downloaded'
+          )
+        })
+        .catch((error) => {
+          console.error('버그 리포트 저장 중 오류:', error)
+        })
+    })
+
+    if (this._networkInterceptor && this._networkStore) {
+      this._networkInterceptor.addCallback((entry: NetworkEntry) => {
+        this._networkStore!.upsertEntry(entry)
+      })
+      this._networkStore.subscribe((entries: NetworkEntry[]) => {
+        this._overlayRenderer!.renderNetwork(entries)
+      })
+      this._overlayRenderer.onNetworkClear(() => {
+        this.clearNetworkEntries()
+      })
+    }
+
     this._overlayRenderer.onFilterChange((levels: LogLevel[]) => {
       if (this._logStore) {
         const filteredLogs = this._logStore.getLogsByLevels(levels)
@@ -309,10 +735,212 @@ export class DebugOverlayManager implements DebugOverlayAPI {
     })
   }
 
+  /**
+   * 현재 LogStore의 레벨별 로그 수를 읽은 것으로 기록하고 런처 배지를 비웁니다.
+   * 오버레이를 닫을 때 호출합니다.
+   */
+  private _markLogsRead(): void {
+    if (!this._logStore) {
+      return
+    }
+
+    const statistics = this._logStore.getStatistics()
+    this._readCounts = createEmptyLevelCounts()
+    ;(Object.keys(this._readCounts) as LogLevel[]).forEach((level) => {
+      this._readCounts[level] = statistics[level]
+    })
+    this._overlayRenderer?.setUnreadCounts(createEmptyLevelCounts())
+  }
+
+  /**
+   * LogStore 통계에서 읽은 로그 수를 빼서 런처의 읽지 않은 로그 수를 갱신합니다.
+   * 최대 개수를 넘어 밀려난 로그와 지워진 로그는 읽은 로그 수에서도 뺍니다.
+   */
+  private _updateUnreadCounts(change: LogStoreChange): void {
+    if (!this._logStore || !this._overlayRenderer) {
+      return
+    }
+
+    if (change.type === 'add') {
+      change.removed.forEach((entry) => {
+        this._readCounts[entry.level] = Math.max(
+          0,
+          this._readCounts[entry.level] - (entry.repeatCount ?? 1)
+        )
+      })
+    }
+
+    // 오버레이가 열려 있는 동안에는 배지가 보이지 않으므로 통계를 계산하지 않습니다.
+    if (this._overlayRenderer.isVisible() && change.type !== 'reset') {
+      return
+    }
+
+    const statistics = this._logStore.getStatistics()
+    const unread = createEmptyLevelCounts()
+    ;(Object.keys(unread) as LogLevel[]).forEach((level) => {
+      if (change.type === 'reset') {
+        this._readCounts[level] = Math.min(
+          this._readCounts[level],
+          statistics[level]
+        )
+      }
+      unread[level] = Math.max(0, statistics[level] - this._readCounts[level])
+    })
+
+    this._overlayRenderer.setUnreadCounts(unread)
+  }
+
+  /**
+   * 플러그인의 onLogEntry 훅을 거쳐 로그 항목을 LogStore에 추가합니다.
+   * 훅 안에서 console을 호출해 생긴 항목은 다시 훅을 거치지 않습니다. (무한 재귀 방지)
+   */
+  private _addLogEntry(entry: LogEntry): void {
+    if (!this._logStore) {
+      return
+    }
+
+    const result = this._isRunningLogHooks
+      ? entry
+      : this._runLogEntryHooks(entry)
+    if (result) {
+      this._logStore.addLog(result)
+    }
+  }
+
+  /**
+   * 등록된 순서대로 플러그인의 onLogEntry 훅을 실행합니다.
+   *
+   * @returns 변환된 로그 항목 (플러그인이 버렸으면 null)
+   */
+  private _runLogEntryHooks(entry: LogEntry): LogEntry | null {
+    this._isRunningLogHooks = true
+
+    try {
+      let current = entry
+      for (const plugin of this._plugins) {
+        if (!plugin.onLogEntry) continue
+
+        try {
+          const result = plugin.onLogEntry(current)
+          if (result === null) {
+            return null
+          }
+          if (result) {
+            current = result
+          }
+        } catch (error) {
+          console.error(
+            `플러그인 '${plugin.name}' onLogEntry 실행 중 오류:`,
+            error
+          )
+        }
+      }
+      return current
+    } finally {
+      this._isRunningLogHooks = false
+    }
+  }
+
+  /**
+   * 플러그인의 onInit 훅을 호출합니다.
+   */
+  private _initPlugin(plugin: DebugOverlayPlugin): void {
+    const renderer = this._overlayRenderer
+    if (!plugin.onInit || !renderer) {
+      return
+    }
+
+    const context: DebugOverlayPluginContext = {
+      overlay: this,
+      addPanel: (panel) => renderer.addPanel(panel),
+      addHeaderButton: (button) => renderer.addHeaderButton(button),
+      setPanelBadge: (panelId, count) => renderer.setPanelBadge(panelId, count),
+    }
+
+    try {
+      plugin.onInit(context)
+    } catch (error) {
+      console.error(`플러그인 '${plugin.name}' 초기화 중 오류:`, error)
+    }
+  }
+
+  /**
+   * 로그 항목의 스택 트레이스를 소스 맵으로 변환하고, 원래 스택은 originalStack에 보관합니다.
+   * 소스 맵 설정이 없거나 이전 세션/가져온 항목이면 아무것도 하지 않습니다.
+   */
+  private _resolveStack(entry: LogEntry): void {
+    const resolver = this._sourceMapResolver
+    const stack = entry.stack
+    if (!resolver || !stack || entry.session || entry.originalStack) {
+      return
+    }
+
+    resolver.resolveStack(stack).then((mappedStack) => {
+      // 변환하는 동안 destroy()되었거나 다시 초기화되었으면 무시합니다.
+      if (
+        mappedStack !== stack &&
+        this._sourceMapResolver === resolver &&
+        this._logStore
+      ) {
+        this._logStore.updateLog(entry.id, {
+          stack: mappedStack,
+          originalStack: stack,
+        })
+      }
+    })
+  }
+
+  /**
+   * 저장된 이전 세션의 로그를 불러와 현재 로그 앞에 추가합니다.
+   */
+  private _restorePreviousSessions(): void {
+    const persistence = this._logPersistence
+    if (!persistence) {
+      return
+    }
+
+    persistence.restore().then((entries) => {
+      // 복원하는 동안 destroy()되었거나 다시 초기화되었으면 무시합니다.
+      if (this._logPersistence === persistence && this._logStore) {
+        this._logStore.prependLogs(entries)
+      }
+    })
+  }
+
   /**
    * 모든 리소스를 정리합니다.
    */
   private _cleanup(): void {
+    if (this._isInitialized) {
+      this._plugins.forEach((plugin) => {
+        try {
+          plugin.onDestroy?.()
+        } catch (error) {
+          console.error(`플러그인 '${plugin.name}' 정리 중 오류:`, error)
+        }
+      })
+    }
+
+    if (this._logPersistence) {
+      this._logPersistence.destroy()
+      this._logPersistence = null
+    }
+
+    if (this._remoteTransport) {
+      this._remoteTransport.destroy()
+      this._remoteTransport = null
+    }
+
+    if (this._logReplayer) {
+      this._logReplayer.destroy()
+      this._logReplayer = null
+    }
+
+    if (this._sourceMapResolver) {
+      this._sourceMapResolver.destroy()
+      this._sourceMapResolver = null
+    }
+
     if (this._consoleInterceptor) {
       this._consoleInterceptor.destroy()
       this._consoleInterceptor = null
@@ -323,6 +951,21 @@ export class DebugOverlayManager implements DebugOverlayAPI {
       this._errorCapturer = null
     }
 
+    if (this._replEvaluator) {
+      this._replEvaluator.destroy()
+      this._replEvaluator = null
+    }
+
+    if (this._networkInterceptor) {
+      this._networkInterceptor.destroy()
+      this._networkInterceptor = null
+    }
+
+    if (this._networkStore) {
+      this._networkStore.destroy()
+      this._networkStore = null
+    }
+
     if (this._logStore) {
       this._logStore.destroy()
       this._logStore = null
@@ -333,11 +976,30 @@ export class DebugOverlayManager implements DebugOverlayAPI {
       this._overlayRenderer = null
     }
 
-    removeStyles()
-
     this._isInitialized = false
   }
 
+  /**
+   * 채널 로거의 로그를 브라우저 콘솔에 출력하고 로그 항목으로 추가합니다.
+   */
+  private _writeChannelLog(
+    channel: string,
+    level: LogLevel,
+    args: unknown[]
+  ): void {
+    if (!this._isInitialized || !this._consoleInterceptor) {
+      // 초기화 전이나 정리된 후에는 브라우저 콘솔에만 출력합니다.
+      console[level](...prefixChannel(channel, args))
+      return
+    }
+
+    this._consoleInterceptor.callOriginal(
+      level,
+      ...prefixChannel(channel, args)
+    )
+    this._consoleInterceptor.channelLog(channel, level, args)
+  }
+
   /**
    * 초기화 상태를 확인합니다.
    */
@@ -355,3 +1017,28 @@ export class DebugOverlayManager implements DebugOverlayAPI {
  * 싱글톤 패턴으로 하나의 인스턴스만 사용합니다.
  */
 export const debugOverlay = new DebugOverlayManager()
+
+/**
+ * 모든 레벨의 로그 수가 0인 객체를 생성합니다.
+ */
+function createEmptyLevelCounts(): Record<LogLevel, number> {
+  return {
+    [LogLevel.LOG]: 0,
+    [LogLevel.INFO]: 0,
+    [LogLevel.WARN]: 0,
+    [LogLevel.ERROR]: 0,
+    [LogLevel.DEBUG]: 0,
+  }
+}
+
+/**
+ * 브라우저 콘솔 출력용으로 인자 앞에 채널 이름을 붙입니다.
+ * 첫 번째 인자가 문자열이면 포맷 문자열이 유지되도록 그 앞에 붙입니다.
+ */
+function prefixChannel(channel: string, args: unknown[]): unknown[] {
+  const [first, ...rest] = args
+  if (typeof first === 'string') {
+    return [`[${channel}] ${first}`, ...rest]
+  }
+  return [`[${channel}]`, ...args]
+}
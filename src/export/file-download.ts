@@ -0,0 +1,96 @@
+/**
+ * 내보낸 파일 전달 유틸리티
+ *
+ * 문자열을 파일로 다운로드하거나 클립보드에 복사합니다.
+ * 다운로드 링크가 동작하지 않는 모바일 WebView를 위해 클립보드 복사를 함께 제공합니다.
+ */
+
+/**
+ * 문자열을 파일로 다운로드합니다.
+ *
+ * @param filename 저장할 파일 이름
+ * @param content 파일 내용
+ * @param mimeType 파일의 MIME 타입
+ */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${mimeType};charset=utf-8` })
+  )
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // 다운로드가 시작되기 전에 URL이 해제되지 않도록 조금 늦춥니다.
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * 문자열을 클립보드에 복사합니다.
+ * Clipboard API를 사용할 수 없으면(비보안 컨텍스트 등) execCommand('copy')로 시도합니다.
+ *
+ * @param text 복사할 문자열
+ * @returns 복사에 성공하면 true
+ */
+export async function copyTextToClipboard(text: string): Promise<boolean> {
+  if (typeof navigator !== 'undefined' && navigator.clipboard?.writeText) {
+    try {
+      await navigator.clipboard.writeText(text)
+      return true
+    } catch (error) {
+      // 권한이 없으면 아래 방식으로 다시 시도합니다.
+    }
+  }
+
+  const textarea = document.createElement('textarea')
+  textarea.value = text
+  textarea.setAttribute('readonly', '')
+  // cssText는 CSP(style-src)에 막힐 수 있으므로 속성별로 설정합니다.
+  textarea.style.position = 'fixed'
+  textarea.style.top = '0'
+  textarea.style.left = '0'
+  textarea.style.opacity = '0'
+  document.body.appendChild(textarea)
+  textarea.select()
+
+  try {
+    return document.execCommand('copy')
+  } catch (error) {
+    return false
+  } finally {
+    textarea.remove()
+  }
+}
+
+/**
+ * 터치 위주의 모바일 환경인지 확인합니다.
+ *
+ * @returns 주 입력 장치가 터치이면 true
+ */
+export function isMobileEnvironment(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return false
+  }
+  return window.matchMedia('(pointer: coarse)').matches
+}
+
+/**
+ * 파일 이름에 사용할 현재 시간 문자열을 생성합니다.
+ *
+ * @returns `20240101-123456` 형식의 문자열
+ */
+export function createFileTimestamp(): string {
+  return new Date()
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+}
@@ -0,0 +1,348 @@
+import type {
+  DebugReport,
+  LogEntry,
+  NetworkEntry,
+  OverlayOptions,
+} from '../types/types.js'
+import { LogLevel } from '../types/types.js'
+import { formatLogTimestamp } from '../utils/console-format.js'
+import { getLogSearchText } from '../utils/log-search.js'
+import { safeStringify } from '../utils/safe-stringify.js'
+
+/**
+ * 로그/네트워크 내보내기 유틸리티
+ *
+ * 로그 항목과 네트워크 요청 항목을 JSON, NDJSON, 텍스트, HTML, HAR 형식의 문자열로 변환하고,
+ * 버그 리포트 번들을 생성합니다.
+ */
+
+/**
+ * HAR 파일의 creator 정보
+ */
+const HAR_CREATOR = {
+  name: 'interactive-debug-console-overlay',
+  version: '1.0.0',
+}
+
+/**
+ * HTML 리포트에서 레벨별로 사용하는 색상 (다크 테마 팔레트와 같음)
+ */
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  [LogLevel.LOG]: '#cccccc',
+  [LogLevel.INFO]: '#2196f3',
+  [LogLevel.WARN]: '#ff9800',
+  [LogLevel.ERROR]: '#f44336',
+  [LogLevel.DEBUG]: '#9c27b0',
+}
+
+/**
+ * 로그 항목들을 JSON 배열 문자열로 변환합니다.
+ *
+ * @param logs 로그 항목들
+ * @returns 들여쓰기된 JSON 문자열
+ */
+export function exportLogsAsJson(logs: LogEntry[]): string {
+  return safeStringify(logs, 2)
+}
+
+/**
+ * 로그 항목들을 한 줄에 하나씩인 NDJSON 문자열로 변환합니다.
+ *
+ * @param logs 로그 항목들
+ * @returns NDJSON 문자열
+ */
+export function exportLogsAsNdjson(logs: LogEntry[]): string {
+  return logs.map((log) => safeStringify(log)).join('\n')
+}
+
+/**
+ * 로그 항목들을 화면 표시와 같은 형식의 텍스트로 변환합니다.
+ * 그룹에 속한 항목은 깊이만큼 들여쓰고, 스택 트레이스는 다음 줄부터 이어 씁니다.
+ * 합쳐진 반복 로그는 메시지 뒤에 반복 횟수와 마지막 발생 시간을 붙입니다.
+ * 채널 로거로 남긴 로그는 레벨 뒤에 `[채널]`을 붙입니다.
+ *
+ * @param logs 로그 항목들
+ * @returns `HH:MM:SS.mmm [LEVEL] 메시지` 형식의 텍스트
+ */
+export function exportLogsAsText(logs: LogEntry[]): string {
+  return logs
+    .map((log) => {
+      const indent = '  '.repeat(log.groupPath?.length ?? 0)
+      const line = `${formatLogTimestamp(log.timestamp)} [${log.level.toUpperCase()}] ${log.channel ? `[${log.channel}] ` : ''}${indent}${getLogSearchText(log)}${formatRepeat(log)}`
+
+      if (!log.stack) {
+        return line
+      }
+
+      const stack = log.stack
+        .split('\n')
+        .map((stackLine) => `    ${indent}${stackLine.trim()}`)
+        .join('\n')
+      return `${line}\n${stack}`
+    })
+    .join('\n')
+}
+
+/**
+ * 로그와 네트워크 요청 항목들을 외부 리소스 없이 열 수 있는 단일 HTML 문서로 변환합니다.
+ *
+ * @param logs 로그 항목들
+ * @param network 네트워크 요청 항목들
+ * @returns HTML 문서 문자열
+ */
+export function exportLogsAsHtml(
+  logs: LogEntry[],
+  network: NetworkEntry[] = []
+): string {
+  const generatedAt = new Date()
+  const logRows = logs
+    .map((log) => {
+      const indent = (log.groupPath?.length ?? 0) * 16
+      const stack = log.stack ? `<pre>${escapeHtml(log.stack)}</pre>` : ''
+      const repeat = formatRepeat(log)
+      const channel = log.channel
+        ? `<span class="channel">${escapeHtml(log.channel)}</span>`
+        : ''
+      return `<tr class="log ${log.level}">
+<td class="time">${formatLogTimestamp(log.timestamp)}</td>
+<td class="level" style="color:${LEVEL_COLORS[log.level]}">${log.level.toUpperCase()}</td>
+<td class="message" style="padding-left:${indent + 8}px"><pre>${channel}${escapeHtml(getLogSearchText(log))}${repeat && `<span class="repeat">${escapeHtml(repeat)}</span>`}</pre>${stack}</td>
+</tr>`
+    })
+    .join('\n')
+
+  const networkRows = network
+    .map(
+      (entry) => `<tr>
+<td class="time">${formatLogTimestamp(entry.startTime)}</td>
+<td>${escapeHtml(entry.method)}</td>
+<td>${entry.error ? escapeHtml(entry.error) : entry.status || '-'}</td>
+<td>${entry.duration !== undefined ? `${Math.round(entry.duration)} ms` : '-'}</td>
+<td class="message"><pre>${escapeHtml(entry.url)}</pre></td>
+</tr>`
+    )
+    .join('\n')
+
+  const networkSection =
+    network.length > 0
+      ? `<h2>Network (${network.length})</h2>
+<table>
+<thead><tr><th>Time</th><th>Method</th><th>Status</th><th>Duration</th><th>URL</th></tr></thead>
+<tbody>
+${networkRows}
+</tbody>
+</table>`
+      : ''
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Debug Logs · ${escapeHtml(generatedAt.toISOString())}</title>
+<style>
+body { margin: 0; padding: 16px; background: #1e1e1e; color: #ffffff; font: 12px/1.4 'Monaco', 'Menlo', 'Ubuntu Mono', monospace; }
+h1 { font-size: 16px; margin: 0 0 4px; }
+h2 { font-size: 14px; margin: 24px 0 8px; }
+.meta { color: #999999; margin-bottom: 16px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { padding: 4px 8px; border-bottom: 1px solid #404040; text-align: left; vertical-align: top; }
+th { color: #999999; font-weight: normal; }
+td.time { color: #999999; white-space: nowrap; }
+td.level { font-weight: bold; white-space: nowrap; }
+td.message { width: 100%; }
+pre { margin: 0; white-space: pre-wrap; word-break: break-word; font: inherit; }
+td.message pre + pre { margin-top: 4px; color: #999999; }
+span.repeat { margin-left: 8px; color: #999999; }
+span.channel { margin-right: 8px; color: #4fc3f7; font-weight: bold; }
+tr.warn { background: rgba(255, 152, 0, 0.08); }
+tr.error { background: rgba(244, 67, 54, 0.1); }
+</style>
+</head>
+<body>
+<h1>Debug Logs</h1>
+<div class="meta">${escapeHtml(generatedAt.toISOString())} · ${escapeHtml(getLocationHref())}<br>${escapeHtml(getUserAgent())}</div>
+<h2>Console (${logs.length})</h2>
+<table>
+<tbody>
+${logRows}
+</tbody>
+</table>
+${networkSection}
+</body>
+</html>
+`
+}
+
+/**
+ * 네트워크 요청 항목들을 HAR 1.2 형식의 JSON 문자열로 변환합니다.
+ * 아직 완료되지 않은 요청은 상태 코드 0으로 기록됩니다.
+ *
+ * @param entries 네트워크 요청 항목들
+ * @returns HAR JSON 문자열
+ */
+export function exportNetworkAsHar(entries: NetworkEntry[]): string {
+  const har = {
+    log: {
+      version: '1.2',
+      creator: HAR_CREATOR,
+      pages: [],
+      entries: entries.map((entry) => toHarEntry(entry)),
+    },
+  }
+
+  return JSON.stringify(har, null, 2)
+}
+
+/**
+ * 로그, 네트워크 요청, 실행 환경, 설정 값, 통계를 하나의 버그 리포트로 묶습니다.
+ *
+ * @param data 리포트에 담을 데이터
+ * @returns 버그 리포트 번들
+ */
+export function createDebugReport(data: {
+  logs: LogEntry[]
+  network: NetworkEntry[]
+  options: OverlayOptions
+  statistics: DebugReport['statistics']
+}): DebugReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    environment: {
+      url: getLocationHref(),
+      userAgent: getUserAgent(),
+      language: typeof navigator !== 'undefined' ? navigator.language : '',
+      viewport: {
+        width: typeof window !== 'undefined' ? window.innerWidth : 0,
+        height: typeof window !== 'undefined' ? window.innerHeight : 0,
+        devicePixelRatio:
+          typeof window !== 'undefined' ? window.devicePixelRatio : 1,
+      },
+    },
+    options: data.options,
+    statistics: data.statistics,
+    logs: data.logs,
+    network: data.network,
+  }
+}
+
+/**
+ * 네트워크 요청 항목 하나를 HAR entry로 변환합니다.
+ */
+function toHarEntry(entry: NetworkEntry) {
+  const duration = entry.duration ?? 0
+  const requestMimeType = findHeader(entry.requestHeaders, 'content-type')
+  const responseMimeType = findHeader(entry.responseHeaders, 'content-type')
+
+  return {
+    startedDateTime: entry.startTime.toISOString(),
+    time: duration,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString: toHarQueryString(entry.url),
+      headersSize: -1,
+      bodySize: entry.requestBody !== undefined ? entry.requestBody.length : 0,
+      ...(entry.requestBody !== undefined && {
+        postData: { mimeType: requestMimeType, text: entry.requestBody },
+      }),
+    },
+    response: {
+      status: entry.status,
+      statusText: entry.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders),
+      content: {
+        size: entry.responseBody?.length ?? 0,
+        mimeType: responseMimeType,
+        ...(entry.responseBody !== undefined && { text: entry.responseBody }),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: entry.responseBody?.length ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: duration, receive: 0 },
+    _resourceType: entry.type,
+    ...(entry.error && { _error: entry.error }),
+  }
+}
+
+/**
+ * 헤더 객체를 HAR의 name/value 목록으로 변환합니다.
+ */
+function toHarHeaders(
+  headers: Record<string, string>
+): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }))
+}
+
+/**
+ * URL의 쿼리 문자열을 HAR의 name/value 목록으로 변환합니다.
+ */
+function toHarQueryString(url: string): { name: string; value: string }[] {
+  try {
+    const params = new URL(url, getLocationHref() || undefined).searchParams
+    return Array.from(params.entries()).map(([name, value]) => ({
+      name,
+      value,
+    }))
+  } catch (error) {
+    return []
+  }
+}
+
+/**
+ * 대소문자 구분 없이 헤더 값을 찾습니다.
+ */
+function findHeader(headers: Record<string, string>, name: string): string {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name
+  )
+  return key !== undefined ? (headers[key] ?? '') : ''
+}
+
+/**
+ * 합쳐진 반복 로그의 반복 횟수와 마지막 발생 시간을 ` (×N, last HH:MM:SS.mmm)` 형식으로 만듭니다.
+ *
+ * @returns 합쳐지지 않은 항목이면 빈 문자열
+ */
+function formatRepeat(log: LogEntry): string {
+  if (!log.repeatCount || log.repeatCount < 2) {
+    return ''
+  }
+
+  return log.lastTimestamp
+    ? ` (×${log.repeatCount}, last ${formatLogTimestamp(log.lastTimestamp)})`
+    : ` (×${log.repeatCount})`
+}
+
+/**
+ * HTML 특수 문자를 이스케이프합니다.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * 현재 페이지 주소를 반환합니다.
+ */
+function getLocationHref(): string {
+  return typeof location !== 'undefined' ? location.href : ''
+}
+
+/**
+ * 현재 User-Agent를 반환합니다.
+ */
+function getUserAgent(): string {
+  return typeof navigator !== 'undefined' ? navigator.userAgent : ''
+}
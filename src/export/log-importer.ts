@@ -0,0 +1,196 @@
+import { LogLevel } from '../types/types.js'
+import type {
+  ConsoleEntryType,
+  LogEntry,
+  LogSession,
+  LogSource,
+} from '../types/types.js'
+
+/**
+ * 내보낸 로그 가져오기 유틸리티
+ *
+ * exportLogs()의 'json' / 'ndjson' 형식과 버그 리포트(saveReport)를 다시 LogEntry로 복원합니다.
+ * 텍스트, HTML, HAR 형식은 원래 항목을 복원할 수 없으므로 지원하지 않습니다.
+ */
+
+/**
+ * 로그 레벨 값 목록
+ */
+const LOG_LEVELS = new Set<string>(Object.values(LogLevel))
+
+/**
+ * 로그 출처 값 목록
+ */
+const LOG_SOURCES = new Set<string>(['repl-input', 'repl-result'])
+
+/**
+ * console API 종류 값 목록
+ */
+const CONSOLE_ENTRY_TYPES = new Set<string>([
+  'table',
+  'group',
+  'timer',
+  'count',
+  'assert',
+  'trace',
+  'dir',
+])
+
+/**
+ * 내보낸 로그 데이터를 가져온 세션의 LogEntry 목록으로 복원합니다.
+ * 모든 항목에는 같은 'imported' 세션 정보가 붙고, ID는 현재 로그와 겹치지 않도록 세션 ID가 접두어로 붙습니다.
+ *
+ * @param data 내보낸 문자열(JSON/NDJSON) 또는 이미 파싱한 배열/버그 리포트 객체
+ * @param name 세션 이름 (선택사항)
+ * @returns 복원된 로그 항목들 (원래 순서)
+ * @throws 지원하지 않는 형식이거나 복원할 수 있는 항목이 없는 경우
+ */
+export function parseLogExport(data: unknown, name?: string): LogEntry[] {
+  const records = extractRecords(
+    typeof data === 'string' ? parseText(data) : data
+  )
+
+  const sessionId = generateSessionId()
+  const entries = records
+    .map((record) => toLogEntry(record, sessionId))
+    .filter((entry): entry is LogEntry => entry !== null)
+
+  if (records.length > 0 && entries.length === 0) {
+    throw new Error('가져올 수 있는 로그 항목이 없습니다.')
+  }
+
+  const startedAt = entries.reduce<Date | null>(
+    (earliest, entry) =>
+      earliest === null || entry.timestamp < earliest
+        ? entry.timestamp
+        : earliest,
+    null
+  )
+  const session: LogSession = {
+    id: sessionId,
+    startedAt: startedAt ?? new Date(),
+    origin: 'imported',
+    ...(name && { name }),
+  }
+
+  return entries.map((entry) => ({ ...entry, session }))
+}
+
+/**
+ * JSON 문자열을 파싱하고, 실패하면 NDJSON(한 줄에 JSON 하나)으로 파싱합니다.
+ */
+function parseText(text: string): unknown {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    return []
+  }
+
+  try {
+    return JSON.parse(trimmed)
+  } catch (error) {
+    // 여러 줄의 JSON이면 NDJSON으로 다시 시도합니다.
+  }
+
+  try {
+    return trimmed
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as unknown)
+  } catch (error) {
+    throw new Error(
+      '가져올 수 없는 형식입니다. JSON, NDJSON 내보내기 또는 버그 리포트만 지원합니다.'
+    )
+  }
+}
+
+/**
+ * 파싱한 데이터에서 로그 항목 레코드 배열을 꺼냅니다.
+ */
+function extractRecords(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const logs = (value as { logs?: unknown }).logs
+    if (Array.isArray(logs)) {
+      return logs
+    }
+  }
+
+  throw new Error(
+    '가져올 수 없는 형식입니다. JSON, NDJSON 내보내기 또는 버그 리포트만 지원합니다.'
+  )
+}
+
+/**
+ * 레코드 하나를 LogEntry로 복원합니다.
+ *
+ * @returns 필수 값(레벨, 시간)이 올바르지 않으면 null
+ */
+function toLogEntry(record: unknown, sessionId: string): LogEntry | null {
+  if (typeof record !== 'object' || record === null) {
+    return null
+  }
+
+  const raw = record as Record<string, unknown>
+  const timestamp = new Date(raw.timestamp as string | number)
+
+  if (
+    typeof raw.level !== 'string' ||
+    !LOG_LEVELS.has(raw.level) ||
+    (typeof raw.timestamp !== 'string' && typeof raw.timestamp !== 'number') ||
+    Number.isNaN(timestamp.getTime())
+  ) {
+    return null
+  }
+
+  const id = typeof raw.id === 'string' ? raw.id : generateEntryId()
+  const lastTimestamp =
+    typeof raw.lastTimestamp === 'string' ||
+    typeof raw.lastTimestamp === 'number'
+      ? new Date(raw.lastTimestamp)
+      : null
+
+  return {
+    id: `${sessionId}:${id}`,
+    level: raw.level as LogLevel,
+    args: Array.isArray(raw.args) ? raw.args : [raw.args],
+    timestamp,
+    ...(typeof raw.stack === 'string' && { stack: raw.stack }),
+    ...(typeof raw.source === 'string' &&
+      LOG_SOURCES.has(raw.source) && { source: raw.source as LogSource }),
+    ...(typeof raw.type === 'string' &&
+      CONSOLE_ENTRY_TYPES.has(raw.type) && {
+        type: raw.type as ConsoleEntryType,
+      }),
+    ...(Array.isArray(raw.groupPath) && {
+      groupPath: raw.groupPath.map((groupId) => `${sessionId}:${groupId}`),
+    }),
+    ...(typeof raw.collapsed === 'boolean' && { collapsed: raw.collapsed }),
+    ...(typeof raw.repeatCount === 'number' &&
+      raw.repeatCount > 1 && { repeatCount: raw.repeatCount }),
+    ...(lastTimestamp &&
+      !Number.isNaN(lastTimestamp.getTime()) && { lastTimestamp }),
+    ...(typeof raw.channel === 'string' &&
+      raw.channel !== '' && { channel: raw.channel }),
+  }
+}
+
+/**
+ * 가져온 세션의 ID를 생성합니다.
+ */
+function generateSessionId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2)
+  return `import_${timestamp}_${random}`
+}
+
+/**
+ * ID가 없는 레코드에 붙일 항목 ID를 생성합니다.
+ */
+function generateEntryId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2)
+  return `log_${timestamp}_${random}`
+}
@@ -11,16 +11,55 @@
 
 export type {
   LogEntry,
+  LogSource,
+  LogSession,
+  ConsoleEntryType,
+  LogStoreChange,
+  ChannelLogger,
+  ChannelRule,
+  LogStoreChangeListener,
   ConsoleInterceptorCallback,
+  NetworkEntry,
+  NetworkRequestType,
+  NetworkRequestState,
+  NetworkInterceptorCallback,
   OverlayOptions,
+  OverlayRendererOptions,
+  OverlayTheme,
+  ThemeName,
+  ThemePalette,
+  CustomTheme,
+  PersistenceOptions,
+  ArgsMode,
+  SnapshotOptions,
+  SnapshotValue,
+  SnapshotEntry,
+  SnapshotNode,
+  RemoteTransportOptions,
+  RemoteLogEntry,
+  RemoteLogMessage,
+  ExportFormat,
+  DebugReport,
+  ReportDelivery,
+  LogReplayOptions,
+  SourceMapOptions,
+  StackFrame,
   JsonValue,
   JsonObject,
   JsonArray,
   OverlayElements,
   DragState,
   ResizeState,
+  PinchState,
   OverlayState,
+  OverlayPanel,
+  OverlayHeaderButton,
+  DebugOverlayPlugin,
+  DebugOverlayPluginContext,
+  SearchState,
+  OverlayTab,
   OriginalConsoleMethods,
+  OriginalNetworkMethods,
   DebugOverlayAPI,
 } from './types/types.js'
 
@@ -28,12 +67,96 @@ export { LogLevel } from './types/types.js'
 
 export { DebugOverlayManager } from './core/debug-overlay-manager.js'
 export { ConsoleInterceptor } from './interceptors/console-interceptor.js'
+export { NetworkInterceptor } from './interceptors/network-interceptor.js'
 export { LogStore } from './storage/log-store.js'
+export { NetworkStore } from './storage/network-store.js'
+export { LogPersistence } from './storage/log-persistence.js'
+export { RemoteLogTransport } from './transport/remote-log-transport.js'
 export { OverlayRenderer } from './ui/overlay-renderer.js'
+export { VirtualLogList } from './ui/virtual-log-list.js'
+export { FloatingLauncher } from './ui/floating-launcher.js'
+export type { VirtualLogListOptions } from './ui/virtual-log-list.js'
 export { ErrorCapturer } from './interceptors/error-capturer.js'
 export { JsonViewer } from './components/json-viewer.js'
+export { ConsoleTable } from './components/console-table.js'
+export { SearchHighlighter } from './components/search-highlighter.js'
+export { ReplEvaluator } from './repl/repl-evaluator.js'
+export { CommandHistory } from './repl/command-history.js'
 
-export { generateStyles, injectStyles, removeStyles } from './ui/styles.js'
+export {
+  generateStyles,
+  injectStyles,
+  applyShadowStyles,
+  applyThemeVariables,
+  resolveThemePalette,
+  removeStyles,
+  THEMES,
+} from './ui/styles.js'
+export type { StyleScope } from './ui/styles.js'
+export {
+  formatConsoleArgs,
+  formatConsoleArgsToText,
+  formatLogTimestamp,
+  hasFormatSpecifiers,
+  sanitizeConsoleStyle,
+} from './utils/console-format.js'
+export type {
+  FormattedSegment,
+  FormattedConsoleArgs,
+} from './utils/console-format.js'
+export { safeStringify, toJsonValue } from './utils/safe-stringify.js'
+export {
+  exportLogsAsJson,
+  exportLogsAsNdjson,
+  exportLogsAsText,
+  exportLogsAsHtml,
+  exportNetworkAsHar,
+  createDebugReport,
+} from './export/log-exporter.js'
+export { parseLogExport } from './export/log-importer.js'
+export { LogReplayer } from './replay/log-replayer.js'
+export { SystemPanel } from './panels/system-panel.js'
+export { StoragePanel } from './panels/storage-panel.js'
+export {
+  WebStorageArea,
+  CookieStorageArea,
+  IndexedDbStoreArea,
+  listIndexedDbStores,
+} from './panels/storage-areas.js'
+export type {
+  StorageArea,
+  StorageRecord,
+  CookieAttributes,
+  IndexedDbStoreInfo,
+} from './panels/storage-areas.js'
+export { SourceMapResolver } from './sourcemap/source-map-resolver.js'
+export {
+  downloadTextFile,
+  copyTextToClipboard,
+} from './export/file-download.js'
+export {
+  createSnapshot,
+  isSnapshotNode,
+  reviveSnapshot,
+} from './utils/serializer.js'
+export {
+  createSearchPattern,
+  getLogSearchText,
+  matchesSearch,
+} from './utils/log-search.js'
+export type { LogSearchPattern } from './utils/log-search.js'
+export {
+  parseChannelPatterns,
+  createChannelRules,
+  mergeChannelRules,
+  isChannelEnabled,
+  getChannelColor,
+} from './utils/log-channel.js'
+export {
+  parseStackTrace,
+  formatStackFrame,
+  formatStackLocation,
+} from './utils/stack-parser.js'
 
 export { debugOverlay } from './core/debug-overlay-manager.js'
 
@@ -42,8 +165,12 @@ import {
   debugOverlay,
 } from './core/debug-overlay-manager.js'
 import { ConsoleInterceptor } from './interceptors/console-interceptor.js'
+import { NetworkInterceptor } from './interceptors/network-interceptor.js'
 import { LogStore } from './storage/log-store.js'
+import { NetworkStore } from './storage/network-store.js'
 import { OverlayRenderer } from './ui/overlay-renderer.js'
+import { injectStyles } from './ui/styles.js'
+import { RemoteLogTransport } from './transport/remote-log-transport.js'
 import { ErrorCapturer } from './interceptors/error-capturer.js'
 import { JsonViewer } from './components/json-viewer.js'
 import { LogLevel } from './types/types.js'
@@ -70,6 +197,11 @@ import type { OverlayOptions } from './types/types.js'
  * // 수동 로그 추가
  * debugOverlay.addLog('info', 'Hello, Debug!');
  *
+ * // 채널 로거
+ * const log = debugOverlay.createLogger('payments:card');
+ * log.info('결제 요청');
+ * debugOverlay.disableChannels('payments:*');
+ *
  * // 정리
  * debugOverlay.destroy();
  * ```
@@ -86,11 +218,15 @@ if (typeof window !== 'undefined') {
     debugOverlay,
     DebugOverlayManager,
     ConsoleInterceptor,
+    NetworkInterceptor,
     LogStore,
+    NetworkStore,
     OverlayRenderer,
+    RemoteLogTransport,
     ErrorCapturer,
     JsonViewer,
     LogLevel,
+    injectStyles,
   }
 }
 
@@ -216,33 +352,20 @@ export function enableKeyboardShortcut(
 
 /**
  * 에러 발생 시 자동으로 오버레이를 표시하도록 설정합니다.
+ * window.onerror를 덮어쓰지 않으므로 앱의 기존 에러 핸들러에 영향을 주지 않습니다.
+ *
+ * @returns 정리 함수
  */
-export function enableAutoShowOnError(): void {
-  const originalErrorHandler = window.onerror
-  const originalUnhandledRejectionHandler = window.onunhandledrejection
-
-  window.onerror = (message, source, lineno, colno, error) => {
+export function enableAutoShowOnError(): () => void {
+  const handleError = () => {
     debugOverlay.open()
-
-    if (originalErrorHandler) {
-      return originalErrorHandler.call(
-        window,
-        message,
-        source,
-        lineno,
-        colno,
-        error
-      )
-    }
-
-    return false
   }
 
-  window.onunhandledrejection = (event) => {
-    debugOverlay.open()
+  window.addEventListener('error', handleError)
+  window.addEventListener('unhandledrejection', handleError)
 
-    if (originalUnhandledRejectionHandler) {
-      return originalUnhandledRejectionHandler.call(window, event)
-    }
+  return () => {
+    window.removeEventListener('error', handleError)
+    window.removeEventListener('unhandledrejection', handleError)
   }
 }
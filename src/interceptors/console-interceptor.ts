@@ -1,34 +1,82 @@
 import { LogLevel } from '../types/types.js'
 import type {
   LogEntry,
+  ArgsMode,
+  ConsoleEntryType,
   ConsoleInterceptorCallback,
   OriginalConsoleMethods,
+  SnapshotOptions,
 } from '../types/types.js'
+import { createSnapshot } from '../utils/serializer.js'
+
+/**
+ * LogEntry 생성 시 레벨과 인자 외에 덧붙일 정보
+ */
+interface ConsoleCallDetails {
+  type?: ConsoleEntryType
+  collapsed?: boolean
+  /** 레벨과 관계없이 스택 트레이스를 캡처할지 여부 */
+  captureStack?: boolean
+  /** createLogger()로 만든 로거의 채널 이름 */
+  channel?: string
+}
 
 /**
  * 콘솔 인터셉터 클래스
  *
  * - 원본 console 메서드들을 백업
  * - console 메서드들을 오버라이드하여 로그 캐치
- * - 캐치된 로그를 LogEntry 형태로 변환
+ * - table, group, time, count, assert, trace, dir 등 console API 전체 지원
+ * - 캐치된 로그를 LogEntry 형태로 변환 ('snapshot' 모드에서는 인자를 로그 시점의 스냅샷으로 직렬화)
  * - 등록된 콜백들에게 로그 전달
  */
 export class ConsoleInterceptor {
   private _originalMethods: OriginalConsoleMethods
   private _callbacks: Set<ConsoleInterceptorCallback>
   private _isIntercepting: boolean
+  private _timers: Map<string, number>
+  private _counters: Map<string, number>
+  private _groupStack: string[]
+  private _argsMode: ArgsMode
+  private _snapshotOptions: SnapshotOptions
 
-  constructor() {
+  /**
+   * ConsoleInterceptor 인스턴스를 생성합니다.
+   *
+   * @param argsMode 로그 인자 보관 방식 (기본값: 'snapshot')
+   * @param snapshotOptions 'snapshot' 모드의 직렬화 한도
+   */
+  constructor(
+    argsMode: ArgsMode = 'snapshot',
+    snapshotOptions: SnapshotOptions = {}
+  ) {
     this._originalMethods = {
       log: console.log.bind(console),
       info: console.info.bind(console),
       warn: console.warn.bind(console),
       error: console.error.bind(console),
       debug: console.debug.bind(console),
+      table: this._bindOriginal('table'),
+      group: this._bindOriginal('group'),
+      groupCollapsed: this._bindOriginal('groupCollapsed'),
+      groupEnd: this._bindOriginal('groupEnd'),
+      time: this._bindOriginal('time'),
+      timeLog: this._bindOriginal('timeLog'),
+      timeEnd: this._bindOriginal('timeEnd'),
+      count: this._bindOriginal('count'),
+      countReset: this._bindOriginal('countReset'),
+      assert: this._bindOriginal('assert'),
+      trace: this._bindOriginal('trace'),
+      dir: this._bindOriginal('dir'),
     }
 
     this._callbacks = new Set()
     this._isIntercepting = false
+    this._timers = new Map()
+    this._counters = new Map()
+    this._groupStack = []
+    this._argsMode = argsMode
+    this._snapshotOptions = snapshotOptions
   }
 
   /**
@@ -66,6 +114,100 @@ export class ConsoleInterceptor {
       this._handleConsoleCall(LogLevel.DEBUG, args)
       this._originalMethods.debug(...args)
     }
+
+    console.table = (data?: unknown, columns?: string[]) => {
+      if (typeof data === 'object' && data !== null) {
+        this._handleConsoleCall(
+          LogLevel.LOG,
+          columns ? [data, columns] : [data],
+          { type: 'table' }
+        )
+      } else {
+        this._handleConsoleCall(LogLevel.LOG, [data])
+      }
+      this._originalMethods.table(data, columns)
+    }
+
+    console.group = (...args: unknown[]) => {
+      this._startGroup(args, false)
+      this._originalMethods.group(...args)
+    }
+
+    console.groupCollapsed = (...args: unknown[]) => {
+      this._startGroup(args, true)
+      this._originalMethods.groupCollapsed(...args)
+    }
+
+    console.groupEnd = () => {
+      this._groupStack.pop()
+      this._originalMethods.groupEnd()
+    }
+
+    console.time = (label: string = 'default') => {
+      if (this._timers.has(label)) {
+        this._handleConsoleCall(LogLevel.WARN, [
+          `Timer '${label}' already exists`,
+        ])
+      } else {
+        this._timers.set(label, performance.now())
+      }
+      this._originalMethods.time(label)
+    }
+
+    console.timeLog = (label: string = 'default', ...data: unknown[]) => {
+      this._reportTimer(label, data, false)
+      this._originalMethods.timeLog(label, ...data)
+    }
+
+    console.timeEnd = (label: string = 'default') => {
+      this._reportTimer(label, [], true)
+      this._originalMethods.timeEnd(label)
+    }
+
+    console.count = (label: string = 'default') => {
+      const count = (this._counters.get(label) ?? 0) + 1
+      this._counters.set(label, count)
+      this._handleConsoleCall(LogLevel.LOG, [`${label}: ${count}`], {
+        type: 'count',
+      })
+      this._originalMethods.count(label)
+    }
+
+    console.countReset = (label: string = 'default') => {
+      if (this._counters.has(label)) {
+        this._counters.set(label, 0)
+      } else {
+        this._handleConsoleCall(LogLevel.WARN, [
+          `Count for '${label}' does not exist`,
+        ])
+      }
+      this._originalMethods.countReset(label)
+    }
+
+    console.assert = (condition?: boolean, ...data: unknown[]) => {
+      if (!condition) {
+        this._handleConsoleCall(
+          LogLevel.ERROR,
+          this._createAssertionArgs(data),
+          { type: 'assert' }
+        )
+      }
+      this._originalMethods.assert(condition, ...data)
+    }
+
+    console.trace = (...data: unknown[]) => {
+      this._handleConsoleCall(
+        LogLevel.LOG,
+        data.length > 0 ? data : ['console.trace'],
+        { type: 'trace', captureStack: true }
+      )
+      this._originalMethods.trace(...data)
+    }
+
+    console.dir = (item?: unknown, options?: unknown) => {
+      this._handleConsoleCall(LogLevel.LOG, [item], { type: 'dir' })
+      this._originalMethods.dir(item, options)
+    }
   }
 
   /**
@@ -84,6 +226,22 @@ export class ConsoleInterceptor {
     console.warn = this._originalMethods.warn
     console.error = this._originalMethods.error
     console.debug = this._originalMethods.debug
+    console.table = this._originalMethods.table
+    console.group = this._originalMethods.group
+    console.groupCollapsed = this._originalMethods.groupCollapsed
+    console.groupEnd = this._originalMethods.groupEnd
+    console.time = this._originalMethods.time
+    console.timeLog = this._originalMethods.timeLog
+    console.timeEnd = this._originalMethods.timeEnd
+    console.count = this._originalMethods.count
+    console.countReset = this._originalMethods.countReset
+    console.assert = this._originalMethods.assert
+    console.trace = this._originalMethods.trace
+    console.dir = this._originalMethods.dir
+
+    this._timers.clear()
+    this._counters.clear()
+    this._groupStack = []
   }
 
   /**
@@ -131,6 +289,18 @@ export class ConsoleInterceptor {
     this._handleConsoleCall(level, args)
   }
 
+  /**
+   * 채널 이름이 붙은 로그 항목을 생성하고 콜백들에게 전달합니다.
+   * createLogger()로 만든 로거가 사용합니다.
+   *
+   * @param channel 채널 이름
+   * @param level 로그 레벨
+   * @param args 로그 인자들
+   */
+  public channelLog(channel: string, level: LogLevel, args: unknown[]): void {
+    this._handleConsoleCall(level, args, { channel })
+  }
+
   /**
    * 원본 console 메서드를 직접 호출합니다.
    * 인터셉션을 우회하여 로그를 출력할 때 사용됩니다.
@@ -169,17 +339,35 @@ export class ConsoleInterceptor {
    *
    * @param level 로그 레벨
    * @param args 로그 인자들
+   * @param details 항목에 덧붙일 console API 정보
+   * @returns 생성된 로그 항목의 ID
    */
-  private _handleConsoleCall(level: LogLevel, args: unknown[]): void {
+  private _handleConsoleCall(
+    level: LogLevel,
+    args: unknown[],
+    details: ConsoleCallDetails = {}
+  ): string {
+    const id = this._generateLogId()
+
     try {
       const stackTrace =
-        level === LogLevel.ERROR ? this._captureStackTrace() : undefined
+        level === LogLevel.ERROR || details.captureStack
+          ? this._captureStackTrace()
+          : undefined
       const entry: LogEntry = {
-        id: this._generateLogId(),
+        id,
         level,
-        args: [...args],
+        args: this._captureArgs(args),
         timestamp: new Date(),
         ...(stackTrace && { stack: stackTrace }),
+        ...(details.type && { type: details.type }),
+        ...(details.collapsed !== undefined && {
+          collapsed: details.collapsed,
+        }),
+        ...(this._groupStack.length > 0 && {
+          groupPath: [...this._groupStack],
+        }),
+        ...(details.channel && { channel: details.channel }),
       }
 
       this._callbacks.forEach((callback) => {
@@ -192,6 +380,101 @@ export class ConsoleInterceptor {
     } catch (error) {
       this._originalMethods.error('콘솔 인터셉터 처리 중 오류:', error)
     }
+
+    return id
+  }
+
+  /**
+   * 로그 인자를 보관 방식에 맞게 복사합니다.
+   * 'snapshot' 모드에서는 각 인자를 직렬화하여 원본 객체 참조를 남기지 않습니다.
+   * 인자 하나의 직렬화가 실패해도(Proxy 트랩 등) 로그 항목은 기록되도록 그 인자만 대체 문자열로 남깁니다.
+   */
+  private _captureArgs(args: unknown[]): unknown[] {
+    if (this._argsMode === 'live') {
+      return [...args]
+    }
+    return args.map((arg) => {
+      try {
+        return createSnapshot(arg, this._snapshotOptions)
+      } catch (error) {
+        return `[Unserializable: ${typeof arg}]`
+      }
+    })
+  }
+
+  /**
+   * console.assert 실패 항목의 인자를 생성합니다.
+   * 첫 번째 인자가 문자열이면 브라우저처럼 접두어와 합쳐 포맷 문자열로 유지합니다.
+   */
+  private _createAssertionArgs(data: unknown[]): unknown[] {
+    const [first, ...rest] = data
+
+    if (data.length === 0) {
+      return ['Assertion failed']
+    }
+    if (typeof first === 'string') {
+      return [`Assertion failed: ${first}`, ...rest]
+    }
+    return ['Assertion failed:', ...data]
+  }
+
+  /**
+   * console.group / console.groupCollapsed 호출을 처리합니다.
+   * 그룹 시작 항목을 만들고, 이후 항목들이 이 그룹에 속하도록 그룹 스택에 추가합니다.
+   */
+  private _startGroup(args: unknown[], collapsed: boolean): void {
+    const id = this._handleConsoleCall(
+      LogLevel.LOG,
+      args.length > 0 ? args : ['console.group'],
+      { type: 'group', collapsed }
+    )
+    this._groupStack.push(id)
+  }
+
+  /**
+   * console.timeLog / console.timeEnd 호출을 처리합니다.
+   *
+   * @param label 타이머 이름
+   * @param data 함께 출력할 추가 인자들
+   * @param end 타이머를 종료할지 여부
+   */
+  private _reportTimer(label: string, data: unknown[], end: boolean): void {
+    const startedAt = this._timers.get(label)
+
+    if (startedAt === undefined) {
+      this._handleConsoleCall(LogLevel.WARN, [
+        `Timer '${label}' does not exist`,
+      ])
+      return
+    }
+
+    const elapsed = performance.now() - startedAt
+    this._handleConsoleCall(
+      LogLevel.LOG,
+      [
+        `${label}: ${elapsed.toFixed(3)} ms${end ? ' - timer ended' : ''}`,
+        ...data,
+      ],
+      { type: 'timer' }
+    )
+
+    if (end) {
+      this._timers.delete(label)
+    }
+  }
+
+  /**
+   * 원본 console 메서드를 console에 바인딩하여 반환합니다.
+   * 해당 메서드가 없는 환경(일부 구형 WebView)에서는 아무것도 하지 않는 함수를 반환합니다.
+   */
+  private _bindOriginal<K extends keyof Console>(name: K): Console[K] {
+    const method = console[name]
+    if (typeof method === 'function') {
+      return (method as (...args: unknown[]) => unknown).bind(
+        console
+      ) as Console[K]
+    }
+    return (() => undefined) as unknown as Console[K]
   }
 
   /**
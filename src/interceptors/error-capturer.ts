@@ -8,23 +8,24 @@ import type { LogEntry } from '../types/types.js'
  * - Promise rejection 에러 캐치
  * - 리소스 로드 에러 캐치
  * - 네트워크 에러 캐치 (선택적)
+ *
+ * window.onerror / window.onunhandledrejection을 덮어쓰지 않고 이벤트 리스너로 캡처하므로,
+ * 앱이나 다른 도구(Sentry 등)가 나중에 핸들러를 지정해도 서로 영향을 주지 않습니다.
  */
 export class ErrorCapturer {
   private _callbacks: Set<(entry: LogEntry) => void>
-  private _originalErrorHandler: OnErrorEventHandler | null
-  private _originalRejectionHandler:
-    | ((event: PromiseRejectionEvent) => void)
-    | null
   private _isActive: boolean
+  private _handleErrorEvent: (event: Event) => void
+  private _handleRejectionEvent: (event: PromiseRejectionEvent) => void
 
   /**
    * ErrorCapturer 인스턴스를 생성합니다.
    */
   constructor() {
     this._callbacks = new Set()
-    this._originalErrorHandler = null
-    this._originalRejectionHandler = null
     this._isActive = false
+    this._handleErrorEvent = (event) => this._handleError(event)
+    this._handleRejectionEvent = (event) => this._handlePromiseRejection(event)
   }
 
   /**
@@ -37,34 +38,9 @@ export class ErrorCapturer {
 
     this._isActive = true
 
-    this._originalErrorHandler = window.onerror
-    this._originalRejectionHandler = window.onunhandledrejection
-
-    window.onerror = (message, source, lineno, colno, error) => {
-      this._handleGlobalError(message, source, lineno, colno, error)
-
-      if (this._originalErrorHandler) {
-        return this._originalErrorHandler.call(
-          window,
-          message,
-          source,
-          lineno,
-          colno,
-          error
-        )
-      }
-      return false
-    }
-
-    window.onunhandledrejection = (event) => {
-      this._handlePromiseRejection(event)
-
-      if (this._originalRejectionHandler) {
-        this._originalRejectionHandler.call(window, event)
-      }
-    }
-
-    this._setupResourceErrorHandling()
+    // 리소스 로드 에러는 버블링되지 않으므로 캡처 단계에서 받습니다.
+    window.addEventListener('error', this._handleErrorEvent, true)
+    window.addEventListener('unhandledrejection', this._handleRejectionEvent)
   }
 
   /**
@@ -77,11 +53,8 @@ export class ErrorCapturer {
 
     this._isActive = false
 
-    window.onerror = this._originalErrorHandler
-    window.onunhandledrejection = this._originalRejectionHandler
-
-    this._originalErrorHandler = null
-    this._originalRejectionHandler = null
+    window.removeEventListener('error', this._handleErrorEvent, true)
+    window.removeEventListener('unhandledrejection', this._handleRejectionEvent)
   }
 
   /**
@@ -120,18 +93,26 @@ export class ErrorCapturer {
     this.removeAllCallbacks()
   }
 
+  /**
+   * window의 error 이벤트를 전역 에러와 리소스 로드 에러로 나누어 처리합니다.
+   */
+  private _handleError(event: Event): void {
+    if (event.target && event.target !== window) {
+      this._handleResourceError(event.target as HTMLElement)
+    } else if (event instanceof ErrorEvent) {
+      this._handleGlobalError(event)
+    }
+  }
+
   /**
    * 전역 JavaScript 에러를 처리합니다.
    */
-  private _handleGlobalError(
-    message: string | Event,
-    source?: string,
-    lineno?: number,
-    colno?: number,
-    error?: Error
-  ): void {
-    const errorMessage = typeof message === 'string' ? message : 'Unknown error'
-    const errorSource = source || 'Unknown source'
+  private _handleGlobalError(event: ErrorEvent): void {
+    const errorMessage = event.message || 'Unknown error'
+    const errorSource = event.filename || 'Unknown source'
+    const lineno = event.lineno
+    const colno = event.colno
+    const error: unknown = event.error
 
     const entry: LogEntry = {
       id: this._generateId(),
@@ -147,7 +128,7 @@ export class ErrorCapturer {
         },
       ],
       timestamp: new Date(),
-      ...(error?.stack && { stack: error.stack }),
+      ...(error instanceof Error && error.stack && { stack: error.stack }),
     }
 
     this._notifyCallbacks(entry)
@@ -189,38 +170,29 @@ export class ErrorCapturer {
   }
 
   /**
-   * 리소스 로드 에러 핸들링을 설정합니다.
+   * 리소스(이미지, 스크립트, 스타일시트 등) 로드 에러를 처리합니다.
    */
-  private _setupResourceErrorHandling(): void {
-    window.addEventListener(
-      'error',
-      (event) => {
-        if (event.target && event.target !== window) {
-          const target = event.target as HTMLElement
-          const tagName = target.tagName?.toLowerCase()
-          const src =
-            (target as any).src || (target as any).href || 'Unknown resource'
-
-          const entry: LogEntry = {
-            id: this._generateId(),
-            level: LogLevel.ERROR,
-            args: [
-              '📁 [Resource Error]',
-              `Failed to load ${tagName}: ${src}`,
-              {
-                tagName: tagName,
-                src: src,
-                timestamp: new Date().toISOString(),
-              },
-            ],
-            timestamp: new Date(),
-          }
-
-          this._notifyCallbacks(entry)
-        }
-      },
-      true
-    )
+  private _handleResourceError(target: HTMLElement): void {
+    const tagName = target.tagName?.toLowerCase()
+    const src =
+      (target as any).src || (target as any).href || 'Unknown resource'
+
+    const entry: LogEntry = {
+      id: this._generateId(),
+      level: LogLevel.ERROR,
+      args: [
+        '📁 [Resource Error]',
+        `Failed to load ${tagName}: ${src}`,
+        {
+          tagName: tagName,
+          src: src,
+          timestamp: new Date().toISOString(),
+        },
+      ],
+      timestamp: new Date(),
+    }
+
+    this._notifyCallbacks(entry)
   }
 
   /**
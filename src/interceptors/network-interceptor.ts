@@ -0,0 +1,501 @@
+import type {
+  NetworkEntry,
+  NetworkInterceptorCallback,
+  OriginalNetworkMethods,
+} from '../types/types.js'
+
+/**
+ * 캡처할 본문의 최대 길이 (문자 수)
+ * 큰 응답이 메모리를 점유하지 않도록 초과분은 잘라냅니다.
+ */
+const MAX_BODY_LENGTH = 100000
+
+/**
+ * 본문을 읽는 응답의 Content-Type (text/event-stream을 제외한 text/*와 아래 형식들)
+ */
+const TEXT_CONTENT_TYPE_PATTERN =
+  /^(?:text\/(?!event-stream$)|application\/(?:json|xml|javascript|x-www-form-urlencoded|graphql)$|[^/]+\/[^;]+\+(?:json|xml)$)/
+
+/**
+ * XMLHttpRequest 인스턴스에 요청 정보를 보관하기 위한 키
+ */
+const XHR_ENTRY_KEY = '__debugOverlayNetworkEntry'
+
+/**
+ * XMLHttpRequest 인스턴스에 현재 요청의 loadend 핸들러를 보관하기 위한 키
+ */
+const XHR_LOADEND_KEY = '__debugOverlayLoadEnd'
+
+type TrackedXMLHttpRequest = XMLHttpRequest & {
+  [XHR_ENTRY_KEY]?: NetworkEntry
+  [XHR_LOADEND_KEY]?: () => void
+}
+
+/**
+ * 네트워크 인터셉터 클래스
+ *
+ * - 원본 fetch / XMLHttpRequest 메서드들을 백업
+ * - fetch와 XMLHttpRequest를 감싸 요청/응답 정보를 캡처
+ * - 캡처된 요청을 NetworkEntry 형태로 변환
+ * - 등록된 콜백들에게 요청 시작과 완료를 전달
+ */
+export class NetworkInterceptor {
+  private _originalMethods: OriginalNetworkMethods
+  private _callbacks: Set<NetworkInterceptorCallback>
+  private _isIntercepting: boolean
+
+  constructor() {
+    this._originalMethods = {
+      fetch: window.fetch,
+      xhrOpen: XMLHttpRequest.prototype.open,
+      xhrSend: XMLHttpRequest.prototype.send,
+      xhrSetRequestHeader: XMLHttpRequest.prototype.setRequestHeader,
+    }
+
+    this._callbacks = new Set()
+    this._isIntercepting = false
+  }
+
+  /**
+   * 네트워크 인터셉션을 시작합니다.
+   * fetch와 XMLHttpRequest를 오버라이드하여 요청을 캡처합니다.
+   */
+  public startIntercepting(): void {
+    if (this._isIntercepting) {
+      return
+    }
+
+    this._isIntercepting = true
+
+    if (typeof this._originalMethods.fetch === 'function') {
+      this._interceptFetch()
+    }
+
+    this._interceptXhr()
+  }
+
+  /**
+   * 네트워크 인터셉션을 중지합니다.
+   * 원본 fetch / XMLHttpRequest 메서드들을 복원합니다.
+   */
+  public stopIntercepting(): void {
+    if (!this._isIntercepting) {
+      return
+    }
+
+    this._isIntercepting = false
+
+    if (typeof this._originalMethods.fetch === 'function') {
+      window.fetch = this._originalMethods.fetch
+    }
+
+    XMLHttpRequest.prototype.open = this._originalMethods.xhrOpen
+    XMLHttpRequest.prototype.send = this._originalMethods.xhrSend
+    XMLHttpRequest.prototype.setRequestHeader =
+      this._originalMethods.xhrSetRequestHeader
+  }
+
+  /**
+   * 네트워크 콜백을 등록합니다.
+   *
+   * @param callback 요청이 시작되거나 완료될 때 호출될 콜백 함수
+   */
+  public addCallback(callback: NetworkInterceptorCallback): void {
+    this._callbacks.add(callback)
+  }
+
+  /**
+   * 네트워크 콜백을 제거합니다.
+   *
+   * @param callback 제거할 콜백 함수
+   */
+  public removeCallback(callback: NetworkInterceptorCallback): void {
+    this._callbacks.delete(callback)
+  }
+
+  /**
+   * 모든 콜백을 제거합니다.
+   */
+  public removeAllCallbacks(): void {
+    this._callbacks.clear()
+  }
+
+  /**
+   * 현재 인터셉팅 상태를 반환합니다.
+   *
+   * @returns 인터셉팅 중이면 true, 아니면 false
+   */
+  public isIntercepting(): boolean {
+    return this._isIntercepting
+  }
+
+  /**
+   * 인터셉터를 완전히 정리합니다.
+   * 메모리 누수 방지를 위해 사용합니다.
+   */
+  public destroy(): void {
+    this.stopIntercepting()
+    this.removeAllCallbacks()
+  }
+
+  /**
+   * window.fetch를 감쌉니다.
+   */
+  private _interceptFetch(): void {
+    const originalFetch = this._originalMethods.fetch
+
+    window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+      let entry: NetworkEntry
+      try {
+        entry = this._createFetchEntry(input, init)
+      } catch (error) {
+        // 요청 정보를 읽지 못해도 페이지의 fetch 동작(잘못된 인자의 거부 등)은 원본 그대로 유지합니다.
+        return originalFetch.call(window, input, init)
+      }
+      const startedAt = performance.now()
+
+      this._notifyCallbacks(entry)
+
+      return originalFetch.call(window, input, init).then(
+        (response) => {
+          entry.status = response.status
+          entry.statusText = response.statusText
+          entry.responseHeaders = this._headersToRecord(response.headers)
+          // 스트리밍 응답은 끝나지 않을 수 있으므로 헤더를 받은 시점에 완료로 기록하고, 본문은 읽는 대로 채웁니다.
+          entry.state = 'complete'
+          entry.duration = performance.now() - startedAt
+          this._notifyCallbacks(entry)
+
+          this._readFetchBody(response).then((body) => {
+            if (body !== undefined) {
+              entry.responseBody = body
+              this._notifyCallbacks(entry)
+            }
+          })
+
+          return response
+        },
+        (error: unknown) => {
+          entry.state = 'error'
+          entry.duration = performance.now() - startedAt
+          entry.error = error instanceof Error ? error.message : String(error)
+          this._notifyCallbacks(entry)
+
+          throw error
+        }
+      )
+    }
+  }
+
+  /**
+   * XMLHttpRequest의 open / setRequestHeader / send를 감쌉니다.
+   */
+  private _interceptXhr(): void {
+    const interceptor = this
+    const { xhrOpen, xhrSend, xhrSetRequestHeader } = this._originalMethods
+
+    XMLHttpRequest.prototype.open = function (
+      this: TrackedXMLHttpRequest,
+      method: string,
+      url: string | URL,
+      ...rest: unknown[]
+    ) {
+      // 같은 인스턴스를 재사용하면 이전 요청의 핸들러가 새 응답으로 이전 항목을 덮어쓰지 않도록 제거합니다.
+      const previousLoadEnd = this[XHR_LOADEND_KEY]
+      if (previousLoadEnd) {
+        this.removeEventListener('loadend', previousLoadEnd)
+        delete this[XHR_LOADEND_KEY]
+      }
+
+      this[XHR_ENTRY_KEY] = interceptor._createEntry('xhr', method, String(url))
+      return (xhrOpen as (...args: unknown[]) => void).call(
+        this,
+        method,
+        url,
+        ...rest
+      )
+    } as typeof XMLHttpRequest.prototype.open
+
+    XMLHttpRequest.prototype.setRequestHeader = function (
+      this: TrackedXMLHttpRequest,
+      name: string,
+      value: string
+    ) {
+      const entry = this[XHR_ENTRY_KEY]
+      if (entry) {
+        entry.requestHeaders[name] = value
+      }
+      return xhrSetRequestHeader.call(this, name, value)
+    }
+
+    XMLHttpRequest.prototype.send = function (
+      this: TrackedXMLHttpRequest,
+      body?: Document | XMLHttpRequestBodyInit | null
+    ) {
+      const entry = this[XHR_ENTRY_KEY]
+
+      if (entry) {
+        const startedAt = performance.now()
+        const requestBody = interceptor._describeBody(body)
+        if (requestBody !== undefined) {
+          entry.requestBody = requestBody
+        }
+
+        const handleLoadEnd = () => {
+          delete this[XHR_LOADEND_KEY]
+          entry.duration = performance.now() - startedAt
+          entry.status = this.status
+          entry.statusText = this.statusText
+          entry.responseHeaders = interceptor._parseRawHeaders(
+            this.getAllResponseHeaders()
+          )
+
+          if (this.status === 0) {
+            entry.state = 'error'
+            entry.error = 'Network error or request aborted'
+          } else {
+            entry.state = 'complete'
+            const responseBody = interceptor._readXhrBody(this)
+            if (responseBody !== undefined) {
+              entry.responseBody = responseBody
+            }
+          }
+
+          interceptor._notifyCallbacks(entry)
+        }
+        this[XHR_LOADEND_KEY] = handleLoadEnd
+        this.addEventListener('loadend', handleLoadEnd, { once: true })
+
+        interceptor._notifyCallbacks(entry)
+      }
+
+      return xhrSend.call(this, body)
+    }
+  }
+
+  /**
+   * fetch 호출 인자로부터 NetworkEntry를 생성합니다.
+   */
+  private _createFetchEntry(
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): NetworkEntry {
+    const isRequest = typeof Request !== 'undefined' && input instanceof Request
+    const url = isRequest ? input.url : String(input)
+    const method = init?.method ?? (isRequest ? input.method : 'GET')
+
+    const entry = this._createEntry('fetch', method, url)
+
+    if (isRequest) {
+      Object.assign(entry.requestHeaders, this._headersToRecord(input.headers))
+    }
+    if (init?.headers) {
+      Object.assign(
+        entry.requestHeaders,
+        this._headersToRecord(new Headers(init.headers))
+      )
+    }
+
+    const requestBody = this._describeBody(init?.body)
+    if (requestBody !== undefined) {
+      entry.requestBody = requestBody
+    }
+
+    return entry
+  }
+
+  /**
+   * 기본값이 채워진 NetworkEntry를 생성합니다.
+   */
+  private _createEntry(
+    type: NetworkEntry['type'],
+    method: string,
+    url: string
+  ): NetworkEntry {
+    return {
+      id: this._generateId(),
+      type,
+      state: 'pending',
+      method: method.toUpperCase(),
+      url,
+      status: 0,
+      statusText: '',
+      startTime: new Date(),
+      requestHeaders: {},
+      responseHeaders: {},
+    }
+  }
+
+  /**
+   * fetch 응답 본문을 원본 응답을 소비하지 않고 읽습니다.
+   * 텍스트가 아닌 응답과 스트리밍 응답(text/event-stream)은 읽지 않고 Content-Type만 기록하며,
+   * 텍스트 응답도 최대 길이까지만 읽고 나머지는 받지 않습니다.
+   */
+  private _readFetchBody(response: Response): Promise<string | undefined> {
+    const contentType = (response.headers.get('content-type') ?? '')
+      .split(';')[0]!
+      .trim()
+      .toLowerCase()
+    if (contentType && !TEXT_CONTENT_TYPE_PATTERN.test(contentType)) {
+      return Promise.resolve(`[${contentType}]`)
+    }
+
+    try {
+      const body = response.clone().body
+      if (!body) {
+        return Promise.resolve(undefined)
+      }
+      return readTextWithLimit(body, MAX_BODY_LENGTH).then(
+        ({ text, truncated }) => (truncated ? `${text}… [truncated]` : text),
+        () => undefined
+      )
+    } catch (error) {
+      return Promise.resolve(undefined)
+    }
+  }
+
+  /**
+   * XMLHttpRequest 응답 본문을 responseType에 맞게 읽습니다.
+   */
+  private _readXhrBody(xhr: XMLHttpRequest): string | undefined {
+    try {
+      switch (xhr.responseType) {
+        case '':
+        case 'text':
+          return this._truncate(xhr.responseText)
+        case 'json':
+          return this._truncate(JSON.stringify(xhr.response))
+        default:
+          return `[${xhr.responseType}]`
+      }
+    } catch (error) {
+      return undefined
+    }
+  }
+
+  /**
+   * 요청 본문을 표시 가능한 문자열로 변환합니다.
+   */
+  private _describeBody(body: unknown): string | undefined {
+    if (body === undefined || body === null) {
+      return undefined
+    }
+    if (typeof body === 'string') {
+      return this._truncate(body)
+    }
+    if (body instanceof URLSearchParams) {
+      return this._truncate(body.toString())
+    }
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+      const fields: string[] = []
+      body.forEach((value, key) => {
+        fields.push(`${key}=${typeof value === 'string' ? value : '[File]'}`)
+      })
+      return this._truncate(fields.join('&'))
+    }
+    if (typeof Blob !== 'undefined' && body instanceof Blob) {
+      return `[Blob ${body.size} bytes]`
+    }
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      return `[Binary ${body.byteLength} bytes]`
+    }
+    return `[${Object.prototype.toString.call(body).slice(8, -1)}]`
+  }
+
+  /**
+   * Headers 객체를 일반 객체로 변환합니다.
+   */
+  private _headersToRecord(headers: Headers): Record<string, string> {
+    const record: Record<string, string> = {}
+    headers.forEach((value, key) => {
+      record[key] = value
+    })
+    return record
+  }
+
+  /**
+   * getAllResponseHeaders()의 결과 문자열을 일반 객체로 변환합니다.
+   */
+  private _parseRawHeaders(raw: string): Record<string, string> {
+    const record: Record<string, string> = {}
+    raw
+      .trim()
+      .split(/[\r\n]+/)
+      .forEach((line) => {
+        const index = line.indexOf(':')
+        if (index > 0) {
+          record[line.slice(0, index).trim().toLowerCase()] = line
+            .slice(index + 1)
+            .trim()
+        }
+      })
+    return record
+  }
+
+  /**
+   * 최대 길이를 초과하는 본문을 잘라냅니다.
+   */
+  private _truncate(text: string): string {
+    if (text.length <= MAX_BODY_LENGTH) {
+      return text
+    }
+    return `${text.slice(0, MAX_BODY_LENGTH)}… [${text.length - MAX_BODY_LENGTH} more characters]`
+  }
+
+  /**
+   * 고유 ID를 생성합니다.
+   */
+  private _generateId(): string {
+    const timestamp = Date.now().toString(36)
+    const random = Math.random().toString(36).substring(2)
+    return `net_${timestamp}_${random}`
+  }
+
+  /**
+   * 모든 콜백에게 요청 항목의 복사본을 전달합니다.
+   */
+  private _notifyCallbacks(entry: NetworkEntry): void {
+    const snapshot: NetworkEntry = {
+      ...entry,
+      requestHeaders: { ...entry.requestHeaders },
+      responseHeaders: { ...entry.responseHeaders },
+    }
+
+    this._callbacks.forEach((callback) => {
+      try {
+        callback(snapshot)
+      } catch (error) {
+        console.error('네트워크 인터셉터 콜백 실행 중 오류:', error)
+      }
+    })
+  }
+}
+
+/**
+ * 스트림을 텍스트로 읽되, 최대 길이를 넘으면 나머지를 받지 않고 읽기를 취소합니다.
+ *
+ * @param stream 응답 본문 스트림 (원본 응답의 복제본)
+ * @param maxLength 읽을 최대 문자 수
+ * @returns 읽은 텍스트와 잘렸는지 여부
+ */
+async function readTextWithLimit(
+  stream: ReadableStream<Uint8Array>,
+  maxLength: number
+): Promise<{ text: string; truncated: boolean }> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return { text: text + decoder.decode(), truncated: false }
+    }
+
+    text += decoder.decode(value, { stream: true })
+    if (text.length > maxLength) {
+      reader.cancel().catch(() => undefined)
+      return { text: text.slice(0, maxLength), truncated: true }
+    }
+  }
+}
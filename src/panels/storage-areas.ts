@@ -0,0 +1,434 @@
+/**
+ * 브라우저 저장소 접근 유틸리티
+ *
+ * localStorage, sessionStorage, document.cookie, IndexedDB 객체 저장소를
+ * 같은 형태(목록 조회, 저장, 삭제)로 다룰 수 있도록 감쌉니다.
+ */
+
+/**
+ * IndexedDB 객체 저장소에서 한 번에 불러오는 최대 레코드 수
+ */
+const MAX_INDEXED_DB_RECORDS = 100
+
+/**
+ * 저장소 항목 하나
+ */
+export interface StorageRecord {
+  /** 표시용 키 */
+  key: string
+  /** 값 (Web Storage와 쿠키는 문자열, IndexedDB는 저장된 값 그대로) */
+  value: unknown
+  /** IndexedDB의 원래 키 (IndexedDB 항목인 경우) */
+  rawKey?: IDBValidKey
+  /** 쿠키의 속성 (Cookie Store API로 알 수 있는 쿠키 항목인 경우) */
+  cookie?: CookieAttributes
+}
+
+/**
+ * 쿠키를 수정/삭제할 때 유지해야 하는 속성
+ */
+export interface CookieAttributes {
+  /** 쿠키의 경로 */
+  path: string
+  /** 쿠키의 도메인 (호스트 전용 쿠키면 생략) */
+  domain?: string
+  /** 만료 시각 (밀리초, 세션 쿠키면 생략) */
+  expires?: number
+}
+
+/**
+ * 목록 조회, 저장, 삭제를 지원하는 저장소
+ */
+export interface StorageArea {
+  /** 저장소 이름 */
+  readonly label: string
+  /** 모든 항목을 불러옵니다. */
+  list(): Promise<StorageRecord[]>
+  /**
+   * 항목을 저장합니다.
+   *
+   * @param key 항목 키 (기존 항목을 수정하는 경우 그 항목의 키)
+   * @param value 편집창에 입력한 값 문자열
+   * @param record 수정하는 기존 항목 (새 항목이면 생략)
+   */
+  set(key: string, value: string, record?: StorageRecord): Promise<void>
+  /** 항목을 삭제합니다. */
+  remove(record: StorageRecord): Promise<void>
+}
+
+/**
+ * Cookie Store API가 반환하는 쿠키 정보
+ * TypeScript DOM 타입에 아직 없어 필요한 부분만 선언하며, 브라우저에 따라 이름과 값 외의 속성이 없을 수 있습니다.
+ */
+interface CookieListItem {
+  name?: string
+  value?: string
+  domain?: string | null
+  path?: string
+  expires?: number | null
+}
+
+/**
+ * Cookie Store API 중 사용하는 부분
+ */
+interface CookieStoreApi {
+  getAll(): Promise<CookieListItem[]>
+}
+
+/**
+ * IndexedDB의 데이터베이스/객체 저장소 이름
+ */
+export interface IndexedDbStoreInfo {
+  database: string
+  store: string
+}
+
+/**
+ * localStorage / sessionStorage 저장소
+ */
+export class WebStorageArea implements StorageArea {
+  public readonly label: string
+  private _storage: Storage
+
+  /**
+   * WebStorageArea 인스턴스를 생성합니다.
+   *
+   * @param storage 감쌀 Storage 객체
+   * @param label 저장소 이름
+   */
+  constructor(storage: Storage, label: string) {
+    this._storage = storage
+    this.label = label
+  }
+
+  /**
+   * 감싼 Storage 객체인지 확인합니다. (storage 이벤트의 storageArea 비교용)
+   */
+  public isStorage(storage: Storage | null): boolean {
+    return storage === this._storage
+  }
+
+  /**
+   * 모든 항목을 키 순서로 불러옵니다.
+   */
+  public async list(): Promise<StorageRecord[]> {
+    const records: StorageRecord[] = []
+    for (let i = 0; i < this._storage.length; i++) {
+      const key = this._storage.key(i)
+      if (key !== null) {
+        records.push({ key, value: this._storage.getItem(key) ?? '' })
+      }
+    }
+    return records.sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  /**
+   * 항목을 저장합니다.
+   */
+  public async set(key: string, value: string): Promise<void> {
+    this._storage.setItem(key, value)
+  }
+
+  /**
+   * 항목을 삭제합니다.
+   */
+  public async remove(record: StorageRecord): Promise<void> {
+    this._storage.removeItem(record.key)
+  }
+}
+
+/**
+ * document.cookie 저장소
+ * HttpOnly 쿠키는 스크립트에서 보이지 않으므로 목록에 나타나지 않습니다.
+ * document.cookie로는 쿠키의 경로와 도메인을 알 수 없으므로, Cookie Store API가 있으면 그 정보를 함께 읽어
+ * 수정/삭제할 때 원래 쿠키의 경로와 도메인을 그대로 사용합니다.
+ */
+export class CookieStorageArea implements StorageArea {
+  public readonly label: string
+
+  /**
+   * CookieStorageArea 인스턴스를 생성합니다.
+   */
+  constructor() {
+    this.label = 'Cookies'
+  }
+
+  /**
+   * 모든 쿠키를 이름 순서로 불러옵니다.
+   * Cookie Store API를 사용할 수 없거나 실패하면 document.cookie를 읽습니다.
+   */
+  public async list(): Promise<StorageRecord[]> {
+    const cookieStore = getCookieStore()
+    if (cookieStore) {
+      try {
+        const cookies = await cookieStore.getAll()
+        return cookies
+          .map((cookie) => toCookieRecord(cookie))
+          .sort((a, b) => a.key.localeCompare(b.key))
+      } catch (error) {
+        // document.cookie로 대신 읽습니다.
+      }
+    }
+
+    if (!document.cookie) {
+      return []
+    }
+
+    return document.cookie
+      .split(';')
+      .map((pair) => {
+        const separatorIndex = pair.indexOf('=')
+        const name = separatorIndex < 0 ? pair : pair.slice(0, separatorIndex)
+        const value = separatorIndex < 0 ? '' : pair.slice(separatorIndex + 1)
+        return {
+          key: decodeCookiePart(name.trim()),
+          value: decodeCookiePart(value),
+        }
+      })
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  /**
+   * 쿠키를 저장합니다.
+   * 기존 쿠키의 속성을 알면 같은 경로/도메인/만료 시각으로 덮어쓰고,
+   * 새 쿠키이거나 속성을 알 수 없으면 루트 경로(path=/)에 세션 쿠키로 저장합니다.
+   * (속성을 알 수 없는 브라우저에서 더 좁은 경로의 쿠키를 수정하면 루트 경로에 같은 이름의 쿠키가 새로 생깁니다.)
+   */
+  public async set(
+    key: string,
+    value: string,
+    record?: StorageRecord
+  ): Promise<void> {
+    const attributes = record?.cookie
+      ? formatCookieAttributes(record.cookie)
+      : 'path=/'
+    document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; ${attributes}`
+  }
+
+  /**
+   * 쿠키를 만료시켜 삭제합니다.
+   */
+  public async remove(record: StorageRecord): Promise<void> {
+    const name = encodeURIComponent(record.key)
+
+    if (record.cookie) {
+      // 만료 시각을 과거로 두고 원래 경로와 도메인에 덮어써서 지웁니다.
+      document.cookie = `${name}=; ${formatCookieAttributes({ ...record.cookie, expires: 0 })}`
+      return
+    }
+
+    const expires = 'expires=Thu, 01 Jan 1970 00:00:00 GMT'
+    // 쿠키가 설정된 경로를 알 수 없으므로 루트 경로와 현재 경로 모두에서 지웁니다.
+    document.cookie = `${name}=; ${expires}; path=/`
+    document.cookie = `${name}=; ${expires}`
+  }
+}
+
+/**
+ * IndexedDB 객체 저장소 하나
+ */
+export class IndexedDbStoreArea implements StorageArea {
+  public readonly label: string
+  private _database: string
+  private _store: string
+
+  /**
+   * IndexedDbStoreArea 인스턴스를 생성합니다.
+   *
+   * @param info 데이터베이스와 객체 저장소 이름
+   */
+  constructor(info: IndexedDbStoreInfo) {
+    this._database = info.database
+    this._store = info.store
+    this.label = `${info.database} / ${info.store}`
+  }
+
+  /**
+   * 처음 MAX_INDEXED_DB_RECORDS개의 레코드를 불러옵니다.
+   */
+  public async list(): Promise<StorageRecord[]> {
+    return this._withStore('readonly', (store) => {
+      return new Promise<StorageRecord[]>((resolve, reject) => {
+        const records: StorageRecord[] = []
+        const request = store.openCursor()
+
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (!cursor || records.length >= MAX_INDEXED_DB_RECORDS) {
+            resolve(records)
+            return
+          }
+          records.push({
+            key: formatIndexedDbKey(cursor.primaryKey),
+            value: cursor.value,
+            rawKey: cursor.primaryKey,
+          })
+          cursor.continue()
+        }
+        request.onerror = () => reject(request.error)
+      })
+    })
+  }
+
+  /**
+   * 값을 JSON으로 파싱해 저장합니다.
+   * 키 경로(keyPath)가 있는 저장소는 값 안의 키를 사용하고, 없으면 입력한 키를 사용합니다.
+   *
+   * @throws 값이 올바른 JSON이 아닌 경우
+   */
+  public async set(
+    key: string,
+    value: string,
+    record?: StorageRecord
+  ): Promise<void> {
+    const parsed: unknown = JSON.parse(value)
+
+    await this._withStore('readwrite', (store) => {
+      const request =
+        store.keyPath !== null
+          ? store.put(parsed)
+          : store.put(parsed, record?.rawKey ?? parseIndexedDbKey(key))
+      return requestToPromise(request)
+    })
+  }
+
+  /**
+   * 레코드를 삭제합니다.
+   */
+  public async remove(record: StorageRecord): Promise<void> {
+    await this._withStore('readwrite', (store) =>
+      requestToPromise(store.delete(record.rawKey ?? record.key))
+    )
+  }
+
+  /**
+   * 데이터베이스를 열어 객체 저장소로 작업을 실행하고, 끝나면 데이터베이스를 닫습니다.
+   */
+  private async _withStore<T>(
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T> {
+    const database = await requestToPromise(indexedDB.open(this._database))
+    try {
+      const store = database
+        .transaction(this._store, mode)
+        .objectStore(this._store)
+      return await callback(store)
+    } finally {
+      database.close()
+    }
+  }
+}
+
+/**
+ * 현재 출처의 IndexedDB 데이터베이스와 객체 저장소 목록을 불러옵니다.
+ * indexedDB.databases()를 지원하지 않는 브라우저에서는 빈 목록을 반환합니다.
+ */
+export async function listIndexedDbStores(): Promise<IndexedDbStoreInfo[]> {
+  if (typeof indexedDB === 'undefined' || !indexedDB.databases) {
+    return []
+  }
+
+  const databases = await indexedDB.databases()
+  const stores: IndexedDbStoreInfo[] = []
+
+  for (const { name } of databases) {
+    if (!name) continue
+
+    const database = await requestToPromise(indexedDB.open(name))
+    Array.from(database.objectStoreNames).forEach((store) => {
+      stores.push({ database: name, store })
+    })
+    database.close()
+  }
+
+  return stores
+}
+
+/**
+ * IDBRequest를 Promise로 감쌉니다.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * IndexedDB 키를 표시용 문자열로 변환합니다.
+ */
+function formatIndexedDbKey(key: IDBValidKey): string {
+  if (typeof key === 'string') return key
+  if (key instanceof Date) return key.toISOString()
+  if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) return '[binary]'
+  return JSON.stringify(key)
+}
+
+/**
+ * 입력한 키 문자열을 IndexedDB 키로 변환합니다. (숫자와 배열은 JSON으로 해석)
+ */
+function parseIndexedDbKey(key: string): IDBValidKey {
+  try {
+    const parsed: unknown = JSON.parse(key)
+    if (typeof parsed === 'number' || Array.isArray(parsed)) {
+      return parsed as IDBValidKey
+    }
+  } catch (error) {
+    // 문자열 키로 사용합니다.
+  }
+  return key
+}
+
+/**
+ * 쿠키 이름/값의 퍼센트 인코딩을 풉니다. (잘못된 인코딩이면 그대로 반환)
+ */
+function decodeCookiePart(part: string): string {
+  try {
+    return decodeURIComponent(part)
+  } catch (error) {
+    return part
+  }
+}
+
+/**
+ * 브라우저가 지원하면 Cookie Store API 객체를 반환합니다.
+ */
+function getCookieStore(): CookieStoreApi | null {
+  const { cookieStore } = window as Window & { cookieStore?: CookieStoreApi }
+  return cookieStore ?? null
+}
+
+/**
+ * Cookie Store API의 쿠키 정보를 저장소 항목으로 변환합니다.
+ * 경로를 알려주지 않는 브라우저에서는 속성 없이 document.cookie와 같은 항목을 만듭니다.
+ */
+function toCookieRecord(cookie: CookieListItem): StorageRecord {
+  const record: StorageRecord = {
+    key: decodeCookiePart(cookie.name ?? ''),
+    value: decodeCookiePart(cookie.value ?? ''),
+  }
+
+  if (cookie.path) {
+    record.cookie = {
+      path: cookie.path,
+      ...(cookie.domain && { domain: cookie.domain }),
+      ...(typeof cookie.expires === 'number' && { expires: cookie.expires }),
+    }
+  }
+  return record
+}
+
+/**
+ * 쿠키 속성을 document.cookie에 쓸 문자열로 변환합니다.
+ */
+function formatCookieAttributes(attributes: CookieAttributes): string {
+  const parts = [`path=${attributes.path}`]
+  if (attributes.domain) {
+    parts.push(`domain=${attributes.domain}`)
+  }
+  if (attributes.expires !== undefined) {
+    parts.push(`expires=${new Date(attributes.expires).toUTCString()}`)
+  }
+  return parts.join('; ')
+}
@@ -0,0 +1,474 @@
+import type { OverlayPanel } from '../types/types.js'
+import { JsonViewer } from '../components/json-viewer.js'
+import { safeStringify } from '../utils/safe-stringify.js'
+import {
+  CookieStorageArea,
+  IndexedDbStoreArea,
+  WebStorageArea,
+  listIndexedDbStores,
+} from './storage-areas.js'
+import type { StorageArea, StorageRecord } from './storage-areas.js'
+
+/**
+ * 저장소 선택 목록에서 IndexedDB 객체 저장소 항목 값의 접두어
+ */
+const INDEXED_DB_OPTION_PREFIX = 'indexeddb:'
+
+/**
+ * 저장소 검사 패널 클래스
+ *
+ * 단일 책임: localStorage, sessionStorage, 쿠키, IndexedDB의 항목을 Storage 탭에 표시하고 편집하는 책임만 가집니다.
+ * - 저장소 선택과 항목 목록 표시 (JSON 값은 JsonViewer로 표시)
+ * - 항목 추가 / 수정 / 삭제
+ * - 다른 탭/창에서 발생한 storage 이벤트에 따른 자동 갱신 (편집 중이면 편집이 끝날 때까지 미룸)
+ */
+export class StoragePanel implements OverlayPanel {
+  public readonly id: string
+  public readonly label: string
+  private _areas: Map<string, StorageArea>
+  private _selectedArea: string
+  private _select: HTMLSelectElement | null
+  private _status: HTMLSpanElement | null
+  private _list: HTMLDivElement | null
+  private _refreshToken: number
+  private _hasDeferredRefresh: boolean
+
+  /**
+   * StoragePanel 인스턴스를 생성합니다.
+   */
+  constructor() {
+    this.id = 'storage'
+    this.label = 'Storage'
+    this._areas = new Map()
+    this._selectedArea = 'localStorage'
+    this._select = null
+    this._status = null
+    this._list = null
+    this._refreshToken = 0
+    this._hasDeferredRefresh = false
+    this._handleStorageEvent = this._handleStorageEvent.bind(this)
+  }
+
+  /**
+   * 패널 내용을 그립니다.
+   *
+   * @param container 패널 컨테이너
+   */
+  public render(container: HTMLElement): void {
+    this._areas = createBuiltInAreas()
+
+    const toolbar = document.createElement('div')
+    toolbar.className = 'debug-overlay-panel-toolbar'
+
+    this._select = document.createElement('select')
+    this._select.className = 'debug-overlay-button debug-overlay-storage-select'
+    this._select.addEventListener('change', () => {
+      this._selectedArea = this._select!.value
+      this.refresh()
+    })
+
+    const refreshButton = document.createElement('button')
+    refreshButton.className = 'debug-overlay-button'
+    refreshButton.textContent = 'Refresh'
+    refreshButton.addEventListener('click', () => this.refresh())
+
+    const addButton = document.createElement('button')
+    addButton.className = 'debug-overlay-button'
+    addButton.textContent = '+ Add'
+    addButton.addEventListener('click', () => this._showAddRow())
+
+    this._status = document.createElement('span')
+    this._status.className = 'debug-overlay-storage-status'
+
+    toolbar.appendChild(this._select)
+    toolbar.appendChild(refreshButton)
+    toolbar.appendChild(addButton)
+    toolbar.appendChild(this._status)
+
+    this._list = document.createElement('div')
+    this._list.className = 'debug-overlay-storage-list'
+
+    container.appendChild(toolbar)
+    container.appendChild(this._list)
+
+    window.addEventListener('storage', this._handleStorageEvent)
+    this._updateAreaOptions()
+    this.refresh()
+  }
+
+  /**
+   * 탭이 선택되면 IndexedDB 목록과 항목을 다시 불러옵니다.
+   * (같은 문서에서 바뀐 값은 storage 이벤트가 발생하지 않으므로)
+   */
+  public onShow(): void {
+    this._loadIndexedDbAreas()
+    this.refresh()
+  }
+
+  /**
+   * 선택된 저장소의 항목을 다시 불러와 그립니다.
+   */
+  public refresh(): void {
+    const area = this._areas.get(this._selectedArea)
+    if (!area || !this._list) return
+
+    this._hasDeferredRefresh = false
+    const token = ++this._refreshToken
+    area
+      .list()
+      .then((records) => {
+        // 더 최근에 요청한 갱신이 있으면 이전 결과는 버립니다.
+        if (token !== this._refreshToken || !this._list) return
+        this._renderRecords(area, records)
+        this._setStatus(
+          `${records.length} item${records.length === 1 ? '' : 's'}`
+        )
+      })
+      .catch((error) => {
+        if (token !== this._refreshToken) return
+        this._setStatus(
+          `Failed to read ${area.label}: ${describeError(error)}`,
+          true
+        )
+      })
+  }
+
+  /**
+   * 이벤트 리스너를 제거하고 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    window.removeEventListener('storage', this._handleStorageEvent)
+    this._areas.clear()
+    this._select = null
+    this._status = null
+    this._list = null
+  }
+
+  /**
+   * 다른 탭/창에서 선택된 Web Storage가 바뀌면 다시 불러옵니다.
+   * 편집 중인 행이 있으면 입력한 내용을 잃지 않도록 편집이 끝날 때까지 미룹니다.
+   */
+  private _handleStorageEvent(event: StorageEvent): void {
+    const area = this._areas.get(this._selectedArea)
+    if (
+      !(area instanceof WebStorageArea && area.isStorage(event.storageArea))
+    ) {
+      return
+    }
+
+    if (this._isEditing()) {
+      this._hasDeferredRefresh = true
+      this._setStatus(`${area.label} changed in another tab`)
+      return
+    }
+
+    this.refresh()
+  }
+
+  /**
+   * 열려 있는 편집 행이 있는지 확인합니다.
+   */
+  private _isEditing(): boolean {
+    if (!this._list) return false
+    return (
+      this._list.querySelector('.debug-overlay-storage-row.editing') !== null
+    )
+  }
+
+  /**
+   * 편집 중이라 미뤄 둔 갱신이 있고 더 이상 편집 중인 행이 없으면 다시 불러옵니다.
+   */
+  private _refreshIfDeferred(): void {
+    if (this._hasDeferredRefresh && !this._isEditing()) {
+      this.refresh()
+    }
+  }
+
+  /**
+   * IndexedDB 객체 저장소 목록을 불러와 선택 목록에 추가합니다.
+   */
+  private _loadIndexedDbAreas(): void {
+    listIndexedDbStores()
+      .then((stores) => {
+        this._areas.forEach((_, id) => {
+          if (id.startsWith(INDEXED_DB_OPTION_PREFIX)) {
+            this._areas.delete(id)
+          }
+        })
+        stores.forEach((store) => {
+          this._areas.set(
+            `${INDEXED_DB_OPTION_PREFIX}${store.database}/${store.store}`,
+            new IndexedDbStoreArea(store)
+          )
+        })
+        this._updateAreaOptions()
+      })
+      .catch((error) => {
+        this._setStatus(
+          `Failed to list IndexedDB: ${describeError(error)}`,
+          true
+        )
+      })
+  }
+
+  /**
+   * 저장소 선택 목록을 현재 저장소들로 다시 채웁니다.
+   */
+  private _updateAreaOptions(): void {
+    if (!this._select) return
+
+    this._select.innerHTML = ''
+    this._areas.forEach((area, id) => {
+      const option = document.createElement('option')
+      option.value = id
+      option.textContent = id.startsWith(INDEXED_DB_OPTION_PREFIX)
+        ? `IndexedDB: ${area.label}`
+        : area.label
+      this._select!.appendChild(option)
+    })
+
+    if (!this._areas.has(this._selectedArea)) {
+      this._selectedArea = 'localStorage'
+    }
+    this._select.value = this._selectedArea
+  }
+
+  /**
+   * 항목 목록을 그립니다.
+   */
+  private _renderRecords(area: StorageArea, records: StorageRecord[]): void {
+    if (!this._list) return
+
+    this._list.innerHTML = ''
+
+    if (records.length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'debug-overlay-storage-empty'
+      empty.textContent = `${area.label} is empty`
+      this._list.appendChild(empty)
+      return
+    }
+
+    records.forEach((record) => {
+      this._list!.appendChild(this._createRecordRow(area, record))
+    })
+  }
+
+  /**
+   * 항목 하나의 행을 생성합니다.
+   */
+  private _createRecordRow(
+    area: StorageArea,
+    record: StorageRecord
+  ): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'debug-overlay-storage-row'
+
+    const key = document.createElement('div')
+    key.className = 'debug-overlay-storage-key'
+    key.textContent = record.key
+    key.title = record.key
+
+    const value = document.createElement('div')
+    value.className = 'debug-overlay-storage-value'
+    value.appendChild(renderStorageValue(record.value))
+
+    const actions = document.createElement('div')
+    actions.className = 'debug-overlay-storage-actions'
+
+    const editButton = document.createElement('button')
+    editButton.className = 'debug-overlay-search-button'
+    editButton.textContent = 'Edit'
+    editButton.addEventListener('click', () => {
+      row.replaceWith(this._createEditor(area, record))
+    })
+
+    const deleteButton = document.createElement('button')
+    deleteButton.className = 'debug-overlay-search-button'
+    deleteButton.textContent = 'Delete'
+    deleteButton.addEventListener('click', () => {
+      this._runAction(area.remove(record), `Deleted ${record.key}`)
+    })
+
+    actions.appendChild(editButton)
+    actions.appendChild(deleteButton)
+
+    row.appendChild(key)
+    row.appendChild(value)
+    row.appendChild(actions)
+    return row
+  }
+
+  /**
+   * 목록 맨 위에 새 항목 입력 행을 표시합니다.
+   */
+  private _showAddRow(): void {
+    const area = this._areas.get(this._selectedArea)
+    if (!area || !this._list) return
+
+    this._list.querySelector('.debug-overlay-storage-row.editing.new')?.remove()
+    this._list.insertBefore(this._createEditor(area), this._list.firstChild)
+  }
+
+  /**
+   * 항목 편집 행을 생성합니다.
+   *
+   * @param area 저장소
+   * @param record 수정할 항목 (새 항목이면 생략)
+   */
+  private _createEditor(
+    area: StorageArea,
+    record?: StorageRecord
+  ): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'debug-overlay-storage-row editing'
+    if (!record) {
+      row.classList.add('new')
+    }
+
+    const keyInput = document.createElement('input')
+    keyInput.className = 'debug-overlay-search-input debug-overlay-storage-key'
+    keyInput.placeholder = 'Key'
+    keyInput.value = record?.key ?? ''
+    keyInput.disabled = record !== undefined
+
+    const valueInput = document.createElement('textarea')
+    valueInput.className =
+      'debug-overlay-search-input debug-overlay-storage-value'
+    valueInput.placeholder = 'Value'
+    valueInput.rows = 3
+    valueInput.spellcheck = false
+    valueInput.value = record ? toEditableText(record.value) : ''
+
+    const actions = document.createElement('div')
+    actions.className = 'debug-overlay-storage-actions'
+
+    const saveButton = document.createElement('button')
+    saveButton.className = 'debug-overlay-search-button'
+    saveButton.textContent = 'Save'
+    saveButton.addEventListener('click', () => {
+      const key = keyInput.value
+      if (!record && !key) {
+        keyInput.focus()
+        return
+      }
+      this._runAction(area.set(key, valueInput.value, record), `Saved ${key}`)
+    })
+
+    const cancelButton = document.createElement('button')
+    cancelButton.className = 'debug-overlay-search-button'
+    cancelButton.textContent = 'Cancel'
+    cancelButton.addEventListener('click', () => {
+      if (record) {
+        row.replaceWith(this._createRecordRow(area, record))
+      } else {
+        row.remove()
+      }
+      this._refreshIfDeferred()
+    })
+
+    actions.appendChild(saveButton)
+    actions.appendChild(cancelButton)
+
+    row.appendChild(keyInput)
+    row.appendChild(valueInput)
+    row.appendChild(actions)
+    return row
+  }
+
+  /**
+   * 저장/삭제 작업이 끝나면 목록을 다시 불러오고, 실패하면 상태 표시줄에 오류를 표시합니다.
+   */
+  private _runAction(action: Promise<void>, successMessage: string): void {
+    action
+      .then(() => {
+        this.refresh()
+        this._setStatus(successMessage)
+      })
+      .catch((error) => {
+        this._setStatus(describeError(error), true)
+      })
+  }
+
+  /**
+   * 툴바의 상태 메시지를 표시합니다.
+   */
+  private _setStatus(message: string, isError: boolean = false): void {
+    if (!this._status) return
+
+    this._status.textContent = message
+    this._status.classList.toggle('error', isError)
+  }
+}
+
+/**
+ * 항상 표시되는 저장소들(localStorage, sessionStorage, 쿠키)을 생성합니다.
+ * 접근이 막힌 저장소(샌드박스 iframe 등)는 생략합니다.
+ */
+function createBuiltInAreas(): Map<string, StorageArea> {
+  const areas = new Map<string, StorageArea>()
+
+  try {
+    areas.set(
+      'localStorage',
+      new WebStorageArea(window.localStorage, 'Local Storage')
+    )
+  } catch (error) {
+    // 접근할 수 없으면 선택 목록에서 제외합니다.
+  }
+
+  try {
+    areas.set(
+      'sessionStorage',
+      new WebStorageArea(window.sessionStorage, 'Session Storage')
+    )
+  } catch (error) {
+    // 접근할 수 없으면 선택 목록에서 제외합니다.
+  }
+
+  areas.set('cookie', new CookieStorageArea())
+  return areas
+}
+
+/**
+ * 저장소 값을 표시할 요소를 생성합니다.
+ * JSON 객체/배열로 해석되는 문자열은 JsonViewer로 표시합니다.
+ */
+function renderStorageValue(value: unknown): HTMLElement {
+  let displayValue = value
+
+  if (typeof value === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(value)
+      if (typeof parsed === 'object' && parsed !== null) {
+        displayValue = parsed
+      }
+    } catch (error) {
+      // JSON이 아니면 문자열 그대로 표시합니다.
+    }
+  }
+
+  if (typeof displayValue === 'object' && displayValue !== null) {
+    return new JsonViewer(2).render(displayValue)
+  }
+
+  const text = document.createElement('span')
+  text.className = 'debug-overlay-storage-text'
+  text.textContent =
+    typeof displayValue === 'string' ? displayValue : String(displayValue)
+  return text
+}
+
+/**
+ * 편집창에 넣을 값 문자열을 생성합니다. (문자열이 아닌 IndexedDB 값은 JSON)
+ */
+function toEditableText(value: unknown): string {
+  return typeof value === 'string' ? value : safeStringify(value, 2)
+}
+
+/**
+ * 오류를 상태 표시줄에 표시할 문자열로 변환합니다.
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,242 @@
+import type { OverlayPanel } from '../types/types.js'
+
+/**
+ * 시스템 정보 한 묶음 (제목과 항목 이름/값 목록)
+ */
+interface SystemInfoSection {
+  title: string
+  rows: [string, string][]
+}
+
+/**
+ * 표준 타입 정의에 없는 navigator.connection (Network Information API)
+ */
+interface NetworkInformation {
+  effectiveType?: string
+  downlink?: number
+  rtt?: number
+  saveData?: boolean
+}
+
+/**
+ * 표준 타입 정의에 없는 performance.memory (Chromium 전용)
+ */
+interface PerformanceMemory {
+  usedJSHeapSize: number
+  totalJSHeapSize: number
+  jsHeapSizeLimit: number
+}
+
+/**
+ * 시스템 정보 패널 클래스
+ *
+ * 단일 책임: 실행 환경(페이지, 화면, 네트워크, 성능) 정보를 모아 System 탭에 표시하는 책임만 가집니다.
+ * - 탭이 선택될 때마다 최신 정보로 다시 그림
+ * - Refresh 버튼으로 수동 갱신
+ */
+export class SystemPanel implements OverlayPanel {
+  public readonly id: string
+  public readonly label: string
+  private _content: HTMLDivElement | null
+
+  /**
+   * SystemPanel 인스턴스를 생성합니다.
+   */
+  constructor() {
+    this.id = 'system'
+    this.label = 'System'
+    this._content = null
+  }
+
+  /**
+   * 패널 내용을 그립니다.
+   *
+   * @param container 패널 컨테이너
+   */
+  public render(container: HTMLElement): void {
+    const toolbar = document.createElement('div')
+    toolbar.className = 'debug-overlay-panel-toolbar'
+
+    const refreshButton = document.createElement('button')
+    refreshButton.className = 'debug-overlay-button'
+    refreshButton.textContent = 'Refresh'
+    refreshButton.addEventListener('click', () => this.refresh())
+    toolbar.appendChild(refreshButton)
+
+    this._content = document.createElement('div')
+    this._content.className = 'debug-overlay-system'
+
+    container.appendChild(toolbar)
+    container.appendChild(this._content)
+    this.refresh()
+  }
+
+  /**
+   * 탭이 선택되면 최신 정보로 다시 그립니다.
+   */
+  public onShow(): void {
+    this.refresh()
+  }
+
+  /**
+   * 시스템 정보를 다시 수집해 그립니다.
+   */
+  public refresh(): void {
+    if (!this._content) return
+
+    this._content.innerHTML = ''
+    collectSystemInfo().forEach((section) => {
+      this._content!.appendChild(createSectionElement(section))
+    })
+  }
+
+  /**
+   * 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    this._content = null
+  }
+}
+
+/**
+ * 현재 실행 환경의 정보를 수집합니다.
+ * 브라우저가 지원하지 않는 API의 항목은 생략합니다.
+ */
+function collectSystemInfo(): SystemInfoSection[] {
+  const sections: SystemInfoSection[] = [
+    {
+      title: 'Page',
+      rows: [
+        ['URL', location.href],
+        ['Referrer', document.referrer || '-'],
+        ['Ready state', document.readyState],
+        ['Visibility', document.visibilityState],
+      ],
+    },
+    {
+      title: 'Browser',
+      rows: [
+        ['User agent', navigator.userAgent],
+        ['Platform', navigator.platform || '-'],
+        ['Languages', (navigator.languages ?? [navigator.language]).join(', ')],
+        ['Online', String(navigator.onLine)],
+        ['Cookies enabled', String(navigator.cookieEnabled)],
+        ['Touch points', String(navigator.maxTouchPoints ?? 0)],
+      ],
+    },
+    {
+      title: 'Screen',
+      rows: [
+        ['Viewport', `${window.innerWidth} × ${window.innerHeight}`],
+        ['Screen', `${screen.width} × ${screen.height}`],
+        ['Device pixel ratio', String(window.devicePixelRatio)],
+        ['Orientation', screen.orientation?.type ?? '-'],
+        [
+          'Color scheme',
+          window.matchMedia?.('(prefers-color-scheme: dark)').matches
+            ? 'dark'
+            : 'light',
+        ],
+      ],
+    },
+  ]
+
+  const connection = (
+    navigator as Navigator & { connection?: NetworkInformation }
+  ).connection
+  if (connection) {
+    sections.push({
+      title: 'Connection',
+      rows: [
+        ['Effective type', connection.effectiveType ?? '-'],
+        [
+          'Downlink',
+          connection.downlink !== undefined
+            ? `${connection.downlink} Mbps`
+            : '-',
+        ],
+        ['RTT', connection.rtt !== undefined ? `${connection.rtt} ms` : '-'],
+        ['Save data', String(connection.saveData ?? false)],
+      ],
+    })
+  }
+
+  sections.push({ title: 'Performance', rows: collectPerformanceRows() })
+
+  return sections
+}
+
+/**
+ * 페이지 로드 시간과 메모리 사용량 항목을 수집합니다.
+ */
+function collectPerformanceRows(): [string, string][] {
+  const rows: [string, string][] = []
+
+  const [navigation] = performance.getEntriesByType?.('navigation') ?? []
+  if (navigation) {
+    const timing = navigation as PerformanceNavigationTiming
+    rows.push(
+      ['DOMContentLoaded', formatDuration(timing.domContentLoadedEventEnd)],
+      ['Load', formatDuration(timing.loadEventEnd)]
+    )
+  }
+
+  rows.push(['Uptime', formatDuration(performance.now())])
+
+  const memory = (performance as Performance & { memory?: PerformanceMemory })
+    .memory
+  if (memory) {
+    rows.push(
+      ['JS heap used', formatBytes(memory.usedJSHeapSize)],
+      ['JS heap total', formatBytes(memory.totalJSHeapSize)],
+      ['JS heap limit', formatBytes(memory.jsHeapSizeLimit)]
+    )
+  }
+
+  return rows
+}
+
+/**
+ * 시스템 정보 묶음 하나의 요소를 생성합니다.
+ */
+function createSectionElement(section: SystemInfoSection): HTMLElement {
+  const element = document.createElement('section')
+  element.className = 'debug-overlay-system-section'
+
+  const title = document.createElement('h3')
+  title.className = 'debug-overlay-system-title'
+  title.textContent = section.title
+  element.appendChild(title)
+
+  const table = document.createElement('table')
+  table.className = 'debug-overlay-kv-table'
+  section.rows.forEach(([name, value]) => {
+    const row = table.insertRow()
+    const nameCell = row.insertCell()
+    nameCell.className = 'debug-overlay-kv-name'
+    nameCell.textContent = name
+    const valueCell = row.insertCell()
+    valueCell.className = 'debug-overlay-kv-value'
+    valueCell.textContent = value
+  })
+  element.appendChild(table)
+
+  return element
+}
+
+/**
+ * 밀리초 시간을 표시용 문자열로 변환합니다. (0 이하면 아직 발생하지 않은 것으로 봄)
+ */
+function formatDuration(milliseconds: number): string {
+  if (!(milliseconds > 0)) return '-'
+  return milliseconds < 1000
+    ? `${Math.round(milliseconds)} ms`
+    : `${(milliseconds / 1000).toFixed(2)} s`
+}
+
+/**
+ * 바이트 크기를 MB 단위 문자열로 변환합니다.
+ */
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
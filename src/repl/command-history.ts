@@ -0,0 +1,150 @@
+/**
+ * 명령 히스토리를 저장하는 localStorage 키
+ */
+const STORAGE_KEY = 'debug-overlay-repl-history'
+
+/**
+ * REPL 명령 히스토리 클래스
+ *
+ * 단일 책임: REPL에 입력된 명령을 기록하고 위/아래 화살표 탐색을 위한 커서를 관리하는 책임만 가집니다.
+ * - 명령 기록 및 연속 중복 제거
+ * - 최대 기록 수 제한
+ * - localStorage를 통한 페이지 새로고침 간 유지
+ */
+export class CommandHistory {
+  private _commands: string[]
+  private _maxSize: number
+  private _cursor: number
+  private _draft: string
+
+  /**
+   * CommandHistory 인스턴스를 생성합니다.
+   * 이전에 저장된 히스토리가 있으면 불러옵니다.
+   *
+   * @param maxSize 최대 기록 수 (기본값: 100)
+   */
+  constructor(maxSize: number = 100) {
+    this._maxSize = maxSize
+    this._commands = this._load()
+    this._cursor = this._commands.length
+    this._draft = ''
+  }
+
+  /**
+   * 실행한 명령을 히스토리에 추가하고 커서를 끝으로 되돌립니다.
+   *
+   * @param command 실행한 명령
+   */
+  public push(command: string): void {
+    const trimmed = command.trim()
+
+    if (trimmed && this._commands[this._commands.length - 1] !== trimmed) {
+      this._commands.push(trimmed)
+
+      if (this._commands.length > this._maxSize) {
+        this._commands = this._commands.slice(-this._maxSize)
+      }
+
+      this._save()
+    }
+
+    this.resetCursor()
+  }
+
+  /**
+   * 이전 명령으로 이동합니다.
+   *
+   * @param currentInput 현재 입력창의 내용 (히스토리 끝에서 벗어날 때 보관됩니다)
+   * @returns 이전 명령 또는 더 이상 없으면 null
+   */
+  public previous(currentInput: string): string | null {
+    if (this._cursor === 0) {
+      return null
+    }
+
+    if (this._cursor === this._commands.length) {
+      this._draft = currentInput
+    }
+
+    this._cursor--
+    return this._commands[this._cursor] ?? null
+  }
+
+  /**
+   * 다음 명령으로 이동합니다.
+   * 히스토리 끝을 지나면 작성 중이던 입력을 돌려줍니다.
+   *
+   * @returns 다음 명령 또는 더 이상 없으면 null
+   */
+  public next(): string | null {
+    if (this._cursor >= this._commands.length) {
+      return null
+    }
+
+    this._cursor++
+
+    if (this._cursor === this._commands.length) {
+      return this._draft
+    }
+
+    return this._commands[this._cursor] ?? null
+  }
+
+  /**
+   * 커서를 히스토리 끝으로 되돌립니다.
+   */
+  public resetCursor(): void {
+    this._cursor = this._commands.length
+    this._draft = ''
+  }
+
+  /**
+   * 저장된 모든 명령을 반환합니다.
+   *
+   * @returns 명령 목록의 복사본 (오래된 순)
+   */
+  public getAll(): string[] {
+    return [...this._commands]
+  }
+
+  /**
+   * 히스토리를 모두 삭제합니다.
+   */
+  public clear(): void {
+    this._commands = []
+    this.resetCursor()
+    this._save()
+  }
+
+  /**
+   * localStorage에서 히스토리를 불러옵니다.
+   */
+  private _load(): string[] {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY)
+      const parsed: unknown = raw ? JSON.parse(raw) : []
+
+      if (!Array.isArray(parsed)) {
+        return []
+      }
+
+      return parsed
+        .filter((item): item is string => typeof item === 'string')
+        .slice(-this._maxSize)
+    } catch (error) {
+      return []
+    }
+  }
+
+  /**
+   * localStorage에 히스토리를 저장합니다.
+   * 저장소를 사용할 수 없는 환경(시크릿 모드 등)에서는 조용히 무시합니다.
+   */
+  private _save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this._commands))
+    } catch (error) {
+      // 저장소를 사용할 수 없으면 메모리에만 유지합니다.
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { LogLevel } from '../types/types.js'
+import type { LogEntry, LogSource } from '../types/types.js'
+
+/**
+ * REPL 평가기 클래스
+ *
+ * - 입력된 명령을 페이지 전역 스코프에서 평가
+ * - 입력 명령과 평가 결과를 LogEntry 형태로 변환
+ * - 평가 중 발생한 예외를 스택과 함께 ERROR 항목으로 변환
+ * - Promise 결과는 완료된 값을 추가 항목으로 전달
+ */
+export class ReplEvaluator {
+  private _callbacks: Set<(entry: LogEntry) => void>
+
+  /**
+   * ReplEvaluator 인스턴스를 생성합니다.
+   */
+  constructor() {
+    this._callbacks = new Set()
+  }
+
+  /**
+   * 명령을 평가하고 입력/결과 항목을 콜백들에게 전달합니다.
+   *
+   * @param code 평가할 JavaScript 코드
+   */
+  public evaluate(code: string): void {
+    if (!code.trim()) {
+      return
+    }
+
+    this._emit(LogLevel.LOG, 'repl-input', [code])
+
+    let result: unknown
+    try {
+      result = this._evaluateInGlobalScope(code)
+    } catch (error) {
+      this._emitError(error)
+      return
+    }
+
+    if (this._isThenable(result)) {
+      this._emit(LogLevel.LOG, 'repl-result', ['Promise {<pending>}'])
+      result.then(
+        (value) => this._emit(LogLevel.LOG, 'repl-result', [value]),
+        (error: unknown) => this._emitError(error)
+      )
+      return
+    }
+
+    this._emit(LogLevel.LOG, 'repl-result', [result])
+  }
+
+  /**
+   * 평가 결과 콜백을 등록합니다.
+   */
+  public addCallback(callback: (entry: LogEntry) => void): void {
+    this._callbacks.add(callback)
+  }
+
+  /**
+   * 평가 결과 콜백을 제거합니다.
+   */
+  public removeCallback(callback: (entry: LogEntry) => void): void {
+    this._callbacks.delete(callback)
+  }
+
+  /**
+   * 모든 콜백을 제거합니다.
+   */
+  public removeAllCallbacks(): void {
+    this._callbacks.clear()
+  }
+
+  /**
+   * 평가기를 정리합니다.
+   */
+  public destroy(): void {
+    this.removeAllCallbacks()
+  }
+
+  /**
+   * 간접 eval로 코드를 전역 스코프에서 평가합니다.
+   * 브라우저 콘솔처럼 `{`로 시작하는 입력은 객체 리터럴로 먼저 해석을 시도합니다.
+   */
+  private _evaluateInGlobalScope(code: string): unknown {
+    const globalEval = window.eval
+
+    if (/^\s*\{/.test(code) && !/;\s*$/.test(code)) {
+      try {
+        return globalEval(`(${code})`)
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) {
+          throw error
+        }
+      }
+    }
+
+    return globalEval(code)
+  }
+
+  /**
+   * 평가 중 발생한 예외를 ERROR 항목으로 전달합니다.
+   */
+  private _emitError(error: unknown): void {
+    if (error instanceof Error) {
+      this._emit(
+        LogLevel.ERROR,
+        'repl-result',
+        [`Uncaught ${error.name}: ${error.message}`],
+        error.stack
+      )
+    } else {
+      this._emit(LogLevel.ERROR, 'repl-result', ['Uncaught', error])
+    }
+  }
+
+  /**
+   * 값이 thenable인지 확인합니다.
+   */
+  private _isThenable(value: unknown): value is PromiseLike<unknown> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as PromiseLike<unknown>).then === 'function'
+    )
+  }
+
+  /**
+   * LogEntry를 생성하여 모든 콜백에게 전달합니다.
+   */
+  private _emit(
+    level: LogLevel,
+    source: LogSource,
+    args: unknown[],
+    stack?: string
+  ): void {
+    const entry: LogEntry = {
+      id: this._generateId(),
+      level,
+      args,
+      timestamp: new Date(),
+      source,
+      ...(stack && { stack }),
+    }
+
+    this._callbacks.forEach((callback) => {
+      try {
+        callback(entry)
+      } catch (error) {
+        console.error('REPL 콜백 실행 중 오류:', error)
+      }
+    })
+  }
+
+  /**
+   * 고유 ID를 생성합니다.
+   */
+  private _generateId(): string {
+    const timestamp = Date.now().toString(36)
+    const random = Math.random().toString(36).substring(2)
+    return `repl_${timestamp}_${random}`
+  }
+}
@@ -0,0 +1,243 @@
+import type { LogEntry } from '../types/types.js'
+
+/**
+ * 재생 중 두 항목 사이에서 기다리는 최대 시간 (밀리초)
+ * 기록이 오래 멈춰 있던 구간에서 재생이 멈춘 것처럼 보이지 않도록 합니다.
+ */
+const MAX_REPLAY_DELAY = 5000
+
+/**
+ * 로그 재생 클래스
+ *
+ * 단일 책임: 로그 항목들을 기록된 시간 간격대로 하나씩 콜백에 전달하는 책임만 가집니다.
+ * - 재생 속도 배율 조절 (재생 중에도 변경 가능)
+ * - 일시 정지 / 다시 재생 / 중지
+ */
+export class LogReplayer {
+  private _callbacks: Set<(entry: LogEntry) => void>
+  private _completeCallbacks: Set<() => void>
+  private _entries: LogEntry[]
+  private _index: number
+  private _speed: number
+  private _timer: ReturnType<typeof setTimeout> | null
+  private _isPlaying: boolean
+  private _isPaused: boolean
+
+  /**
+   * LogReplayer 인스턴스를 생성합니다.
+   */
+  constructor() {
+    this._callbacks = new Set()
+    this._completeCallbacks = new Set()
+    this._entries = []
+    this._index = 0
+    this._speed = 1
+    this._timer = null
+    this._isPlaying = false
+    this._isPaused = false
+  }
+
+  /**
+   * 로그 항목들의 재생을 시작합니다.
+   * 이미 재생 중이면 이전 재생을 중지하고 새로 시작합니다.
+   *
+   * @param entries 재생할 로그 항목들 (오래된 순)
+   * @param speed 재생 속도 배율 (기본값: 1)
+   */
+  public play(entries: LogEntry[], speed: number = 1): void {
+    this.stop()
+    this.setSpeed(speed)
+
+    this._entries = [...entries]
+    this._index = 0
+    this._isPlaying = true
+    this._scheduleNext(0)
+  }
+
+  /**
+   * 재생을 일시 정지합니다.
+   */
+  public pause(): void {
+    if (!this.isPlaying()) {
+      return
+    }
+
+    this._clearTimer()
+    this._isPlaying = false
+    this._isPaused = true
+  }
+
+  /**
+   * 일시 정지한 재생을 이어서 시작합니다.
+   */
+  public resume(): void {
+    if (!this._isPaused) {
+      return
+    }
+
+    this._isPaused = false
+    this._isPlaying = true
+    this._scheduleNext(0)
+  }
+
+  /**
+   * 재생을 중지하고 남은 항목을 버립니다.
+   */
+  public stop(): void {
+    this._clearTimer()
+    this._entries = []
+    this._index = 0
+    this._isPlaying = false
+    this._isPaused = false
+  }
+
+  /**
+   * 재생 속도 배율을 변경합니다. 다음 항목부터 적용됩니다.
+   *
+   * @param speed 재생 속도 배율 (0보다 커야 함)
+   */
+  public setSpeed(speed: number): void {
+    if (!(speed > 0) || !Number.isFinite(speed)) {
+      throw new Error(`재생 속도는 0보다 큰 수여야 합니다: ${speed}`)
+    }
+
+    this._speed = speed
+  }
+
+  /**
+   * 현재 재생 속도 배율을 반환합니다.
+   */
+  public getSpeed(): number {
+    return this._speed
+  }
+
+  /**
+   * 재생 중인지 확인합니다. (일시 정지 상태는 제외)
+   * 항목 재생 콜백 안에서도 재생 중으로 봅니다.
+   *
+   * @returns 재생 중이면 true
+   */
+  public isPlaying(): boolean {
+    return this._isPlaying
+  }
+
+  /**
+   * 일시 정지 상태인지 확인합니다.
+   *
+   * @returns 일시 정지 상태이면 true
+   */
+  public isPaused(): boolean {
+    return this._isPaused
+  }
+
+  /**
+   * 재생 진행 상황을 반환합니다.
+   *
+   * @returns 전달한 항목 수와 전체 항목 수
+   */
+  public getProgress(): { played: number; total: number } {
+    return { played: this._index, total: this._entries.length }
+  }
+
+  /**
+   * 항목이 재생될 때 호출될 콜백을 등록합니다.
+   */
+  public addCallback(callback: (entry: LogEntry) => void): void {
+    this._callbacks.add(callback)
+  }
+
+  /**
+   * 항목 재생 콜백을 제거합니다.
+   */
+  public removeCallback(callback: (entry: LogEntry) => void): void {
+    this._callbacks.delete(callback)
+  }
+
+  /**
+   * 모든 항목을 재생했을 때 호출될 콜백을 등록합니다.
+   */
+  public onComplete(callback: () => void): void {
+    this._completeCallbacks.add(callback)
+  }
+
+  /**
+   * 모든 콜백을 제거합니다.
+   */
+  public removeAllCallbacks(): void {
+    this._callbacks.clear()
+    this._completeCallbacks.clear()
+  }
+
+  /**
+   * 재생을 중지하고 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    this.stop()
+    this.removeAllCallbacks()
+  }
+
+  /**
+   * 다음 항목의 재생을 예약합니다.
+   *
+   * @param delay 기다릴 시간 (밀리초)
+   */
+  private _scheduleNext(delay: number): void {
+    if (this._index >= this._entries.length) {
+      const hasEntries = this._entries.length > 0
+      this.stop()
+      if (hasEntries) {
+        this._completeCallbacks.forEach((callback) => {
+          try {
+            callback()
+          } catch (error) {
+            console.error('로그 재생 완료 콜백 실행 중 오류:', error)
+          }
+        })
+      }
+      return
+    }
+
+    this._timer = setTimeout(() => {
+      this._timer = null
+      this._playCurrent()
+    }, delay)
+  }
+
+  /**
+   * 현재 항목을 콜백들에게 전달하고, 다음 항목까지의 간격만큼 기다립니다.
+   */
+  private _playCurrent(): void {
+    const entry = this._entries[this._index]
+    const next = this._entries[this._index + 1]
+    if (!entry) return
+
+    this._index++
+    this._callbacks.forEach((callback) => {
+      try {
+        callback(entry)
+      } catch (error) {
+        console.error('로그 재생 콜백 실행 중 오류:', error)
+      }
+    })
+
+    // 콜백 안에서 stop()이나 pause()가 호출되었거나, play()로 새 재생이 이미 예약되었으면 이어서 예약하지 않습니다.
+    if (!this._isPlaying || this._timer !== null) {
+      return
+    }
+
+    const gap = next
+      ? Math.max(0, next.timestamp.getTime() - entry.timestamp.getTime())
+      : 0
+    this._scheduleNext(Math.min(gap, MAX_REPLAY_DELAY) / this._speed)
+  }
+
+  /**
+   * 예약된 재생 타이머를 해제합니다.
+   */
+  private _clearTimer(): void {
+    if (this._timer !== null) {
+      clearTimeout(this._timer)
+      this._timer = null
+    }
+  }
+}
@@ -0,0 +1,452 @@
+import type { SourceMapOptions } from '../types/types.js'
+
+/**
+ * 스택 트레이스 한 줄에서 `스크립트URL:줄:열` 위치를 찾는 정규식
+ * Chrome(`at fn (url:1:2)`, `at url:1:2`)과 Firefox/Safari(`fn@url:1:2`) 형식을 모두 다룹니다.
+ */
+const FRAME_LOCATION_PATTERN =
+  /((?:https?|file):\/\/[^\s()]+?):(\d+):(\d+)(?=\)|\s|$)/
+
+/**
+ * 스크립트 본문의 sourceMappingURL 주석을 찾는 정규식
+ */
+const SOURCE_MAPPING_URL_PATTERN = /\/[/*][#@]\s*sourceMappingURL=([^\s'"*]+)/
+
+/**
+ * VLQ 디코딩에 사용하는 Base64 문자 목록
+ */
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * 디코딩된 매핑 세그먼트 (줄/열은 모두 0부터 시작)
+ */
+interface MappingSegment {
+  generatedColumn: number
+  sourceIndex?: number
+  originalLine?: number
+  originalColumn?: number
+}
+
+/**
+ * 파싱된 소스 맵
+ */
+interface ParsedSourceMap {
+  /** 절대 URL로 변환된 원본 파일 목록 */
+  sources: string[]
+  /** 생성된 코드의 줄별 매핑 세그먼트 (열 순서로 정렬됨) */
+  lines: MappingSegment[][]
+}
+
+/**
+ * 원본 소스 위치 (줄/열은 1부터 시작)
+ */
+interface OriginalPosition {
+  source: string
+  line: number
+  column: number
+}
+
+/**
+ * 소스 맵 변환 클래스
+ *
+ * 단일 책임: 번들(압축된) 스크립트의 스택 트레이스 위치를 소스 맵으로 원본 파일:줄:열로 바꾸는 책임만 가집니다.
+ * - .map 파일 탐색 (기본 URL 또는 같은 출처 스크립트의 sourceMappingURL 주석)
+ * - 스크립트별 소스 맵 캐시
+ * - VLQ 매핑 디코딩과 위치 조회
+ */
+export class SourceMapResolver {
+  private _options: SourceMapOptions
+  private _fetch: typeof fetch | null
+  private _cache: Map<string, Promise<ParsedSourceMap | null>>
+
+  /**
+   * SourceMapResolver 인스턴스를 생성합니다.
+   * NetworkInterceptor가 fetch를 가로채기 전에 생성하면 .map 요청이 Network 탭에 표시되지 않습니다.
+   *
+   * @param options 소스 맵 변환 설정
+   */
+  constructor(options: SourceMapOptions = {}) {
+    this._options = { ...options }
+    this._fetch =
+      typeof window !== 'undefined' && typeof window.fetch === 'function'
+        ? window.fetch.bind(window)
+        : null
+    this._cache = new Map()
+  }
+
+  /**
+   * 스택 트레이스의 각 위치를 원본 파일:줄:열로 바꿉니다.
+   * 소스 맵을 찾지 못했거나 매핑이 없는 위치는 그대로 둡니다.
+   *
+   * @param stack 스택 트레이스 문자열
+   * @returns 변환된 스택 트레이스 (실패하지 않으며, 바뀐 위치가 없으면 원래 문자열)
+   */
+  public async resolveStack(stack: string): Promise<string> {
+    const lines = await Promise.all(
+      stack.split('\n').map((line) => this._resolveLine(line))
+    )
+    return lines.join('\n')
+  }
+
+  /**
+   * 캐시된 소스 맵을 모두 버립니다.
+   * 스크립트가 다시 배포된 경우처럼 .map 파일이 바뀌었을 때 사용합니다.
+   */
+  public clearCache(): void {
+    this._cache.clear()
+  }
+
+  /**
+   * 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    this.clearCache()
+  }
+
+  /**
+   * 스택 트레이스 한 줄의 위치들을 변환합니다.
+   */
+  private async _resolveLine(line: string): Promise<string> {
+    const matches: RegExpExecArray[] = []
+    const pattern = new RegExp(FRAME_LOCATION_PATTERN.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(line)) !== null) {
+      matches.push(match)
+    }
+
+    if (matches.length === 0) {
+      return line
+    }
+
+    const positions = await Promise.all(
+      matches.map(([, url, lineNumber, columnNumber]) =>
+        this._findOriginalPosition(
+          url ?? '',
+          Number(lineNumber),
+          Number(columnNumber)
+        )
+      )
+    )
+
+    // 뒤쪽 위치부터 바꿔야 앞쪽 위치의 인덱스가 어긋나지 않습니다.
+    let resolved = line
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const position = positions[i]
+      const current = matches[i]
+      if (!position || !current) continue
+
+      resolved =
+        resolved.slice(0, current.index) +
+        `${position.source}:${position.line}:${position.column}` +
+        resolved.slice(current.index + current[0].length)
+    }
+    return resolved
+  }
+
+  /**
+   * 번들 스크립트의 위치에 해당하는 원본 위치를 찾습니다.
+   *
+   * @returns 원본 위치 (소스 맵이나 매핑이 없으면 null)
+   */
+  private async _findOriginalPosition(
+    scriptUrl: string,
+    line: number,
+    column: number
+  ): Promise<OriginalPosition | null> {
+    const sourceMap = await this._getSourceMap(scriptUrl)
+    const segments = sourceMap?.lines[line - 1]
+    if (!sourceMap || !segments) {
+      return null
+    }
+
+    const segment = findSegment(segments, column - 1)
+    if (
+      !segment ||
+      segment.sourceIndex === undefined ||
+      segment.originalLine === undefined ||
+      segment.originalColumn === undefined
+    ) {
+      return null
+    }
+
+    const source = sourceMap.sources[segment.sourceIndex]
+    if (source === undefined) {
+      return null
+    }
+
+    return {
+      source,
+      line: segment.originalLine + 1,
+      column: segment.originalColumn + 1,
+    }
+  }
+
+  /**
+   * 스크립트의 소스 맵을 가져옵니다. 같은 스크립트는 한 번만 요청합니다.
+   */
+  private _getSourceMap(scriptUrl: string): Promise<ParsedSourceMap | null> {
+    let sourceMap = this._cache.get(scriptUrl)
+    if (!sourceMap) {
+      sourceMap = this._loadSourceMap(scriptUrl).catch(() => null)
+      this._cache.set(scriptUrl, sourceMap)
+    }
+    return sourceMap
+  }
+
+  /**
+   * 스크립트의 소스 맵을 찾아 가져오고 파싱합니다.
+   * 실패하면 콘솔에 기록하지 않고 null을 반환합니다. (콘솔 기록이 다시 변환 요청을 만들지 않도록)
+   */
+  private async _loadSourceMap(
+    scriptUrl: string
+  ): Promise<ParsedSourceMap | null> {
+    const mapUrl = await this._findSourceMapUrl(scriptUrl)
+    if (!mapUrl) {
+      return null
+    }
+
+    const isDataUrl = mapUrl.startsWith('data:')
+    const text = isDataUrl
+      ? decodeDataUrl(mapUrl)
+      : await this._fetchText(mapUrl).then((result) => result.text)
+
+    return parseSourceMap(JSON.parse(text), isDataUrl ? scriptUrl : mapUrl)
+  }
+
+  /**
+   * 스크립트의 소스 맵 URL을 결정합니다.
+   * - baseUrl이 있으면 `${baseUrl}/${스크립트 파일 이름}.map`
+   * - 없으면 같은 출처의 스크립트만: SourceMap 헤더, sourceMappingURL 주석, `${스크립트 URL}.map` 순서
+   *
+   * @returns 소스 맵 URL (찾을 수 없으면 null)
+   */
+  private async _findSourceMapUrl(scriptUrl: string): Promise<string | null> {
+    const script = new URL(scriptUrl)
+    const scriptPath = `${script.origin}${script.pathname}`
+
+    if (this._options.baseUrl) {
+      const filename = script.pathname.split('/').pop()
+      if (!filename) {
+        return null
+      }
+      const baseUrl = this._options.baseUrl.replace(/\/?$/, '/')
+      return new URL(`${filename}.map`, new URL(baseUrl, getLocationHref()))
+        .href
+    }
+
+    if (!isSameOrigin(script)) {
+      return null
+    }
+
+    const { text, headers } = await this._fetchText(scriptUrl)
+    const header = headers.get('SourceMap') ?? headers.get('X-SourceMap')
+    if (header) {
+      return new URL(header, scriptUrl).href
+    }
+
+    let comment: string | undefined
+    const pattern = new RegExp(SOURCE_MAPPING_URL_PATTERN.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      // 번들 안에 다른 모듈의 주석이 남아 있을 수 있으므로 마지막 주석을 사용합니다.
+      comment = match[1]
+    }
+
+    return comment ? new URL(comment, scriptUrl).href : `${scriptPath}.map`
+  }
+
+  /**
+   * URL의 내용을 문자열로 가져옵니다.
+   *
+   * @throws fetch를 사용할 수 없거나 응답이 실패한 경우
+   */
+  private async _fetchText(
+    url: string
+  ): Promise<{ text: string; headers: Headers }> {
+    if (!this._fetch) {
+      throw new Error('fetch를 사용할 수 없습니다.')
+    }
+
+    const response = await this._fetch(url, { credentials: 'same-origin' })
+    if (!response.ok) {
+      throw new Error(`소스 맵 요청 실패: ${response.status} ${url}`)
+    }
+
+    return { text: await response.text(), headers: response.headers }
+  }
+}
+
+/**
+ * 소스 맵 JSON을 파싱합니다.
+ *
+ * @param raw JSON.parse한 소스 맵
+ * @param mapUrl 상대 경로의 원본 파일을 해석할 기준 URL
+ * @throws 지원하지 않는 소스 맵 형식인 경우 (인덱스 맵 등)
+ */
+function parseSourceMap(raw: unknown, mapUrl: string): ParsedSourceMap {
+  const map = raw as {
+    sources?: unknown
+    sourceRoot?: unknown
+    mappings?: unknown
+  }
+
+  if (
+    typeof map !== 'object' ||
+    map === null ||
+    !Array.isArray(map.sources) ||
+    typeof map.mappings !== 'string'
+  ) {
+    throw new Error('지원하지 않는 소스 맵 형식입니다.')
+  }
+
+  const sourceRoot =
+    typeof map.sourceRoot === 'string' && map.sourceRoot
+      ? map.sourceRoot.replace(/\/?$/, '/')
+      : ''
+
+  return {
+    sources: map.sources.map((source) =>
+      resolveSourceUrl(`${sourceRoot}${String(source)}`, mapUrl)
+    ),
+    lines: decodeMappings(map.mappings),
+  }
+}
+
+/**
+ * 원본 파일 경로를 소스 맵 URL 기준의 절대 URL로 바꿉니다.
+ * `webpack://`처럼 이미 스킴이 있는 경로는 그대로 둡니다.
+ */
+function resolveSourceUrl(source: string, mapUrl: string): string {
+  try {
+    return new URL(source, mapUrl).href
+  } catch (error) {
+    return source
+  }
+}
+
+/**
+ * 소스 맵의 mappings 문자열을 줄별 세그먼트 목록으로 디코딩합니다.
+ */
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = []
+  let sourceIndex = 0
+  let originalLine = 0
+  let originalColumn = 0
+
+  mappings.split(';').forEach((line) => {
+    const segments: MappingSegment[] = []
+    let generatedColumn = 0
+
+    line.split(',').forEach((segment) => {
+      if (!segment) return
+
+      const values = decodeVlq(segment)
+      generatedColumn += values[0] ?? 0
+
+      if (values.length >= 4) {
+        sourceIndex += values[1] ?? 0
+        originalLine += values[2] ?? 0
+        originalColumn += values[3] ?? 0
+        segments.push({
+          generatedColumn,
+          sourceIndex,
+          originalLine,
+          originalColumn,
+        })
+      } else {
+        segments.push({ generatedColumn })
+      }
+    })
+
+    lines.push(segments.sort((a, b) => a.generatedColumn - b.generatedColumn))
+  })
+
+  return lines
+}
+
+/**
+ * Base64 VLQ로 인코딩된 세그먼트를 숫자 목록으로 디코딩합니다.
+ *
+ * @throws Base64 문자가 아닌 문자가 있는 경우
+ */
+function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64_CHARS.indexOf(char)
+    if (digit < 0) {
+      throw new Error(`잘못된 VLQ 문자입니다: ${char}`)
+    }
+
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+    } else {
+      const negative = value & 1
+      value >>>= 1
+      values.push(negative ? -value : value)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+/**
+ * 생성된 코드의 열에 해당하는 세그먼트를 찾습니다. (열 이하인 마지막 세그먼트)
+ */
+function findSegment(
+  segments: MappingSegment[],
+  column: number
+): MappingSegment | null {
+  let low = 0
+  let high = segments.length - 1
+  let found: MappingSegment | null = null
+
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const segment = segments[middle]!
+    if (segment.generatedColumn <= column) {
+      found = segment
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return found
+}
+
+/**
+ * data: URL의 내용을 문자열로 디코딩합니다.
+ */
+function decodeDataUrl(dataUrl: string): string {
+  const commaIndex = dataUrl.indexOf(',')
+  const meta = dataUrl.slice(0, commaIndex)
+  const data = dataUrl.slice(commaIndex + 1)
+
+  if (!meta.endsWith(';base64')) {
+    return decodeURIComponent(data)
+  }
+
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * 현재 페이지와 같은 출처의 URL인지 확인합니다.
+ */
+function isSameOrigin(url: URL): boolean {
+  return typeof location !== 'undefined' && url.origin === location.origin
+}
+
+/**
+ * 현재 페이지 주소를 반환합니다.
+ */
+function getLocationHref(): string {
+  return typeof location !== 'undefined' ? location.href : ''
+}
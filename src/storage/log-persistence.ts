@@ -0,0 +1,634 @@
+import type {
+  LogEntry,
+  PersistenceOptions,
+  SnapshotValue,
+} from '../types/types.js'
+import { createSnapshot } from '../utils/serializer.js'
+
+/**
+ * 저장소에 기록되는 로그 항목 형태
+ * args는 serializer의 스냅샷으로 변환되어 저장되고, 시간은 밀리초 숫자로 저장됩니다.
+ * (이미 스냅샷인 인자는 그대로 저장)
+ */
+interface PersistedLogEntry {
+  id: string
+  sessionId: string
+  level: LogEntry['level']
+  args: SnapshotValue[]
+  timestamp: number
+  stack?: string
+  originalStack?: string
+  source?: LogEntry['source']
+  type?: LogEntry['type']
+  groupPath?: string[]
+  collapsed?: boolean
+  repeatCount?: number
+  lastTimestamp?: number
+  channel?: string
+}
+
+/**
+ * 저장소에 기록되는 세션 정보
+ */
+interface PersistedSession {
+  id: string
+  startedAt: number
+}
+
+/**
+ * 로그 영구 저장 백엔드 인터페이스
+ */
+interface LogPersistenceBackend {
+  /** 저장된 모든 세션 정보를 반환합니다. */
+  loadSessions(): Promise<PersistedSession[]>
+  /** 세션의 로그 항목들을 오래된 순으로 반환합니다. */
+  loadEntries(sessionId: string): Promise<PersistedLogEntry[]>
+  /** 세션 정보를 기록합니다. */
+  saveSession(session: PersistedSession): Promise<void>
+  /**
+   * 로그 항목들을 추가하고(같은 ID의 항목이 있으면 교체),
+   * 세션의 항목 수가 최대값을 넘으면 오래된 항목을 제거합니다.
+   */
+  putEntries(
+    sessionId: string,
+    entries: PersistedLogEntry[],
+    maxEntries: number
+  ): Promise<void>
+  /** 세션과 그 로그 항목들을 삭제합니다. */
+  deleteSession(sessionId: string): Promise<void>
+  /** 미뤄 둔 기록이 있으면 즉시 기록합니다. */
+  flushWrites(): void
+  /** 백엔드 리소스를 정리합니다. (미뤄 둔 기록은 먼저 기록) */
+  close(): void
+}
+
+/**
+ * 저장 요청을 모아서 기록하는 지연 시간 (밀리초)
+ */
+const FLUSH_DELAY = 100
+
+/**
+ * IndexedDB 스키마 버전
+ * 2: 세션 안에서 오래된 순으로 항목을 훑기 위한 [sessionId, timestamp] 인덱스 추가
+ */
+const DATABASE_VERSION = 2
+
+/**
+ * localStorage에 세션 로그를 다시 기록하는 최소 간격 (밀리초)
+ * 기록할 때마다 세션의 전체 배열을 직렬화하므로 여러 flush를 모아서 기록합니다.
+ */
+const LOCAL_STORAGE_WRITE_INTERVAL = 1000
+
+/**
+ * IndexedDB 요청을 Promise로 감쌉니다.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * IndexedDB 트랜잭션 완료를 Promise로 감쌉니다.
+ */
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * sessionTimestamp 인덱스에서 한 세션의 항목 전체를 가리키는 범위를 만듭니다.
+ */
+function sessionKeyRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity])
+}
+
+/**
+ * IndexedDB 기반 백엔드
+ */
+class IndexedDbBackend implements LogPersistenceBackend {
+  private _database: Promise<IDBDatabase>
+
+  constructor(name: string) {
+    this._database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DATABASE_VERSION)
+
+      request.onupgradeneeded = (event) => {
+        const database = request.result
+        let entries: IDBObjectStore
+        if (event.oldVersion < 1) {
+          database.createObjectStore('sessions', { keyPath: 'id' })
+          entries = database.createObjectStore('entries', { keyPath: 'id' })
+          entries.createIndex('sessionId', 'sessionId')
+        } else {
+          entries = request.transaction!.objectStore('entries')
+        }
+        if (event.oldVersion < 2) {
+          entries.createIndex('sessionTimestamp', ['sessionId', 'timestamp'])
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  /**
+   * 데이터베이스를 열 수 있는지 확인합니다.
+   */
+  public ready(): Promise<void> {
+    return this._database.then(() => undefined)
+  }
+
+  public async loadSessions(): Promise<PersistedSession[]> {
+    const database = await this._database
+    const store = database.transaction('sessions').objectStore('sessions')
+    return promisifyRequest(store.getAll() as IDBRequest<PersistedSession[]>)
+  }
+
+  public async loadEntries(sessionId: string): Promise<PersistedLogEntry[]> {
+    const database = await this._database
+    const index = database
+      .transaction('entries')
+      .objectStore('entries')
+      .index('sessionTimestamp')
+    return promisifyRequest(
+      index.getAll(sessionKeyRange(sessionId)) as IDBRequest<
+        PersistedLogEntry[]
+      >
+    )
+  }
+
+  public async saveSession(session: PersistedSession): Promise<void> {
+    const database = await this._database
+    const transaction = database.transaction('sessions', 'readwrite')
+    transaction.objectStore('sessions').put(session)
+    return promisifyTransaction(transaction)
+  }
+
+  public async putEntries(
+    sessionId: string,
+    entries: PersistedLogEntry[],
+    maxEntries: number
+  ): Promise<void> {
+    const database = await this._database
+    const transaction = database.transaction('entries', 'readwrite')
+    const store = transaction.objectStore('entries')
+
+    entries.forEach((entry) => store.put(entry))
+
+    const countRequest = store.index('sessionId').count(sessionId)
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - maxEntries
+      if (excess <= 0) return
+
+      // 세션 항목을 읽어 정렬하지 않고, 타임스탬프 인덱스를 오래된 순으로 훑으며 넘친 수만큼 삭제합니다.
+      const cursorRequest = store
+        .index('sessionTimestamp')
+        .openKeyCursor(sessionKeyRange(sessionId))
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (cursor && excess-- > 0) {
+          store.delete(cursor.primaryKey)
+          cursor.continue()
+        }
+      }
+    }
+
+    return promisifyTransaction(transaction)
+  }
+
+  public async deleteSession(sessionId: string): Promise<void> {
+    const database = await this._database
+    const transaction = database.transaction(
+      ['sessions', 'entries'],
+      'readwrite'
+    )
+    transaction.objectStore('sessions').delete(sessionId)
+
+    const cursorRequest = transaction
+      .objectStore('entries')
+      .index('sessionId')
+      .openKeyCursor(IDBKeyRange.only(sessionId))
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (cursor) {
+        transaction.objectStore('entries').delete(cursor.primaryKey)
+        cursor.continue()
+      }
+    }
+
+    return promisifyTransaction(transaction)
+  }
+
+  public flushWrites(): void {}
+
+  public close(): void {
+    this._database.then(
+      (database) => database.close(),
+      () => undefined
+    )
+  }
+}
+
+/**
+ * localStorage 기반 백엔드
+ * IndexedDB를 사용할 수 없는 WebView를 위한 대체 수단입니다.
+ * 세션 로그는 메모리에 모아 두었다가 일정 간격으로만 기록합니다.
+ */
+class LocalStorageBackend implements LogPersistenceBackend {
+  private _prefix: string
+  private _unwritten: Map<string, PersistedLogEntry[]>
+  private _writeTimer: ReturnType<typeof setTimeout> | null
+
+  constructor(prefix: string) {
+    this._prefix = prefix
+    this._unwritten = new Map()
+    this._writeTimer = null
+  }
+
+  public async loadSessions(): Promise<PersistedSession[]> {
+    return this._read<PersistedSession[]>(`${this._prefix}:sessions`) ?? []
+  }
+
+  public async loadEntries(sessionId: string): Promise<PersistedLogEntry[]> {
+    return this._readEntries(sessionId)
+  }
+
+  public async saveSession(session: PersistedSession): Promise<void> {
+    const sessions = (
+      this._read<PersistedSession[]>(`${this._prefix}:sessions`) ?? []
+    ).filter((item) => item.id !== session.id)
+    sessions.push(session)
+    this._write(`${this._prefix}:sessions`, sessions)
+  }
+
+  public async putEntries(
+    sessionId: string,
+    entries: PersistedLogEntry[],
+    maxEntries: number
+  ): Promise<void> {
+    const stored = this._readEntries(sessionId)
+    const updates = new Map(entries.map((entry) => [entry.id, entry]))
+
+    // 이미 저장된 항목은 제자리에서 교체하고, 나머지만 뒤에 추가합니다.
+    const merged = stored.map((entry) => {
+      const update = updates.get(entry.id)
+      updates.delete(entry.id)
+      return update ?? entry
+    })
+    this._unwritten.set(
+      sessionId,
+      merged.concat(Array.from(updates.values())).slice(-maxEntries)
+    )
+
+    if (this._writeTimer === null) {
+      this._writeTimer = setTimeout(
+        () => this.flushWrites(),
+        LOCAL_STORAGE_WRITE_INTERVAL
+      )
+    }
+  }
+
+  public async deleteSession(sessionId: string): Promise<void> {
+    const sessions = (
+      this._read<PersistedSession[]>(`${this._prefix}:sessions`) ?? []
+    ).filter((item) => item.id !== sessionId)
+    this._write(`${this._prefix}:sessions`, sessions)
+    this._unwritten.delete(sessionId)
+    window.localStorage.removeItem(this._entriesKey(sessionId))
+  }
+
+  public flushWrites(): void {
+    if (this._writeTimer !== null) {
+      clearTimeout(this._writeTimer)
+      this._writeTimer = null
+    }
+
+    this._unwritten.forEach((entries, sessionId) => {
+      try {
+        this._write(this._entriesKey(sessionId), entries)
+      } catch (error) {
+        console.warn('로그를 저장하지 못했습니다:', error)
+      }
+    })
+    this._unwritten.clear()
+  }
+
+  public close(): void {
+    this.flushWrites()
+  }
+
+  private _entriesKey(sessionId: string): string {
+    return `${this._prefix}:entries:${sessionId}`
+  }
+
+  /**
+   * 세션의 로그 항목을 아직 기록하지 않은 것까지 포함해 읽습니다.
+   */
+  private _readEntries(sessionId: string): PersistedLogEntry[] {
+    return (
+      this._unwritten.get(sessionId) ??
+      this._read<PersistedLogEntry[]>(this._entriesKey(sessionId)) ??
+      []
+    )
+  }
+
+  private _read<T>(key: string): T | null {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  }
+
+  private _write(key: string, value: unknown): void {
+    window.localStorage.setItem(key, JSON.stringify(value))
+  }
+}
+
+/**
+ * 로그 영구 저장 클래스
+ *
+ * 단일 책임: 현재 세션의 로그를 저장소에 기록하고, 이전 세션의 로그를 불러오는 책임만 가집니다.
+ * - IndexedDB 우선, 사용할 수 없으면 localStorage로 대체
+ * - 로그를 모아서 짧은 지연 후 일괄 기록 (페이지를 떠날 때는 즉시 기록)
+ * - localStorage는 세션 전체를 다시 쓰므로 기록 간격을 더 길게 제한
+ * - 설정한 수만큼의 이전 세션만 보관
+ */
+export class LogPersistence {
+  private _options: Required<PersistenceOptions>
+  private _maxEntries: number
+  private _backend: Promise<LogPersistenceBackend | null>
+  private _session: PersistedSession
+  private _pending: PersistedLogEntry[]
+  private _flushTimer: ReturnType<typeof setTimeout> | null
+  private _handlePageHide: () => void
+
+  /**
+   * LogPersistence 인스턴스를 생성합니다.
+   *
+   * @param options 영구 저장 설정 옵션
+   * @param maxEntries 세션당 저장할 최대 로그 수
+   */
+  constructor(options: PersistenceOptions = {}, maxEntries: number = 1000) {
+    this._options = {
+      storage: options.storage ?? 'auto',
+      maxSessions: options.maxSessions ?? 3,
+      name: options.name ?? 'debug-overlay-logs',
+    }
+    this._maxEntries = maxEntries
+    this._session = { id: this._generateSessionId(), startedAt: Date.now() }
+    this._pending = []
+    this._flushTimer = null
+    this._backend = this._createBackend()
+
+    this._handlePageHide = () => {
+      this.flush()
+      // 페이지를 떠날 때는 백엔드가 미뤄 둔 기록도 바로 남깁니다.
+      this._backend.then((backend) => backend?.flushWrites())
+    }
+    window.addEventListener('pagehide', this._handlePageHide)
+  }
+
+  /**
+   * 이전 세션들의 로그를 불러오고, 보관 수를 넘는 오래된 세션을 삭제한 뒤 현재 세션을 등록합니다.
+   *
+   * @returns 이전 세션들의 로그 항목 (오래된 순)
+   */
+  public async restore(): Promise<LogEntry[]> {
+    const backend = await this._backend
+    if (!backend) {
+      return []
+    }
+
+    try {
+      const sessions = (await backend.loadSessions())
+        .filter((session) => session.id !== this._session.id)
+        .sort((a, b) => a.startedAt - b.startedAt)
+
+      const expired = sessions.slice(
+        0,
+        Math.max(0, sessions.length - this._options.maxSessions)
+      )
+      const kept = sessions.slice(expired.length)
+
+      await Promise.all(
+        expired.map((session) => backend.deleteSession(session.id))
+      )
+      await backend.saveSession(this._session)
+
+      const restored: LogEntry[] = []
+      for (const session of kept) {
+        const entries = await backend.loadEntries(session.id)
+        entries.forEach((entry) => {
+          restored.push(this._toLogEntry(entry, session))
+        })
+      }
+
+      return restored
+    } catch (error) {
+      console.warn('이전 세션 로그를 불러오지 못했습니다:', error)
+      return []
+    }
+  }
+
+  /**
+   * 로그 항목을 저장 대기열에 추가합니다.
+   * 이미 기록한 항목(반복 횟수가 바뀐 항목 등)을 다시 전달하면 같은 ID의 저장된 항목을 교체합니다.
+   *
+   * @param entry 저장할 로그 항목
+   */
+  public record(entry: LogEntry): void {
+    if (entry.session) {
+      return
+    }
+
+    const persisted = this._toPersisted(entry)
+    const pendingIndex = this._pending.findIndex(({ id }) => id === entry.id)
+    if (pendingIndex >= 0) {
+      this._pending[pendingIndex] = persisted
+    } else {
+      this._pending.push(persisted)
+    }
+
+    if (this._flushTimer === null) {
+      this._flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY)
+    }
+  }
+
+  /**
+   * 대기 중인 로그 항목들을 즉시 저장소에 기록합니다.
+   */
+  public flush(): void {
+    if (this._flushTimer !== null) {
+      clearTimeout(this._flushTimer)
+      this._flushTimer = null
+    }
+
+    if (this._pending.length === 0) {
+      return
+    }
+
+    const entries = this._pending
+    this._pending = []
+
+    this._backend.then((backend) =>
+      backend
+        ?.putEntries(this._session.id, entries, this._maxEntries)
+        .catch((error: unknown) => {
+          console.warn('로그를 저장하지 못했습니다:', error)
+        })
+    )
+  }
+
+  /**
+   * 현재 세션과 이전 세션의 저장된 로그를 모두 삭제합니다.
+   * 현재 세션은 다시 등록되어 이후 로그는 계속 저장됩니다.
+   */
+  public async clear(): Promise<void> {
+    this._pending = []
+    const backend = await this._backend
+    if (!backend) return
+
+    try {
+      const sessions = await backend.loadSessions()
+      await Promise.all(
+        sessions.map((session) => backend.deleteSession(session.id))
+      )
+      await backend.saveSession(this._session)
+    } catch (error) {
+      console.warn('저장된 로그를 삭제하지 못했습니다:', error)
+    }
+  }
+
+  /**
+   * 세션당 저장할 최대 로그 수를 변경합니다.
+   */
+  public setMaxEntries(maxEntries: number): void {
+    this._maxEntries = maxEntries
+  }
+
+  /**
+   * 대기 중인 로그를 기록하고 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    this.flush()
+    window.removeEventListener('pagehide', this._handlePageHide)
+    this._backend.then((backend) => backend?.close())
+  }
+
+  /**
+   * 설정과 환경에 맞는 백엔드를 생성합니다.
+   */
+  private async _createBackend(): Promise<LogPersistenceBackend | null> {
+    const { storage, name } = this._options
+
+    if (storage !== 'localstorage' && typeof indexedDB !== 'undefined') {
+      try {
+        const backend = new IndexedDbBackend(name)
+        await backend.ready()
+        return backend
+      } catch (error) {
+        if (storage === 'indexeddb') {
+          console.warn(
+            'IndexedDB를 사용할 수 없어 로그를 저장하지 않습니다:',
+            error
+          )
+          return null
+        }
+      }
+    }
+
+    try {
+      window.localStorage.getItem(name)
+      return new LocalStorageBackend(name)
+    } catch (error) {
+      console.warn(
+        'localStorage를 사용할 수 없어 로그를 저장하지 않습니다:',
+        error
+      )
+      return null
+    }
+  }
+
+  /**
+   * 로그 항목을 저장 가능한 형태로 변환합니다.
+   */
+  private _toPersisted(entry: LogEntry): PersistedLogEntry {
+    return {
+      id: entry.id,
+      sessionId: this._session.id,
+      level: entry.level,
+      args: entry.args.map((arg) => this._toStorableValue(arg)),
+      timestamp: entry.timestamp.getTime(),
+      ...(entry.stack && { stack: entry.stack }),
+      ...(entry.originalStack && { originalStack: entry.originalStack }),
+      ...(entry.source && { source: entry.source }),
+      ...(entry.type && { type: entry.type }),
+      ...(entry.groupPath && { groupPath: entry.groupPath }),
+      ...(entry.collapsed !== undefined && { collapsed: entry.collapsed }),
+      ...(entry.repeatCount !== undefined && {
+        repeatCount: entry.repeatCount,
+      }),
+      ...(entry.lastTimestamp && {
+        lastTimestamp: entry.lastTimestamp.getTime(),
+      }),
+      ...(entry.channel && { channel: entry.channel }),
+    }
+  }
+
+  /**
+   * 저장된 항목을 이전 세션 정보가 붙은 LogEntry로 변환합니다.
+   */
+  private _toLogEntry(
+    entry: PersistedLogEntry,
+    session: PersistedSession
+  ): LogEntry {
+    return {
+      id: entry.id,
+      level: entry.level,
+      args: entry.args,
+      timestamp: new Date(entry.timestamp),
+      ...(entry.stack && { stack: entry.stack }),
+      ...(entry.originalStack && { originalStack: entry.originalStack }),
+      ...(entry.source && { source: entry.source }),
+      ...(entry.type && { type: entry.type }),
+      ...(entry.groupPath && { groupPath: entry.groupPath }),
+      ...(entry.collapsed !== undefined && { collapsed: entry.collapsed }),
+      ...(entry.repeatCount !== undefined && {
+        repeatCount: entry.repeatCount,
+      }),
+      ...(entry.lastTimestamp !== undefined && {
+        lastTimestamp: new Date(entry.lastTimestamp),
+      }),
+      ...(entry.channel && { channel: entry.channel }),
+      session: {
+        id: session.id,
+        startedAt: new Date(session.startedAt),
+        origin: 'previous',
+      },
+    }
+  }
+
+  /**
+   * 값을 저장 가능한 스냅샷으로 변환합니다.
+   * 함수, 순환 참조, DOM 노드처럼 그대로 저장할 수 없는 값은 타입 태그가 붙은 노드로 대체됩니다.
+   */
+  private _toStorableValue(value: unknown): SnapshotValue {
+    try {
+      return createSnapshot(value)
+    } catch (error) {
+      return `[Unserializable: ${typeof value}]`
+    }
+  }
+
+  /**
+   * 세션 ID를 생성합니다.
+   */
+  private _generateSessionId(): string {
+    const timestamp = Date.now().toString(36)
+    const random = Math.random().toString(36).substring(2)
+    return `session_${timestamp}_${random}`
+  }
+}
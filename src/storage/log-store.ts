@@ -1,5 +1,12 @@
 import { LogLevel } from '../types/types.js';
-import type { LogEntry } from '../types/types.js';
+import type {
+  LogCollapseMode,
+  LogEntry,
+  LogStoreChange,
+  LogStoreChangeListener,
+} from '../types/types.js';
+import { createSearchPattern, matchesSearch } from '../utils/log-search.js';
+import { safeStringify } from '../utils/safe-stringify.js';
 
 /**
  * 로그 저장소 클래스
@@ -9,37 +16,116 @@ import type { LogEntry } from '../types/types.js';
  * - 최대 로그 수 제한 기능
  * - 로그 필터링 기능
  * - 로그 검색 기능
+ * - 반복 로그 합치기 기능
+ * - 변경 내용(증분) 구독 기능
  */
 export class LogStore {
   private _logs: LogEntry[];
   private _maxLogs: number;
+  private _collapseMode: LogCollapseMode;
+  private _fingerprintById: Map<string, string>;
+  private _idByFingerprint: Map<string, string>;
   private _listeners: Set<(logs: LogEntry[]) => void>;
+  private _changeListeners: Set<LogStoreChangeListener>;
 
   /**
    * LogStore 인스턴스를 생성합니다.
    * @param maxLogs 최대 저장할 로그 수 (기본값: 1000)
+   * @param collapseMode 반복 로그 합치기 방식 (기본값: 'off')
    */
-  constructor(maxLogs: number = 1000) {
+  constructor(maxLogs: number = 1000, collapseMode: LogCollapseMode = 'off') {
     this._logs = [];
     this._maxLogs = maxLogs;
+    this._collapseMode = collapseMode;
+    this._fingerprintById = new Map();
+    this._idByFingerprint = new Map();
     this._listeners = new Set();
+    this._changeListeners = new Set();
   }
 
   /**
    * 새로운 로그 항목을 추가합니다.
    * 최대 로그 수를 초과하면 가장 오래된 로그를 제거합니다.
+   * 반복 로그 합치기가 켜져 있고 같은 로그가 이미 있으면, 새 항목을 추가하는 대신 그 항목의 반복 횟수를 늘립니다.
    * 
    * @param entry 추가할 로그 항목
    */
   public addLog(entry: LogEntry): void {
+    const fingerprint = this._collapseMode === 'off' ? null : createFingerprint(entry);
+
+    if (fingerprint !== null && this._collapseRepeat(entry, fingerprint)) {
+      return;
+    }
+
     this._logs.push(entry);
+    if (fingerprint !== null) {
+      this._fingerprintById.set(entry.id, fingerprint);
+      this._idByFingerprint.set(fingerprint, entry.id);
+    }
 
     // 최대 로그 수 제한
+    let removed: LogEntry[] = [];
     if (this._logs.length > this._maxLogs) {
-      this._logs.shift(); // 가장 오래된 로그 제거
+      removed = this._logs.splice(0, this._logs.length - this._maxLogs); // 가장 오래된 로그 제거
+      this._forgetFingerprints(removed);
+    }
+
+    this._notifyListeners();
+    this._notifyChangeListeners({ type: 'add', entry, removed });
+  }
+
+  /**
+   * 반복 로그 합치기 방식을 설정합니다.
+   * 이미 합쳐진 항목은 그대로 두고, 이후에 추가되는 항목부터 적용됩니다.
+   *
+   * @param mode 반복 로그 합치기 방식
+   */
+  public setCollapseMode(mode: LogCollapseMode): void {
+    this._collapseMode = mode;
+    this._fingerprintById.clear();
+    this._idByFingerprint.clear();
+  }
+
+  /**
+   * 기존 로그 앞에 로그 항목들을 추가합니다.
+   * 이전 세션에서 복원한 로그처럼 현재 로그보다 오래된 항목을 넣을 때 사용합니다.
+   * 최대 로그 수를 초과하면 앞쪽(가장 오래된) 항목부터 제거합니다.
+   * 
+   * @param entries 추가할 로그 항목들 (오래된 순)
+   */
+  public prependLogs(entries: LogEntry[]): void {
+    if (entries.length === 0) {
+      return;
     }
 
+    this._logs = entries.concat(this._logs).slice(-this._maxLogs);
+    this._pruneFingerprints();
+
     this._notifyListeners();
+    this._notifyChangeListeners({ type: 'reset', logs: this.getAllLogs() });
+  }
+
+  /**
+   * 저장된 로그 항목 하나의 내용을 변경합니다.
+   * 기존 객체를 수정하지 않고 변경 내용을 합친 새 객체로 교체합니다.
+   *
+   * @param id 변경할 로그 항목의 ID
+   * @param changes 변경할 필드들
+   * @returns 변경된 로그 항목 (항목이 없으면 undefined)
+   */
+  public updateLog(id: string, changes: Partial<Omit<LogEntry, 'id'>>): LogEntry | undefined {
+    const index = this._logs.findIndex(log => log.id === id);
+    const current = this._logs[index];
+    if (!current) {
+      return undefined;
+    }
+
+    const entry: LogEntry = { ...current, ...changes };
+    this._logs[index] = entry;
+
+    this._notifyListeners();
+    this._notifyChangeListeners({ type: 'update', entry });
+    return entry;
   }
 
   /**
@@ -47,7 +133,10 @@ export class LogStore {
    */
   public clearLogs(): void {
     this._logs = [];
+    this._fingerprintById.clear();
+    this._idByFingerprint.clear();
     this._notifyListeners();
+    this._notifyChangeListeners({ type: 'reset', logs: [] });
   }
 
   /**
@@ -89,8 +178,9 @@ export class LogStore {
 
   /**
    * 로그 내용에서 텍스트를 검색합니다.
+   * `/pattern/flags` 형태의 검색어는 정규식으로 처리하며, 잘못된 정규식이면 빈 배열을 반환합니다.
    * 
-   * @param searchText 검색할 텍스트
+   * @param searchText 검색할 텍스트 또는 /regex/
    * @param caseSensitive 대소문자 구분 여부 (기본값: false)
    * @returns 검색 조건에 맞는 로그 항목들
    */
@@ -99,17 +189,13 @@ export class LogStore {
       return this.getAllLogs();
     }
 
-    const searchTerm = caseSensitive ? searchText : searchText.toLowerCase();
-
-    return this._logs.filter(log => {
-      // 로그 인자들을 문자열로 변환하여 검색
-      const logContent = log.args
-        .map(arg => this._stringifyLogArg(arg))
-        .join(' ');
+    // 로그 인자들을 화면에 표시되는 텍스트로 변환하여 검색 (/regex/ 형태 지원)
+    const { pattern } = createSearchPattern(searchText, caseSensitive);
+    if (!pattern) {
+      return [];
+    }
 
-      const content = caseSensitive ? logContent : logContent.toLowerCase();
-      return content.includes(searchTerm);
-    });
+    return this._logs.filter(log => matchesSearch(log, pattern));
   }
 
   /**
@@ -161,7 +247,9 @@ export class LogStore {
     // 현재 로그 수가 새로운 최대값을 초과하면 조정
     if (this._logs.length > this._maxLogs) {
       this._logs = this._logs.slice(-this._maxLogs);
+      this._pruneFingerprints();
       this._notifyListeners();
+      this._notifyChangeListeners({ type: 'reset', logs: this.getAllLogs() });
     }
   }
 
@@ -192,15 +280,36 @@ export class LogStore {
     this._listeners.delete(listener);
   }
 
+  /**
+   * 로그 변경 내용을 증분 형태로 구독합니다.
+   * 전체 목록을 복사하지 않으므로 로그가 많을 때 subscribe보다 가볍습니다.
+   * 
+   * @param listener 로그가 변경될 때 변경 내용과 함께 호출될 콜백 함수
+   */
+  public subscribeChanges(listener: LogStoreChangeListener): void {
+    this._changeListeners.add(listener);
+  }
+
+  /**
+   * 로그 변경 내용 구독을 해제합니다.
+   * 
+   * @param listener 제거할 콜백 함수
+   */
+  public unsubscribeChanges(listener: LogStoreChangeListener): void {
+    this._changeListeners.delete(listener);
+  }
+
   /**
    * 모든 구독을 해제합니다.
    */
   public unsubscribeAll(): void {
     this._listeners.clear();
+    this._changeListeners.clear();
   }
 
   /**
    * 로그 통계 정보를 반환합니다.
+   * 합쳐진 항목은 반복 횟수만큼 셉니다.
    * 
    * @returns 레벨별 로그 수와 전체 통계
    */
@@ -211,20 +320,85 @@ export class LogStore {
       [LogLevel.WARN]: 0,
       [LogLevel.ERROR]: 0,
       [LogLevel.DEBUG]: 0,
-      total: this._logs.length,
+      total: 0,
     };
 
     this._logs.forEach(log => {
-      stats[log.level]++;
+      const count = log.repeatCount ?? 1;
+      stats[log.level] += count;
+      stats.total += count;
     });
 
     return stats;
   }
 
+  /**
+   * 같은 지문의 기존 항목이 있으면 반복 횟수를 늘립니다.
+   * 'consecutive' 방식은 마지막 항목만, 'fingerprint' 방식은 저장된 모든 항목을 대상으로 합니다.
+   *
+   * @returns 기존 항목에 합쳤으면 true
+   */
+  private _collapseRepeat(entry: LogEntry, fingerprint: string): boolean {
+    const targetId =
+      this._collapseMode === 'consecutive'
+        ? this._logs[this._logs.length - 1]?.id
+        : this._idByFingerprint.get(fingerprint);
+    if (targetId === undefined || this._fingerprintById.get(targetId) !== fingerprint) {
+      return false;
+    }
+
+    const target = this.getLogById(targetId);
+    if (!target) {
+      return false;
+    }
+
+    this.updateLog(targetId, {
+      repeatCount: (target.repeatCount ?? 1) + 1,
+      lastTimestamp: entry.timestamp,
+    });
+    return true;
+  }
+
+  /**
+   * 제거된 항목들의 지문을 잊습니다.
+   */
+  private _forgetFingerprints(entries: LogEntry[]): void {
+    entries.forEach(entry => {
+      const fingerprint = this._fingerprintById.get(entry.id);
+      this._fingerprintById.delete(entry.id);
+      if (fingerprint !== undefined && this._idByFingerprint.get(fingerprint) === entry.id) {
+        this._idByFingerprint.delete(fingerprint);
+      }
+    });
+  }
+
+  /**
+   * 더 이상 저장소에 없는 항목들의 지문을 잊습니다.
+   */
+  private _pruneFingerprints(): void {
+    if (this._fingerprintById.size === 0) {
+      return;
+    }
+
+    const ids = new Set(this._logs.map(log => log.id));
+    this._fingerprintById.forEach((fingerprint, id) => {
+      if (!ids.has(id)) {
+        this._fingerprintById.delete(id);
+        if (this._idByFingerprint.get(fingerprint) === id) {
+          this._idByFingerprint.delete(fingerprint);
+        }
+      }
+    });
+  }
+
   /**
    * 모든 리스너에게 로그 변경 사항을 알립니다.
    */
   private _notifyListeners(): void {
+    if (this._listeners.size === 0) {
+      return;
+    }
+
     const logs = this.getAllLogs();
     this._listeners.forEach(listener => {
       try {
@@ -236,24 +410,16 @@ export class LogStore {
   }
 
   /**
-   * 로그 인자를 문자열로 변환합니다.
-   * 검색 기능에서 사용됩니다.
-   * 
-   * @param arg 변환할 인자
-   * @returns 문자열 표현
+   * 모든 변경 리스너에게 변경 내용을 알립니다.
    */
-  private _stringifyLogArg(arg: unknown): string {
-    try {
-      if (arg === null) return 'null';
-      if (arg === undefined) return 'undefined';
-      if (typeof arg === 'string') return arg;
-      if (typeof arg === 'number' || typeof arg === 'boolean') return String(arg);
-      if (typeof arg === 'function') return `[Function: ${arg.name || 'anonymous'}]`;
-      
-      return JSON.stringify(arg);
-    } catch (error) {
-      return `[Object: ${typeof arg}]`;
-    }
+  private _notifyChangeListeners(change: LogStoreChange): void {
+    this._changeListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('로그 변경 리스너 실행 중 오류:', error);
+      }
+    });
   }
 
   /**
@@ -262,6 +428,32 @@ export class LogStore {
    */
   public destroy(): void {
     this._logs = [];
+    this._fingerprintById.clear();
+    this._idByFingerprint.clear();
     this._listeners.clear();
+    this._changeListeners.clear();
   }
 }
+
+/**
+ * 반복 로그를 찾기 위한 지문을 생성합니다.
+ * 레벨, console API 종류, 그룹, 출처, 인자, 스택이 모두 같으면 같은 지문이 됩니다.
+ * 그룹 시작 항목은 하위 항목들이 ID로 참조하므로 합치지 않습니다.
+ *
+ * @returns 합칠 수 없는 항목이면 null
+ */
+function createFingerprint(entry: LogEntry): string | null {
+  if (entry.type === 'group') {
+    return null;
+  }
+
+  return safeStringify([
+    entry.level,
+    entry.type ?? '',
+    entry.groupPath ?? [],
+    entry.source ?? '',
+    entry.channel ?? '',
+    entry.args,
+    entry.stack ?? '',
+  ]);
+}
@@ -0,0 +1,122 @@
+import type { NetworkEntry } from '../types/types.js'
+
+/**
+ * 네트워크 요청 저장소 클래스
+ *
+ * 단일 책임: 캡처된 네트워크 요청을 메모리에 저장하고 관리(추가, 갱신, 삭제, 조회)하는 책임만 가집니다.
+ * - 요청 항목들을 배열로 관리
+ * - 같은 id의 항목은 최신 상태로 갱신
+ * - 최대 항목 수 제한 기능
+ */
+export class NetworkStore {
+  private _entries: NetworkEntry[]
+  private _maxEntries: number
+  private _listeners: Set<(entries: NetworkEntry[]) => void>
+
+  /**
+   * NetworkStore 인스턴스를 생성합니다.
+   * @param maxEntries 최대 저장할 요청 수 (기본값: 500)
+   */
+  constructor(maxEntries: number = 500) {
+    this._entries = []
+    this._maxEntries = maxEntries
+    this._listeners = new Set()
+  }
+
+  /**
+   * 요청 항목을 추가하거나, 같은 id의 항목이 있으면 갱신합니다.
+   * 최대 항목 수를 초과하면 가장 오래된 항목을 제거합니다.
+   *
+   * @param entry 추가하거나 갱신할 요청 항목
+   */
+  public upsertEntry(entry: NetworkEntry): void {
+    const index = this._entries.findIndex((item) => item.id === entry.id)
+
+    if (index >= 0) {
+      this._entries[index] = entry
+    } else {
+      this._entries.push(entry)
+
+      if (this._entries.length > this._maxEntries) {
+        this._entries.shift()
+      }
+    }
+
+    this._notifyListeners()
+  }
+
+  /**
+   * 모든 요청 항목을 삭제합니다.
+   */
+  public clearEntries(): void {
+    this._entries = []
+    this._notifyListeners()
+  }
+
+  /**
+   * 모든 요청 항목을 반환합니다.
+   *
+   * @returns 모든 요청 항목의 복사본
+   */
+  public getAllEntries(): NetworkEntry[] {
+    return [...this._entries]
+  }
+
+  /**
+   * 최대 항목 수를 설정합니다.
+   *
+   * @param maxEntries 새로운 최대 항목 수
+   */
+  public setMaxEntries(maxEntries: number): void {
+    if (maxEntries <= 0) {
+      throw new Error('최대 네트워크 항목 수는 0보다 커야 합니다.')
+    }
+
+    this._maxEntries = maxEntries
+
+    if (this._entries.length > this._maxEntries) {
+      this._entries = this._entries.slice(-this._maxEntries)
+      this._notifyListeners()
+    }
+  }
+
+  /**
+   * 요청 변경 사항을 구독합니다.
+   *
+   * @param listener 요청 목록이 변경될 때 호출될 콜백 함수
+   */
+  public subscribe(listener: (entries: NetworkEntry[]) => void): void {
+    this._listeners.add(listener)
+  }
+
+  /**
+   * 요청 변경 사항 구독을 해제합니다.
+   *
+   * @param listener 제거할 콜백 함수
+   */
+  public unsubscribe(listener: (entries: NetworkEntry[]) => void): void {
+    this._listeners.delete(listener)
+  }
+
+  /**
+   * 네트워크 저장소를 완전히 정리합니다.
+   */
+  public destroy(): void {
+    this._entries = []
+    this._listeners.clear()
+  }
+
+  /**
+   * 모든 리스너에게 변경 사항을 알립니다.
+   */
+  private _notifyListeners(): void {
+    const entries = this.getAllEntries()
+    this._listeners.forEach((listener) => {
+      try {
+        listener(entries)
+      } catch (error) {
+        console.error('네트워크 리스너 실행 중 오류:', error)
+      }
+    })
+  }
+}
@@ -0,0 +1,322 @@
+import type {
+  LogEntry,
+  RemoteLogEntry,
+  RemoteLogMessage,
+  RemoteTransportOptions,
+  SnapshotValue,
+} from '../types/types.js'
+import { createSnapshot } from '../utils/serializer.js'
+
+/**
+ * 전송 요청을 모아서 보내는 지연 시간 (밀리초)
+ */
+const SEND_DELAY = 50
+
+/**
+ * 원격 로그 전송 클래스
+ *
+ * 단일 책임: 로그 항목을 WebSocket으로 릴레이 서버에 전달하는 책임만 가집니다.
+ * - 로그를 모아서 짧은 지연 후 일괄 전송
+ * - 이미 보낸 항목이 바뀌면(반복 횟수 등) 'update' 메시지로 교체 내용을 전송
+ * - 연결이 끊긴 동안에는 최대 개수까지 버퍼에 보관하고 재연결 후 전송
+ * - 연결이 끊기면 점점 늘어나는 간격으로 재연결 시도
+ *
+ * 전송 실패는 console로 출력하지 않습니다. 출력된 메시지가 다시 전송 대상이 되기 때문입니다.
+ */
+export class RemoteLogTransport {
+  private _options: Required<RemoteTransportOptions>
+  private _clientId: string
+  private _socket: WebSocket | null
+  private _buffer: RemoteLogEntry[]
+  private _updates: Map<string, RemoteLogEntry>
+  private _sendTimer: ReturnType<typeof setTimeout> | null
+  private _reconnectTimer: ReturnType<typeof setTimeout> | null
+  private _reconnectDelay: number
+  private _isActive: boolean
+
+  /**
+   * RemoteLogTransport 인스턴스를 생성합니다.
+   *
+   * @param options 원격 전송 설정 옵션
+   */
+  constructor(options: RemoteTransportOptions) {
+    this._options = {
+      url: options.url,
+      bufferSize: options.bufferSize ?? 1000,
+      reconnectInterval: options.reconnectInterval ?? 1000,
+      maxReconnectInterval: options.maxReconnectInterval ?? 30000,
+    }
+    this._clientId = this._generateClientId()
+    this._socket = null
+    this._buffer = []
+    this._updates = new Map()
+    this._sendTimer = null
+    this._reconnectTimer = null
+    this._reconnectDelay = this._options.reconnectInterval
+    this._isActive = false
+  }
+
+  /**
+   * 릴레이 서버에 연결합니다.
+   * 연결이 끊기면 destroy()를 호출할 때까지 자동으로 재연결합니다.
+   */
+  public connect(): void {
+    if (this._isActive) {
+      return
+    }
+
+    this._isActive = true
+    this._openSocket()
+  }
+
+  /**
+   * 로그 항목을 전송 대기열에 추가합니다.
+   * 연결되어 있지 않으면 재연결될 때까지 버퍼에 보관하며, 최대 개수를 넘으면 오래된 항목부터 버립니다.
+   *
+   * @param entry 전송할 로그 항목
+   */
+  public send(entry: LogEntry): void {
+    if (!this._isActive || entry.session) {
+      return
+    }
+
+    this._buffer.push(this._toRemoteEntry(entry))
+    if (this._buffer.length > this._options.bufferSize) {
+      this._buffer.splice(0, this._buffer.length - this._options.bufferSize)
+    }
+
+    this._scheduleFlush()
+  }
+
+  /**
+   * 이미 send()로 전달한 항목의 바뀐 내용을 전송 대기열에 추가합니다.
+   * 아직 보내지 않은 항목이면 대기 중인 항목을 교체하고, 이미 보낸 항목이면 'update' 메시지로 보냅니다.
+   *
+   * @param entry 내용이 바뀐 로그 항목
+   */
+  public update(entry: LogEntry): void {
+    if (!this._isActive || entry.session) {
+      return
+    }
+
+    const remoteEntry = this._toRemoteEntry(entry)
+    const bufferIndex = this._buffer.findIndex(({ id }) => id === entry.id)
+    if (bufferIndex >= 0) {
+      this._buffer[bufferIndex] = remoteEntry
+      return
+    }
+
+    // 같은 항목의 이전 변경은 버리고, 최근에 바뀐 항목이 뒤에 오도록 다시 넣습니다.
+    this._updates.delete(entry.id)
+    this._updates.set(entry.id, remoteEntry)
+    if (this._updates.size > this._options.bufferSize) {
+      const oldest = this._updates.keys().next().value
+      if (oldest !== undefined) {
+        this._updates.delete(oldest)
+      }
+    }
+
+    this._scheduleFlush()
+  }
+
+  /**
+   * 대기 중인 로그 항목들을 즉시 전송합니다.
+   * 연결되어 있지 않으면 아무것도 하지 않습니다.
+   */
+  public flush(): void {
+    if (this._sendTimer !== null) {
+      clearTimeout(this._sendTimer)
+      this._sendTimer = null
+    }
+
+    if (!this.isConnected()) {
+      return
+    }
+
+    if (this._buffer.length > 0) {
+      const entries = this._buffer
+      this._buffer = []
+      this._sendMessage({ type: 'logs', clientId: this._clientId, entries })
+    }
+
+    if (this._updates.size > 0) {
+      const entries = Array.from(this._updates.values())
+      this._updates.clear()
+      this._sendMessage({ type: 'update', clientId: this._clientId, entries })
+    }
+  }
+
+  /**
+   * 릴레이 서버에 로그 초기화를 알리고, 아직 보내지 않은 로그를 버립니다.
+   */
+  public clear(): void {
+    this._buffer = []
+    this._updates.clear()
+    if (this.isConnected()) {
+      this._sendMessage({ type: 'clear', clientId: this._clientId })
+    }
+  }
+
+  /**
+   * 현재 연결 상태를 반환합니다.
+   *
+   * @returns 연결되어 있으면 true, 아니면 false
+   */
+  public isConnected(): boolean {
+    return this._socket !== null && this._socket.readyState === WebSocket.OPEN
+  }
+
+  /**
+   * 연결을 닫고 리소스를 정리합니다.
+   * 연결되어 있으면 대기 중인 로그를 먼저 전송합니다.
+   */
+  public destroy(): void {
+    this.flush()
+    this._isActive = false
+
+    if (this._reconnectTimer !== null) {
+      clearTimeout(this._reconnectTimer)
+      this._reconnectTimer = null
+    }
+
+    if (this._socket) {
+      const socket = this._socket
+      this._socket = null
+      socket.onopen = null
+      socket.onclose = null
+      socket.onerror = null
+      socket.close()
+    }
+
+    this._buffer = []
+    this._updates.clear()
+  }
+
+  /**
+   * 아직 예약되지 않았으면 짧은 지연 후의 전송을 예약합니다.
+   */
+  private _scheduleFlush(): void {
+    if (this._sendTimer === null) {
+      this._sendTimer = setTimeout(() => this.flush(), SEND_DELAY)
+    }
+  }
+
+  /**
+   * WebSocket을 열고 이벤트 핸들러를 연결합니다.
+   */
+  private _openSocket(): void {
+    if (typeof WebSocket === 'undefined') {
+      return
+    }
+
+    let socket: WebSocket
+    try {
+      socket = new WebSocket(this._options.url)
+    } catch (error) {
+      // 잘못된 주소 등으로 생성 자체가 실패하면 재연결해도 같은 결과이므로 중단합니다.
+      this._isActive = false
+      return
+    }
+
+    this._socket = socket
+
+    socket.onopen = () => {
+      this._reconnectDelay = this._options.reconnectInterval
+      this._sendMessage({
+        type: 'hello',
+        clientId: this._clientId,
+        userAgent: navigator.userAgent,
+        url: location.href,
+        startedAt: new Date().toISOString(),
+      })
+      this.flush()
+    }
+
+    socket.onclose = () => {
+      if (this._socket === socket) {
+        this._socket = null
+        this._scheduleReconnect()
+      }
+    }
+
+    // 오류 후에는 항상 close 이벤트가 이어지므로 재연결은 onclose에서 처리합니다.
+    socket.onerror = () => {}
+  }
+
+  /**
+   * 현재 대기 시간 후에 재연결을 예약하고 다음 대기 시간을 늘립니다.
+   */
+  private _scheduleReconnect(): void {
+    if (!this._isActive || this._reconnectTimer !== null) {
+      return
+    }
+
+    const delay = this._reconnectDelay
+    this._reconnectDelay = Math.min(
+      delay * 2,
+      this._options.maxReconnectInterval
+    )
+
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null
+      if (this._isActive) {
+        this._openSocket()
+      }
+    }, delay)
+  }
+
+  /**
+   * 메시지를 JSON으로 변환해 전송합니다.
+   */
+  private _sendMessage(message: RemoteLogMessage): void {
+    try {
+      this._socket?.send(JSON.stringify(message))
+    } catch (error) {
+      // 전송 중 연결이 끊긴 경우이며, close 이벤트에서 재연결합니다.
+    }
+  }
+
+  /**
+   * 로그 항목을 전송 가능한 형태로 변환합니다.
+   */
+  private _toRemoteEntry(entry: LogEntry): RemoteLogEntry {
+    return {
+      id: entry.id,
+      level: entry.level,
+      args: entry.args.map((arg) => this._toRemoteValue(arg)),
+      timestamp: entry.timestamp.toISOString(),
+      ...(entry.stack && { stack: entry.stack }),
+      ...(entry.source && { source: entry.source }),
+      ...(entry.type && { type: entry.type }),
+      ...(entry.groupPath && { groupPath: entry.groupPath }),
+      ...(entry.collapsed !== undefined && { collapsed: entry.collapsed }),
+      ...(entry.channel && { channel: entry.channel }),
+      ...(entry.repeatCount !== undefined && {
+        repeatCount: entry.repeatCount,
+      }),
+      ...(entry.lastTimestamp && {
+        lastTimestamp: entry.lastTimestamp.toISOString(),
+      }),
+    }
+  }
+
+  /**
+   * 인자를 전송 가능한 스냅샷으로 변환합니다. (이미 스냅샷인 인자는 그대로 사용)
+   */
+  private _toRemoteValue(value: unknown): SnapshotValue {
+    try {
+      return createSnapshot(value)
+    } catch (error) {
+      return `[Unserializable: ${typeof value}]`
+    }
+  }
+
+  /**
+   * 클라이언트 ID를 생성합니다.
+   */
+  private _generateClientId(): string {
+    const timestamp = Date.now().toString(36)
+    const random = Math.random().toString(36).substring(2)
+    return `client_${timestamp}_${random}`
+  }
+}
@@ -9,6 +9,136 @@ export enum LogLevel {
   DEBUG = 'debug',
 }
 
+/**
+ * 로그 항목의 출처
+ * - 'repl-input': REPL에 입력된 명령
+ * - 'repl-result': REPL 명령의 평가 결과
+ */
+export type LogSource = 'repl-input' | 'repl-result';
+
+/**
+ * log/info/warn/error/debug 외의 console API로 생성된 항목의 종류
+ */
+export type ConsoleEntryType =
+  | 'table'
+  | 'group'
+  | 'timer'
+  | 'count'
+  | 'assert'
+  | 'trace'
+  | 'dir';
+
+/**
+ * 반복 로그 합치기 방식
+ * - 'off': 합치지 않음
+ * - 'consecutive': 레벨, 인자, 스택이 같은 로그가 연속으로 발생하면 한 줄로 합침
+ * - 'fingerprint': 떨어져 있더라도 레벨, 인자, 스택이 같은 로그를 처음 발생한 줄로 합침
+ */
+export type LogCollapseMode = 'off' | 'consecutive' | 'fingerprint';
+
+/**
+ * 로그 인자 보관 방식
+ * - 'snapshot': 로그 시점의 값을 직렬화한 스냅샷으로 보관 (이후 객체가 바뀌어도 기록된 값 유지)
+ * - 'live': 원본 객체 참조를 그대로 보관 (펼치는 시점의 값이 표시됨)
+ */
+export type ArgsMode = 'snapshot' | 'live';
+
+/**
+ * 스냅샷 직렬화 한도 옵션
+ */
+export interface SnapshotOptions {
+  /** 직렬화할 최대 깊이 (기본값: 8) */
+  maxDepth?: number;
+  /** 객체/배열/Map/Set마다 직렬화할 최대 항목 수 (기본값: 100) */
+  maxEntries?: number;
+  /** 문자열의 최대 길이 (기본값: 10000) */
+  maxStringLength?: number;
+  /** 인자 하나에서 직렬화할 최대 노드 수 (기본값: 5000) */
+  maxNodes?: number;
+}
+
+/**
+ * 직렬화된 값
+ * JSON으로 표현 가능한 원시값은 그대로, 그 외의 값은 '@snapshot' 태그를 가진 노드로 표현됩니다.
+ */
+export type SnapshotValue = string | number | boolean | null | SnapshotNode;
+
+/**
+ * 직렬화된 객체의 [키, 값] 항목
+ */
+export type SnapshotEntry = [string, SnapshotValue];
+
+/**
+ * 타입 태그가 붙은 직렬화 노드
+ * - truncated: 한도를 넘어 생략된 항목 수
+ */
+export type SnapshotNode =
+  | { '@snapshot': 'undefined' }
+  | { '@snapshot': 'number'; value: string }
+  | { '@snapshot': 'bigint'; value: string }
+  | { '@snapshot': 'symbol'; description: string }
+  | { '@snapshot': 'string'; value: string; length: number }
+  | { '@snapshot': 'function'; name: string }
+  | { '@snapshot': 'date'; value: string }
+  | { '@snapshot': 'regexp'; value: string }
+  | { '@snapshot': 'node'; description: string }
+  | { '@snapshot': 'opaque'; className: string; description: string }
+  | { '@snapshot': 'circular'; path: string }
+  | { '@snapshot': 'depth'; className: string; preview: string }
+  | {
+      '@snapshot': 'object';
+      className: string;
+      entries: SnapshotEntry[];
+      truncated: number;
+    }
+  | {
+      '@snapshot': 'array';
+      className: string;
+      items: SnapshotValue[];
+      length: number;
+      truncated: number;
+    }
+  | {
+      '@snapshot': 'map';
+      className: string;
+      entries: [SnapshotValue, SnapshotValue][];
+      size: number;
+      truncated: number;
+    }
+  | {
+      '@snapshot': 'set';
+      className: string;
+      items: SnapshotValue[];
+      size: number;
+      truncated: number;
+    }
+  | {
+      '@snapshot': 'error';
+      name: string;
+      message: string;
+      stack?: string;
+      cause?: SnapshotValue;
+      entries: SnapshotEntry[];
+    };
+
+/**
+ * 현재 세션이 아닌 다른 세션에서 온 로그 항목의 세션 정보
+ */
+export interface LogSession {
+  /** 세션 식별자 */
+  id: string;
+  /** 세션 시작 시간 */
+  startedAt: Date;
+  /**
+   * 세션 출처
+   * - 'previous': 새로고침/이동 전의 저장된 세션
+   * - 'imported': 내보낸 파일에서 가져오거나 재생한 세션
+   */
+  origin: 'previous' | 'imported';
+  /** 세션 이름 (가져온 파일 이름 등, 선택사항) */
+  name?: string;
+}
+
 /**
  * 콘솔 로그 항목의 인터페이스
  */
@@ -17,19 +147,225 @@ export interface LogEntry {
   id: string;
   /** 로그 레벨 */
   level: LogLevel;
-  /** 로그 메시지와 인자들 */
+  /** 로그 메시지와 인자들 ('snapshot' 모드에서는 SnapshotValue) */
   args: unknown[];
   /** 로그가 생성된 시간 */
   timestamp: Date;
   /** 스택 트레이스 (에러인 경우) */
   stack?: string;
+  /** 소스 맵으로 변환하기 전의 원래 스택 트레이스 (stack이 변환된 경우에만) */
+  originalStack?: string;
+  /** 로그 출처 (console 호출로 생성된 경우 생략) */
+  source?: LogSource;
+  /** 이전 세션에서 복원된 항목의 세션 정보 (현재 세션의 항목은 생략) */
+  session?: LogSession;
+  /** console API 종류 (log/info/warn/error/debug로 생성된 경우 생략) */
+  type?: ConsoleEntryType;
+  /** 항목이 속한 console.group들의 ID (바깥쪽 그룹부터, 그룹 밖이면 생략) */
+  groupPath?: string[];
+  /** console.groupCollapsed로 시작된 그룹인지 여부 (type이 'group'인 경우) */
+  collapsed?: boolean;
+  /** 같은 로그가 반복되어 하나로 합쳐진 횟수 (합쳐지지 않았으면 생략) */
+  repeatCount?: number;
+  /** 합쳐진 로그가 마지막으로 발생한 시간 (timestamp는 처음 발생한 시간) */
+  lastTimestamp?: Date;
+  /** createLogger()로 만든 로거의 채널 이름 (console 호출로 생성된 경우 생략) */
+  channel?: string;
 }
 
+/**
+ * 스택 트레이스의 프레임 하나
+ */
+export interface StackFrame {
+  /** 함수 이름 (익명 함수나 최상위 코드는 생략) */
+  functionName?: string;
+  /** 파일 URL ('native'처럼 위치가 없는 프레임은 그 표시 그대로) */
+  file: string;
+  /** 줄 번호 (1부터 시작) */
+  line?: number;
+  /** 열 번호 (1부터 시작) */
+  column?: number;
+  /** 라이브러리/벤더 코드의 프레임인지 여부 */
+  isLibrary: boolean;
+  /** 파싱하기 전의 원래 줄 */
+  raw: string;
+}
+
+/**
+ * 로그 저장소의 변경 내용
+ * - 'add': 항목이 하나 추가됨 (최대 로그 수 초과로 제거된 항목 포함)
+ * - 'update': 이미 추가된 항목 하나의 내용이 바뀜 (소스 맵 변환 등)
+ * - 'reset': 목록 전체가 교체됨 (삭제, 최대 로그 수 변경 등)
+ */
+export type LogStoreChange =
+  | { type: 'add'; entry: LogEntry; removed: LogEntry[] }
+  | { type: 'update'; entry: LogEntry }
+  | { type: 'reset'; logs: LogEntry[] };
+
+/**
+ * 로그 저장소 변경 리스너 타입
+ */
+export type LogStoreChangeListener = (change: LogStoreChange) => void;
+
 /**
  * 콘솔 인터셉터의 콜백 함수 타입
  */
 export type ConsoleInterceptorCallback = (entry: LogEntry) => void;
 
+/**
+ * 네트워크 요청을 발생시킨 API 종류
+ */
+export type NetworkRequestType = 'fetch' | 'xhr';
+
+/**
+ * 네트워크 요청의 진행 상태
+ */
+export type NetworkRequestState = 'pending' | 'complete' | 'error';
+
+/**
+ * 네트워크 요청 항목의 인터페이스
+ */
+export interface NetworkEntry {
+  /** 고유 식별자 */
+  id: string;
+  /** 요청을 발생시킨 API */
+  type: NetworkRequestType;
+  /** 진행 상태 */
+  state: NetworkRequestState;
+  /** HTTP 메서드 */
+  method: string;
+  /** 요청 URL */
+  url: string;
+  /** HTTP 상태 코드 (응답 전이거나 네트워크 오류인 경우 0) */
+  status: number;
+  /** HTTP 상태 텍스트 */
+  statusText: string;
+  /** 요청 시작 시간 */
+  startTime: Date;
+  /** 요청 소요 시간 (밀리초, 완료 전에는 undefined) */
+  duration?: number;
+  /** 요청 헤더 */
+  requestHeaders: Record<string, string>;
+  /** 응답 헤더 */
+  responseHeaders: Record<string, string>;
+  /** 요청 본문 */
+  requestBody?: string;
+  /** 응답 본문 */
+  responseBody?: string;
+  /** 네트워크 오류 메시지 */
+  error?: string;
+}
+
+/**
+ * 네트워크 인터셉터의 콜백 함수 타입
+ * 요청 시작 시와 완료 시 같은 id로 두 번 호출됩니다.
+ */
+export type NetworkInterceptorCallback = (entry: NetworkEntry) => void;
+
+/**
+ * 로그 영구 저장 설정 옵션
+ */
+export interface PersistenceOptions {
+  /** 저장소 종류 (기본값: 'auto' - IndexedDB를 사용할 수 없으면 localStorage) */
+  storage?: 'auto' | 'indexeddb' | 'localstorage';
+  /** 보관할 이전 세션 수 (기본값: 3) */
+  maxSessions?: number;
+  /** IndexedDB 데이터베이스 이름 / localStorage 키 접두사 (기본값: 'debug-overlay-logs') */
+  name?: string;
+}
+
+/**
+ * 원격 로그 전송 설정 옵션
+ */
+export interface RemoteTransportOptions {
+  /** 로그를 보낼 릴레이 서버의 WebSocket 주소 (예: 'ws://127.0.0.1:8787/ingest') */
+  url: string;
+  /** 연결이 끊긴 동안 보관할 최대 로그 수 (기본값: 1000) */
+  bufferSize?: number;
+  /** 재연결 최초 대기 시간 (ms, 기본값: 1000) - 실패할 때마다 두 배로 늘어남 */
+  reconnectInterval?: number;
+  /** 재연결 최대 대기 시간 (ms, 기본값: 30000) */
+  maxReconnectInterval?: number;
+}
+
+/**
+ * 원격 전송용으로 직렬화된 로그 항목
+ * 인자는 serializer의 스냅샷으로, 시간은 ISO 문자열로 변환됩니다.
+ */
+export interface RemoteLogEntry {
+  id: string;
+  level: LogLevel;
+  args: SnapshotValue[];
+  timestamp: string;
+  stack?: string;
+  source?: LogSource;
+  type?: ConsoleEntryType;
+  groupPath?: string[];
+  collapsed?: boolean;
+  channel?: string;
+  repeatCount?: number;
+  lastTimestamp?: string;
+}
+
+/**
+ * 릴레이 서버로 보내는 메시지
+ * - 'hello': 연결 직후 클라이언트 정보
+ * - 'logs': 로그 항목 묶음
+ * - 'update': 이미 보낸 항목 중 내용이 바뀐 항목 (반복 횟수 등, 같은 id의 항목을 교체)
+ * - 'clear': 로그 초기화 알림
+ */
+export type RemoteLogMessage =
+  | {
+      type: 'hello';
+      clientId: string;
+      userAgent: string;
+      url: string;
+      startedAt: string;
+    }
+  | { type: 'logs'; clientId: string; entries: RemoteLogEntry[] }
+  | { type: 'update'; clientId: string; entries: RemoteLogEntry[] }
+  | { type: 'clear'; clientId: string };
+
+/**
+ * 기본 제공 테마 이름
+ */
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+/**
+ * 테마 색상 팔레트
+ * 각 색상은 `--debug-overlay-<kebab-case 이름>` CSS 사용자 정의 속성으로 적용됩니다.
+ */
+export interface ThemePalette {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  accent: string;
+  success: string;
+  warning: string;
+  error: string;
+  info: string;
+  debug: string;
+  scrollbar: string;
+  scrollbarHover: string;
+}
+
+/**
+ * 사용자 정의 테마
+ * 지정하지 않은 색상은 base 테마의 색상을 사용합니다.
+ */
+export interface CustomTheme extends Partial<ThemePalette> {
+  /** 덮어쓸 기본 테마 (기본값: 'dark') */
+  base?: ThemeName | 'auto';
+}
+
+/**
+ * 오버레이 테마 설정
+ */
+export type OverlayTheme = ThemeName | 'auto' | CustomTheme;
+
 /**
  * 오버레이 설정 옵션
  */
@@ -46,14 +382,137 @@ export interface OverlayOptions {
   opacity?: number;
   /** z-index 값 (기본값: 999999) */
   zIndex?: number;
-  /** 테마 (기본값: 'dark') */
-  theme?: 'light' | 'dark';
+  /**
+   * 테마 (기본값: 'dark')
+   * 'auto'는 prefers-color-scheme을 따라 다크/라이트 테마를 바꾸고, 객체를 지정하면 일부 색상만 덮어씁니다.
+   */
+  theme?: OverlayTheme;
   /** 자동 스크롤 활성화 (기본값: true) */
   autoScroll?: boolean;
   /** 필터링할 로그 레벨들 */
   enabledLevels?: LogLevel[];
+  /** fetch/XMLHttpRequest 요청 캡처 여부 (기본값: true) */
+  captureNetwork?: boolean;
+  /** 최대 네트워크 항목 수 (기본값: 500) */
+  maxNetworkEntries?: number;
+  /** JavaScript 명령 입력창(REPL) 표시 여부 (기본값: true) */
+  enableRepl?: boolean;
+  /** 스택 트레이스에서 펼치기 전에 표시할 프레임 수 (기본값: 5) */
+  stackFrameLimit?: number;
+  /** 오버레이가 숨겨져 있는 동안 화면에 플로팅 런처 버튼 표시 여부 (기본값: true) */
+  launcher?: boolean;
+  /**
+   * 오버레이를 그릴 Shadow DOM 모드 (기본값: 'open')
+   * 페이지의 CSS와 오버레이 스타일이 서로 영향을 주지 않도록 shadow root 안에 그립니다.
+   * false면 기존처럼 document.body에 직접 추가하고 전역 <style>을 사용합니다.
+   */
+  shadowDom?: ShadowRootMode | false;
+  /** style-src CSP의 nonce (지정하면 주입하는 <style> 요소에 설정) */
+  cspNonce?: string;
+  /** 반복되는 로그를 한 줄로 합치는 방식 (기본값: 'off') */
+  collapseRepeats?: LogCollapseMode;
+  /**
+   * 처음에 표시할 로그 채널 패턴 (기본값: '' - 모든 채널 표시)
+   * debug 패키지의 DEBUG 값처럼 쉼표나 공백으로 구분하며, `*`는 와일드카드, `-`로 시작하면 숨김입니다.
+   * 표시 패턴이 하나라도 있으면 일치하지 않는 채널은 숨깁니다. (채널이 없는 로그는 항상 표시)
+   * 예: 'payments:*,-payments:verbose'
+   */
+  channels?: string;
+  /** 로그 영구 저장 설정 (지정하면 새로고침 후에도 이전 세션의 로그를 복원) */
+  persistence?: PersistenceOptions;
+  /** 원격 로그 전송 설정 (지정하면 모든 로그를 WebSocket으로 릴레이 서버에 전송) */
+  remote?: RemoteTransportOptions;
+  /** 로그 인자 보관 방식 (기본값: 'snapshot') */
+  argsMode?: ArgsMode;
+  /** 'snapshot' 모드의 직렬화 한도 */
+  snapshot?: SnapshotOptions;
+  /** 스택 트레이스 소스 맵 변환 설정 (true 또는 객체를 지정하면 활성화) */
+  sourceMaps?: boolean | SourceMapOptions;
+}
+
+/**
+ * 스택 트레이스 소스 맵 변환 설정
+ */
+export interface SourceMapOptions {
+  /**
+   * .map 파일을 가져올 기본 URL
+   * 지정하면 모든 스크립트의 소스 맵을 `${baseUrl}/${스크립트 파일 이름}.map`에서 가져옵니다.
+   * 생략하면 현재 페이지와 같은 출처(origin)의 스크립트만 sourceMappingURL 주석을 따라 가져옵니다.
+   */
+  baseUrl?: string;
+}
+
+/**
+ * OverlayRenderer가 사용하는 설정 옵션
+ * 렌더링과 관계없는 옵션을 제외하고 모든 값이 기본값으로 채워진 형태입니다.
+ */
+export type OverlayRendererOptions = Required<
+  Omit<
+    OverlayOptions,
+    | 'persistence'
+    | 'remote'
+    | 'argsMode'
+    | 'snapshot'
+    | 'sourceMaps'
+    | 'collapseRepeats'
+  >
+>;
+
+/**
+ * 로그 내보내기 형식
+ * - 'json': LogEntry 배열의 JSON
+ * - 'ndjson': 한 줄에 로그 항목 하나씩인 JSON (Newline Delimited JSON)
+ * - 'text': 화면 표시와 같은 `시:분:초.밀리초 [LEVEL] 메시지` 형식의 텍스트
+ * - 'html': 브라우저에서 바로 열 수 있는 단일 HTML 리포트
+ * - 'har': 네트워크 요청 항목의 HAR 1.2 파일
+ */
+export type ExportFormat = 'json' | 'ndjson' | 'text' | 'html' | 'har';
+
+/**
+ * 버그 리포트 번들
+ * 로그와 네트워크 요청, 실행 환경, 설정 값, 통계를 하나로 묶은 형태입니다.
+ */
+export interface DebugReport {
+  /** 리포트 생성 시간 (ISO 문자열) */
+  generatedAt: string;
+  /** 실행 환경 정보 */
+  environment: {
+    url: string;
+    userAgent: string;
+    language: string;
+    viewport: {
+      width: number;
+      height: number;
+      devicePixelRatio: number;
+    };
+  };
+  /** 현재 설정 옵션 */
+  options: OverlayOptions;
+  /** 레벨별 로그 수 통계 */
+  statistics: Record<LogLevel, number> & { total: number };
+  /** 로그 항목들 */
+  logs: LogEntry[];
+  /** 네트워크 요청 항목들 */
+  network: NetworkEntry[];
 }
 
+/**
+ * 로그 재생 옵션
+ */
+export interface LogReplayOptions {
+  /** 재생 속도 배율 (기본값: 1 - 원래 간격 그대로, 2면 두 배 빠르게) */
+  speed?: number;
+  /** 재생 세션 이름 (구분선에 표시, 기본값: 'Replay') */
+  name?: string;
+}
+
+/**
+ * 버그 리포트 전달 방식
+ * - 'download': 파일로 다운로드
+ * - 'clipboard': 클립보드에 복사 (모바일 환경)
+ */
+export type ReportDelivery = 'download' | 'clipboard';
+
 /**
  * JSON 뷰어에서 사용하는 값의 타입
  */
@@ -83,14 +542,36 @@ export interface OverlayElements {
   title: HTMLSpanElement;
   /** 컨트롤 버튼들 */
   controls: HTMLDivElement;
+  /** 내보내기 형식 선택 */
+  exportSelect: HTMLSelectElement;
+  /** 버그 리포트 버튼 */
+  reportButton: HTMLButtonElement;
   /** 클리어 버튼 */
   clearButton: HTMLButtonElement;
   /** 닫기 버튼 */
   closeButton: HTMLButtonElement;
+  /** 탭 바 */
+  tabBar: HTMLDivElement;
   /** 로그 필터 영역 */
   filters: HTMLDivElement;
+  /** 로그 채널 필터 버튼 영역 */
+  channelFilters: HTMLSpanElement;
+  /** 로그 검색 입력창 */
+  searchInput: HTMLInputElement;
+  /** 대소문자 구분 토글 버튼 */
+  searchCaseButton: HTMLButtonElement;
+  /** 검색 결과 위치/개수 표시 */
+  searchCount: HTMLSpanElement;
   /** 로그 컨테이너 */
   logContainer: HTMLDivElement;
+  /** 네트워크 요청 컨테이너 */
+  networkContainer: HTMLDivElement;
+  /** 네트워크 요청 필터 입력창 */
+  networkFilterInput: HTMLInputElement;
+  /** REPL 입력 영역 */
+  repl: HTMLDivElement;
+  /** REPL 명령 입력창 */
+  replInput: HTMLTextAreaElement;
   /** 리사이즈 핸들 */
   resizeHandle: HTMLDivElement;
 }
@@ -101,6 +582,8 @@ export interface OverlayElements {
 export interface DragState {
   /** 드래그 중인지 여부 */
   isDragging: boolean;
+  /** 드래그 중인 포인터 ID */
+  pointerId: number | null;
   /** 시작 X 좌표 */
   startX: number;
   /** 시작 Y 좌표 */
@@ -117,6 +600,8 @@ export interface DragState {
 export interface ResizeState {
   /** 리사이즈 중인지 여부 */
   isResizing: boolean;
+  /** 리사이즈 중인 포인터 ID */
+  pointerId: number | null;
   /** 시작 X 좌표 */
   startX: number;
   /** 시작 Y 좌표 */
@@ -127,18 +612,165 @@ export interface ResizeState {
   startHeight: number;
 }
 
+/**
+ * 두 손가락 리사이즈(핀치) 상태를 관리하는 인터페이스
+ */
+export interface PinchState {
+  /** 핀치 중인지 여부 */
+  isPinching: boolean;
+  /** 오버레이 위에 닿아 있는 터치 포인터의 현재 좌표 (포인터 ID별) */
+  touches: Map<number, { x: number; y: number }>;
+  /** 시작 시점의 두 손가락 사이 거리 */
+  startDistance: number;
+  /** 시작 시점의 요소 크기 */
+  startWidth: number;
+  /** 시작 시점의 요소 크기 */
+  startHeight: number;
+}
+
+/**
+ * 오버레이 탭 종류
+ * 기본 패널인 'console', 'network'와 플러그인이 등록한 패널의 ID입니다.
+ */
+export type OverlayTab = string;
+
+/**
+ * 오버레이에 탭으로 표시되는 패널
+ * 기본 Console/Network 뷰도 같은 형태의 패널로 등록됩니다.
+ */
+export interface OverlayPanel {
+  /** 패널 ID (탭 식별자, 다른 패널과 겹치면 안 됨) */
+  id: string;
+  /** 탭에 표시할 이름 */
+  label: string;
+  /** 패널 내용을 그립니다. 오버레이가 생성될 때(또는 생성 후 등록되면 즉시) 한 번 호출됩니다. */
+  render(container: HTMLElement): void;
+  /** 탭이 선택되었을 때 호출됩니다. */
+  onShow?(): void;
+  /** 다른 탭이 선택되었을 때 호출됩니다. */
+  onHide?(): void;
+  /** 헤더의 Clear 버튼을 눌렀을 때 호출됩니다. (없으면 이 탭에서는 Clear 버튼이 숨겨짐) */
+  onClear?(): void;
+  /** 오버레이가 제거될 때 호출됩니다. */
+  destroy?(): void;
+}
+
+/**
+ * 플러그인이 헤더에 추가하는 버튼
+ */
+export interface OverlayHeaderButton {
+  /** 버튼 ID (CSS 클래스로도 사용) */
+  id: string;
+  /** 버튼 텍스트 */
+  label: string;
+  /** 툴팁 (선택사항) */
+  title?: string;
+  /** 버튼을 눌렀을 때 호출됩니다. */
+  onClick(): void;
+}
+
+/**
+ * 플러그인이 onInit에서 받는 컨텍스트
+ */
+export interface DebugOverlayPluginContext {
+  /** 디버그 오버레이 Public API */
+  overlay: DebugOverlayAPI;
+  /** 패널을 탭으로 등록합니다. */
+  addPanel(panel: OverlayPanel): void;
+  /** 헤더에 버튼을 추가합니다. */
+  addHeaderButton(button: OverlayHeaderButton): void;
+  /** 패널 탭의 배지 숫자를 설정합니다. (0이면 숨김) */
+  setPanelBadge(panelId: string, count: number): void;
+}
+
+/**
+ * 디버그 오버레이 플러그인
+ * use()로 등록하며, 등록된 순서대로 훅이 호출됩니다.
+ */
+export interface DebugOverlayPlugin {
+  /** 플러그인 이름 (중복 등록 확인에 사용) */
+  name: string;
+  /** 오버레이가 초기화된 후 호출됩니다. (이미 초기화되었으면 use() 시점에 호출) */
+  onInit?(context: DebugOverlayPluginContext): void;
+  /**
+   * 로그 항목이 LogStore에 추가되기 전에 호출됩니다.
+   * 변경한 항목을 반환하면 그 항목이 저장되고, null을 반환하면 항목을 버립니다.
+   * 아무것도 반환하지 않으면 원래 항목이 그대로 전달됩니다.
+   */
+  onLogEntry?(entry: LogEntry): LogEntry | null | void;
+  /** 오버레이가 정리될 때 호출됩니다. */
+  onDestroy?(): void;
+}
+
+/**
+ * 로그 채널 표시 규칙
+ * 여러 규칙이 같은 채널과 일치하면 나중에 추가된 규칙을 따릅니다.
+ */
+export interface ChannelRule {
+  /** 채널 이름 패턴 (`*`는 `:`를 포함한 모든 문자열과 일치) */
+  pattern: string;
+  /** 일치하는 채널의 로그를 표시할지 여부 */
+  enabled: boolean;
+}
+
+/**
+ * createLogger()가 반환하는 채널 로거
+ * console과 같은 메서드로 로그를 남기며, 모든 항목에 채널 이름이 붙습니다.
+ */
+export interface ChannelLogger {
+  /** 채널 이름 */
+  readonly channel: string;
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+}
+
+/**
+ * 로그 검색 상태 인터페이스
+ */
+export interface SearchState {
+  /** 검색어 (일반 텍스트 또는 /regex/flags) */
+  query: string;
+  /** 대소문자 구분 여부 */
+  caseSensitive: boolean;
+  /** 현재 선택된 검색 결과 로그 ID */
+  currentId: string | null;
+}
+
 /**
  * 오버레이 상태를 관리하는 인터페이스
  */
 export interface OverlayState {
   /** 오버레이가 표시되고 있는지 여부 */
   isVisible: boolean;
+  /** 현재 선택된 탭 */
+  activeTab: OverlayTab;
   /** 현재 필터링된 로그 레벨들 */
   activeFilters: Set<LogLevel>;
+  /** 로그 채널 표시 규칙 (나중에 추가된 규칙이 우선) */
+  channelRules: ChannelRule[];
+  /** 접혀 있는 console.group의 ID들 */
+  collapsedGroups: Set<string>;
+  /** 소스 맵 변환 전의 원래 스택을 표시 중인 로그 항목의 ID들 */
+  originalStackIds: Set<string>;
+  /** 모든 프레임을 펼쳐 표시 중인 스택의 로그 항목 ID들 */
+  expandedStackIds: Set<string>;
+  /** 로그 검색 상태 */
+  search: SearchState;
+  /** Network 탭의 URL/메서드 필터 */
+  networkFilter: string;
+  /** 탭별로 마지막에 보고 있던 스크롤 위치 */
+  scrollPositions: Map<OverlayTab, number>;
+  /** 탭별 배지 숫자 (읽지 않은 에러 수 등, 0이면 표시하지 않음) */
+  badges: Map<OverlayTab, number>;
   /** 드래그 상태 */
   dragState: DragState;
   /** 리사이즈 상태 */
   resizeState: ResizeState;
+  /** 두 손가락 리사이즈(핀치) 상태 */
+  pinchState: PinchState;
 }
 
 /**
@@ -150,6 +782,28 @@ export interface OriginalConsoleMethods {
   warn: typeof console.warn;
   error: typeof console.error;
   debug: typeof console.debug;
+  table: typeof console.table;
+  group: typeof console.group;
+  groupCollapsed: typeof console.groupCollapsed;
+  groupEnd: typeof console.groupEnd;
+  time: typeof console.time;
+  timeLog: typeof console.timeLog;
+  timeEnd: typeof console.timeEnd;
+  count: typeof console.count;
+  countReset: typeof console.countReset;
+  assert: typeof console.assert;
+  trace: typeof console.trace;
+  dir: typeof console.dir;
+}
+
+/**
+ * 네트워크 API의 원본 참조를 저장하는 인터페이스
+ */
+export interface OriginalNetworkMethods {
+  fetch: typeof window.fetch;
+  xhrOpen: typeof XMLHttpRequest.prototype.open;
+  xhrSend: typeof XMLHttpRequest.prototype.send;
+  xhrSetRequestHeader: typeof XMLHttpRequest.prototype.setRequestHeader;
 }
 
 /**
@@ -170,6 +824,16 @@ export interface DebugOverlayAPI {
   isVisible(): boolean;
   /** 로그 수동 추가 */
   addLog(level: LogLevel, ...args: unknown[]): void;
+  /** 채널 이름이 붙는 로거 생성 */
+  createLogger(channel: string): ChannelLogger;
+  /** 패턴과 일치하는 로그 채널 표시 (예: 'payments:*') */
+  enableChannels(patterns: string): void;
+  /** 패턴과 일치하는 로그 채널 숨김 */
+  disableChannels(patterns: string): void;
+  /** 페이지 스코프에서 JavaScript 표현식 평가 */
+  evaluate(code: string): void;
   /** 모든 로그 삭제 */
   clearLogs(): void;
+  /** 플러그인 등록 */
+  use(plugin: DebugOverlayPlugin): void;
 }
@@ -0,0 +1,359 @@
+import { LogLevel } from '../types/types.js'
+import type { ThemePalette } from '../types/types.js'
+import { applyThemeVariables } from './styles.js'
+
+/**
+ * 런처 위치를 기억하는 localStorage 키
+ */
+const POSITION_STORAGE_KEY = 'debug-overlay-launcher-position'
+
+/**
+ * 화면 가장자리와 런처 사이의 여백 (px)
+ */
+const EDGE_MARGIN = 8
+
+/**
+ * 이 거리(px) 이상 움직여야 탭이 아닌 드래그로 봅니다.
+ */
+const DRAG_THRESHOLD = 5
+
+/**
+ * 배지를 표시하는 순서 (심각한 레벨부터)
+ */
+const BADGE_LEVELS: LogLevel[] = [
+  LogLevel.ERROR,
+  LogLevel.WARN,
+  LogLevel.INFO,
+  LogLevel.LOG,
+  LogLevel.DEBUG,
+]
+
+/**
+ * 런처가 붙어 있는 화면 가장자리와 세로 위치
+ */
+interface LauncherPosition {
+  edge: 'left' | 'right'
+  top: number
+}
+
+/**
+ * 런처 드래그 상태
+ */
+interface LauncherDragState {
+  pointerId: number
+  startX: number
+  startY: number
+  startLeft: number
+  startTop: number
+  moved: boolean
+}
+
+/**
+ * 플로팅 런처 클래스
+ *
+ * 단일 책임: 오버레이가 숨겨져 있는 동안 화면에 떠 있는 버튼을 그리고, 탭하면 오버레이를 여는 책임만 가집니다.
+ * - 레벨별 읽지 않은 로그 수 배지 표시
+ * - 드래그로 이동하고, 놓으면 가까운 좌우 가장자리에 붙음
+ * - 마지막 위치를 localStorage에 기억
+ */
+export class FloatingLauncher {
+  private _element: HTMLButtonElement | null
+  private _badges: HTMLSpanElement | null
+  private _position: LauncherPosition
+  private _dragState: LauncherDragState | null
+  private _onOpenCallback: (() => void) | null
+
+  /**
+   * FloatingLauncher 인스턴스를 생성합니다.
+   *
+   * @param defaultEdge 저장된 위치가 없을 때 붙을 가장자리
+   */
+  constructor(defaultEdge: 'left' | 'right' = 'right') {
+    this._element = null
+    this._badges = null
+    this._position = loadPosition() ?? {
+      edge: defaultEdge,
+      top: window.innerHeight - 120,
+    }
+    this._dragState = null
+    this._onOpenCallback = null
+    this._handleWindowResize = this._handleWindowResize.bind(this)
+  }
+
+  /**
+   * 런처 요소를 생성해 추가합니다. (처음에는 숨겨진 상태)
+   *
+   * @param root 런처를 추가할 요소 (document.body 또는 오버레이의 shadow root)
+   * @param zIndex 런처의 z-index
+   */
+  public mount(root: Node, zIndex: number): void {
+    if (this._element) {
+      return
+    }
+
+    const element = document.createElement('button')
+    element.type = 'button'
+    element.className = 'debug-overlay-launcher hidden'
+    element.title = 'Open debug console'
+    element.setAttribute('aria-label', 'Open debug console')
+    element.style.zIndex = String(zIndex)
+
+    const icon = document.createElement('span')
+    icon.className = 'debug-overlay-launcher-icon'
+    icon.textContent = '🐛'
+
+    this._badges = document.createElement('span')
+    this._badges.className = 'debug-overlay-launcher-badges'
+
+    element.appendChild(icon)
+    element.appendChild(this._badges)
+
+    element.addEventListener('pointerdown', (event) => {
+      this._handlePointerDown(event)
+    })
+    element.addEventListener('pointermove', (event) => {
+      this._handlePointerMove(event)
+    })
+    element.addEventListener('pointerup', (event) => {
+      this._handlePointerUp(event)
+    })
+    element.addEventListener('pointercancel', () => {
+      this._finishDrag()
+    })
+    element.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault()
+        this._onOpenCallback?.()
+      }
+    })
+
+    root.appendChild(element)
+    window.addEventListener('resize', this._handleWindowResize)
+
+    this._element = element
+    this._applyPosition()
+  }
+
+  /**
+   * 런처를 표시합니다.
+   */
+  public show(): void {
+    if (!this._element) return
+
+    this._element.classList.remove('hidden')
+    // 숨겨져 있는 동안 화면 크기가 바뀌었을 수 있으므로 다시 화면 안에 둡니다.
+    this._applyPosition()
+  }
+
+  /**
+   * 런처를 숨깁니다.
+   */
+  public hide(): void {
+    this._finishDrag()
+    this._element?.classList.add('hidden')
+  }
+
+  /**
+   * 레벨별 읽지 않은 로그 수를 배지로 표시합니다. (0인 레벨은 표시하지 않음)
+   *
+   * @param counts 레벨별 읽지 않은 로그 수
+   */
+  public setCounts(counts: Record<LogLevel, number>): void {
+    if (!this._badges) return
+
+    this._badges.innerHTML = ''
+    BADGE_LEVELS.forEach((level) => {
+      const count = counts[level]
+      if (!count) return
+
+      const badge = document.createElement('span')
+      badge.className = `debug-overlay-launcher-count ${level}`
+      badge.textContent = count > 99 ? '99+' : String(count)
+      badge.title = `${count} unread ${level}`
+      this._badges!.appendChild(badge)
+    })
+  }
+
+  /**
+   * 런처에 테마 색상을 적용합니다.
+   * (오버레이가 shadow root 밖에 있어 색상을 상속받을 공통 부모가 없을 때 사용)
+   *
+   * @param palette 색상 팔레트
+   */
+  public applyTheme(palette: ThemePalette): void {
+    if (this._element) {
+      applyThemeVariables(this._element, palette)
+    }
+  }
+
+  /**
+   * 런처를 탭했을 때 실행할 콜백을 설정합니다.
+   */
+  public onOpen(callback: () => void): void {
+    this._onOpenCallback = callback
+  }
+
+  /**
+   * 런처를 DOM에서 제거하고 리소스를 정리합니다.
+   */
+  public destroy(): void {
+    window.removeEventListener('resize', this._handleWindowResize)
+    this._element?.remove()
+    this._element = null
+    this._badges = null
+    this._dragState = null
+    this._onOpenCallback = null
+  }
+
+  /**
+   * 드래그(또는 탭)를 시작합니다.
+   */
+  private _handlePointerDown(event: PointerEvent): void {
+    if (!this._element || !event.isPrimary || event.button !== 0) return
+
+    event.preventDefault()
+    try {
+      this._element.setPointerCapture(event.pointerId)
+    } catch (error) {
+      // 캡처할 수 없는 포인터여도 탭은 동작합니다.
+    }
+
+    const rect = this._element.getBoundingClientRect()
+    this._dragState = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startLeft: rect.left,
+      startTop: rect.top,
+      moved: false,
+    }
+  }
+
+  /**
+   * 드래그 중인 런처를 포인터를 따라 이동시킵니다.
+   */
+  private _handlePointerMove(event: PointerEvent): void {
+    const drag = this._dragState
+    if (!this._element || !drag || drag.pointerId !== event.pointerId) return
+
+    const deltaX = event.clientX - drag.startX
+    const deltaY = event.clientY - drag.startY
+    if (!drag.moved && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD) {
+      return
+    }
+
+    drag.moved = true
+    this._element.classList.add('dragging')
+
+    const { width, height } = this._element.getBoundingClientRect()
+    const left = clamp(drag.startLeft + deltaX, 0, window.innerWidth - width)
+    const top = clamp(drag.startTop + deltaY, 0, window.innerHeight - height)
+
+    this._element.style.left = `${left}px`
+    this._element.style.top = `${top}px`
+    this._element.style.right = 'auto'
+  }
+
+  /**
+   * 드래그했다면 가까운 가장자리에 붙이고, 움직이지 않았다면 탭으로 보고 오버레이를 엽니다.
+   */
+  private _handlePointerUp(event: PointerEvent): void {
+    const drag = this._dragState
+    if (!this._element || !drag || drag.pointerId !== event.pointerId) return
+
+    if (!drag.moved) {
+      this._finishDrag()
+      this._onOpenCallback?.()
+      return
+    }
+
+    const rect = this._element.getBoundingClientRect()
+    this._position = {
+      edge:
+        rect.left + rect.width / 2 < window.innerWidth / 2 ? 'left' : 'right',
+      top: rect.top,
+    }
+    savePosition(this._position)
+
+    this._finishDrag()
+    this._applyPosition()
+  }
+
+  /**
+   * 드래그 상태를 정리합니다.
+   */
+  private _finishDrag(): void {
+    this._dragState = null
+    this._element?.classList.remove('dragging')
+  }
+
+  /**
+   * 화면 크기가 바뀌면 런처를 다시 화면 안에 둡니다.
+   */
+  private _handleWindowResize(): void {
+    if (!this._dragState) {
+      this._applyPosition()
+    }
+  }
+
+  /**
+   * 기억한 가장자리와 세로 위치를 화면 안으로 제한해 적용합니다.
+   */
+  private _applyPosition(): void {
+    if (!this._element) return
+
+    const height = this._element.offsetHeight
+    const top = clamp(
+      this._position.top,
+      EDGE_MARGIN,
+      window.innerHeight - height - EDGE_MARGIN
+    )
+
+    this._element.style.top = `${top}px`
+    this._element.style.left =
+      this._position.edge === 'left' ? `${EDGE_MARGIN}px` : 'auto'
+    this._element.style.right =
+      this._position.edge === 'right' ? `${EDGE_MARGIN}px` : 'auto'
+  }
+}
+
+/**
+ * localStorage에 저장된 런처 위치를 불러옵니다.
+ *
+ * @returns 저장된 위치가 없거나 읽을 수 없으면 null
+ */
+function loadPosition(): LauncherPosition | null {
+  try {
+    const saved = localStorage.getItem(POSITION_STORAGE_KEY)
+    if (!saved) return null
+
+    const position = JSON.parse(saved) as Partial<LauncherPosition>
+    if (
+      (position.edge === 'left' || position.edge === 'right') &&
+      typeof position.top === 'number'
+    ) {
+      return { edge: position.edge, top: position.top }
+    }
+  } catch (error) {
+    // 저장소에 접근할 수 없거나 값이 깨졌으면 기본 위치를 사용합니다.
+  }
+  return null
+}
+
+/**
+ * 런처 위치를 localStorage에 저장합니다.
+ */
+function savePosition(position: LauncherPosition): void {
+  try {
+    localStorage.setItem(POSITION_STORAGE_KEY, JSON.stringify(position))
+  } catch (error) {
+    // 저장하지 못해도 현재 페이지에서는 위치가 유지됩니다.
+  }
+}
+
+/**
+ * 값을 최솟값과 최댓값 사이로 제한합니다. (최댓값이 더 작으면 최솟값 우선)
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max))
+}
@@ -1,30 +1,127 @@
 import { LogLevel } from '../types/types.js'
 import type {
+  ChannelRule,
+  ExportFormat,
   LogEntry,
+  LogSession,
+  NetworkEntry,
   OverlayOptions,
+  OverlayRendererOptions,
   OverlayElements,
   OverlayState,
+  OverlayTab,
+  OverlayPanel,
+  OverlayHeaderButton,
+  OverlayTheme,
+  StackFrame,
 } from '../types/types.js'
 import { JsonViewer } from '../components/json-viewer.js'
+import { ConsoleTable } from '../components/console-table.js'
+import { SearchHighlighter } from '../components/search-highlighter.js'
+import { CommandHistory } from '../repl/command-history.js'
+import { VirtualLogList } from './virtual-log-list.js'
+import {
+  formatConsoleArgs,
+  formatConsoleArgsToText,
+  formatLogTimestamp,
+  hasFormatSpecifiers,
+} from '../utils/console-format.js'
+import { reviveSnapshot } from '../utils/serializer.js'
+import type { FormattedSegment } from '../utils/console-format.js'
+import { createSearchPattern, matchesSearch } from '../utils/log-search.js'
+import {
+  createChannelRules,
+  getChannelColor,
+  isChannelEnabled,
+  mergeChannelRules,
+  parseChannelPatterns,
+} from '../utils/log-channel.js'
+import {
+  formatStackFrame,
+  formatStackLocation,
+  parseStackTrace,
+} from '../utils/stack-parser.js'
+import { copyTextToClipboard } from '../export/file-download.js'
+import { StoragePanel } from '../panels/storage-panel.js'
+import { SystemPanel } from '../panels/system-panel.js'
+import { FloatingLauncher } from './floating-launcher.js'
+import {
+  applyShadowStyles,
+  applyThemeVariables,
+  injectStyles,
+  isAutoTheme,
+  removeStyles,
+  resolveThemePalette,
+} from './styles.js'
+
+/**
+ * 기본 패널 ID 목록 (플러그인 패널은 이 ID를 사용할 수 없음)
+ */
+const BUILT_IN_PANEL_IDS: OverlayTab[] = [
+  'console',
+  'network',
+  'storage',
+  'system',
+]
+
+/**
+ * 자체 스크롤 영역을 가진 패널 ID 목록
+ * 나머지 패널은 패널 컨테이너 자체가 스크롤됩니다.
+ */
+const SELF_SCROLLING_PANEL_IDS: OverlayTab[] = ['console', 'network']
+
+/**
+ * 리사이즈할 수 있는 최소 크기 (화면이 더 작으면 화면 크기)
+ */
+const MIN_OVERLAY_WIDTH = 300
+const MIN_OVERLAY_HEIGHT = 200
 
 /**
  * 오버레이 렌더러 클래스
  *
  * 단일 책임: 전달받은 데이터를 기반으로 실제 DOM 요소를 화면에 그리고 제거하며, UI 이벤트를 처리하는 책임만 가집니다.
  * - DOM 요소 생성 및 관리
- * - 로그 항목들의 시각적 렌더링
+ * - 로그 항목들의 시각적 렌더링 (보이는 행만 그리는 가상 목록)
  * - 드래그 앤 드롭 기능
  * - 리사이즈 기능
  * - 필터링 UI
+ * - 패널(탭) 등록과 전환 (기본 Console/Network 패널과 플러그인 패널)
+ * - REPL 명령 입력 및 히스토리 탐색
+ * - 로그 내보내기 / 버그 리포트 버튼
  * - 사용자 인터랙션 처리
  */
 export class OverlayRenderer {
   private _elements: OverlayElements | null
+  private _logList: VirtualLogList | null
   private _state: OverlayState
-  private _options: Required<OverlayOptions>
+  private _options: OverlayRendererOptions
   private _onClearCallback: (() => void) | null
+  private _onNetworkClearCallback: (() => void) | null
   private _onCloseCallback: (() => void) | null
+  private _onOpenCallback: (() => void) | null
   private _onFilterChangeCallback: ((levels: LogLevel[]) => void) | null
+  private _onCommandCallback: ((code: string) => void) | null
+  private _onExportCallback: ((format: ExportFormat) => void) | null
+  private _onReportCallback: (() => void) | null
+  private _noticeTimer: ReturnType<typeof setTimeout> | null
+  private _commandHistory: CommandHistory
+  private _seenGroups: Set<string>
+  private _channelButtons: Map<string, HTMLButtonElement>
+  private _searchPattern: RegExp | null
+  private _panels: OverlayPanel[]
+  private _panelElements: Map<string, HTMLDivElement>
+  private _headerButtons: OverlayHeaderButton[]
+  private _networkEntries: NetworkEntry[]
+  private _networkRows: Map<
+    string,
+    { entry: NetworkEntry; element: HTMLDivElement }
+  >
+  private _renderedNetworkFilter: string | null
+  private _failedRequestIds: Set<string>
+  private _launcher: FloatingLauncher | null
+  private _host: HTMLDivElement | null
+  private _shadowRoot: ShadowRoot | null
+  private _colorSchemeQuery: MediaQueryList | null
 
   /**
    * OverlayRenderer 인스턴스를 생성합니다.
@@ -33,9 +130,32 @@ export class OverlayRenderer {
    */
   constructor(options: OverlayOptions = {}) {
     this._elements = null
+    this._logList = null
     this._onClearCallback = null
+    this._onNetworkClearCallback = null
     this._onCloseCallback = null
+    this._onOpenCallback = null
     this._onFilterChangeCallback = null
+    this._onCommandCallback = null
+    this._onExportCallback = null
+    this._onReportCallback = null
+    this._noticeTimer = null
+    this._commandHistory = new CommandHistory()
+    this._seenGroups = new Set()
+    this._channelButtons = new Map()
+    this._searchPattern = null
+    this._panels = []
+    this._panelElements = new Map()
+    this._headerButtons = []
+    this._networkEntries = []
+    this._networkRows = new Map()
+    this._renderedNetworkFilter = null
+    this._failedRequestIds = new Set()
+    this._launcher = null
+    this._host = null
+    this._shadowRoot = null
+    this._colorSchemeQuery = null
+    this._handleColorSchemeChange = this._handleColorSchemeChange.bind(this)
 
     this._options = {
       maxLogs: options.maxLogs ?? 1000,
@@ -53,13 +173,35 @@ export class OverlayRenderer {
         LogLevel.ERROR,
         LogLevel.DEBUG,
       ],
+      captureNetwork: options.captureNetwork ?? true,
+      maxNetworkEntries: options.maxNetworkEntries ?? 500,
+      enableRepl: options.enableRepl ?? true,
+      stackFrameLimit: options.stackFrameLimit ?? 5,
+      launcher: options.launcher ?? true,
+      shadowDom: options.shadowDom ?? 'open',
+      cspNonce: options.cspNonce ?? '',
+      channels: options.channels ?? '',
     }
 
     this._state = {
       isVisible: false,
+      activeTab: 'console',
       activeFilters: new Set(this._options.enabledLevels),
+      channelRules: createChannelRules(this._options.channels),
+      collapsedGroups: new Set(),
+      originalStackIds: new Set(),
+      expandedStackIds: new Set(),
+      search: {
+        query: '',
+        caseSensitive: false,
+        currentId: null,
+      },
+      networkFilter: '',
+      scrollPositions: new Map(),
+      badges: new Map(),
       dragState: {
         isDragging: false,
+        pointerId: null,
         startX: 0,
         startY: 0,
         startLeft: 0,
@@ -67,11 +209,19 @@ export class OverlayRenderer {
       },
       resizeState: {
         isResizing: false,
+        pointerId: null,
         startX: 0,
         startY: 0,
         startWidth: 0,
         startHeight: 0,
       },
+      pinchState: {
+        isPinching: false,
+        touches: new Map(),
+        startDistance: 0,
+        startWidth: 0,
+        startHeight: 0,
+      },
     }
   }
 
@@ -85,35 +235,117 @@ export class OverlayRenderer {
 
     const container = document.createElement('div')
     container.className = 'debug-overlay hidden'
-    container.style.cssText = this._getContainerStyles()
+    this._applyContainerStyles(container)
 
     const header = this._createHeader()
     container.appendChild(header.element)
 
-    const filters = this._createFilters()
-    container.appendChild(filters)
+    const tabBar = this._createTabBar()
+    container.appendChild(tabBar)
 
+    const filters = this._createFilters()
     const logContainer = this._createLogContainer()
-    container.appendChild(logContainer)
+    const networkFilter = this._createNetworkFilter()
+    const networkContainer = this._createNetworkContainer()
+    const repl = this._createRepl()
 
     const resizeHandle = this._createResizeHandle()
     container.appendChild(resizeHandle)
 
-    document.body.appendChild(container)
+    const root = this._createRoot()
+    root.appendChild(container)
 
     this._elements = {
       container,
       header: header.element,
       title: header.title,
       controls: header.controls,
+      exportSelect: header.exportSelect,
+      reportButton: header.reportButton,
       clearButton: header.clearButton,
       closeButton: header.closeButton,
-      filters,
+      tabBar,
+      filters: filters.element,
+      channelFilters: filters.channelFilters,
+      searchInput: filters.searchInput,
+      searchCaseButton: filters.searchCaseButton,
+      searchCount: filters.searchCount,
       logContainer,
+      networkContainer,
+      networkFilterInput: networkFilter.input,
+      repl: repl.element,
+      replInput: repl.input,
       resizeHandle,
     }
 
+    this._logList = new VirtualLogList(logContainer, {
+      createRow: (log) => this._createLogElement(log),
+      decorateRow: (row, log, previous) => {
+        this._decorateSessionBoundary(row, log, previous)
+        this._decorateSearchMatch(row, log)
+      },
+      autoScroll: this._options.autoScroll,
+    })
+
+    // 기본 패널은 플러그인 패널보다 앞에 표시합니다.
+    this._panels = [
+      ...this._createBuiltInPanels(
+        [filters.element, logContainer, repl.element],
+        [networkFilter.element, networkContainer]
+      ),
+      ...this._panels,
+    ]
+    this._panels.forEach((panel) => this._mountPanel(panel))
+    this._headerButtons.forEach((button) => this._mountHeaderButton(button))
+
     this._attachEventListeners()
+    this._applyActiveTab()
+
+    if (this._options.launcher) {
+      this._launcher = new FloatingLauncher(
+        this._options.position.endsWith('left') ? 'left' : 'right'
+      )
+      this._launcher.onOpen(() => this._onOpenCallback?.())
+      this._launcher.mount(root, this._options.zIndex)
+      this._launcher.show()
+    }
+
+    this._applyTheme()
+  }
+
+  /**
+   * 패널을 탭으로 등록합니다.
+   * 오버레이가 이미 생성되었으면 바로 탭과 패널을 추가합니다.
+   *
+   * @param panel 등록할 패널
+   * @throws 같은 ID의 패널이 이미 있는 경우
+   */
+  public addPanel(panel: OverlayPanel): void {
+    if (
+      BUILT_IN_PANEL_IDS.includes(panel.id) ||
+      this._panels.some(({ id }) => id === panel.id)
+    ) {
+      throw new Error(`이미 등록된 패널 ID입니다: ${panel.id}`)
+    }
+
+    this._panels.push(panel)
+    if (this._elements) {
+      this._mountPanel(panel)
+      this._applyActiveTab()
+    }
+  }
+
+  /**
+   * 헤더에 버튼을 추가합니다.
+   * 오버레이가 이미 생성되었으면 바로 버튼을 추가합니다.
+   *
+   * @param button 추가할 버튼
+   */
+  public addHeaderButton(button: OverlayHeaderButton): void {
+    this._headerButtons.push(button)
+    if (this._elements) {
+      this._mountHeaderButton(button)
+    }
   }
 
   /**
@@ -127,6 +359,9 @@ export class OverlayRenderer {
     if (this._elements && !this._state.isVisible) {
       this._elements.container.classList.remove('hidden')
       this._state.isVisible = true
+      this._launcher?.hide()
+      this._restoreScrollPosition(this._state.activeTab)
+      this.setPanelBadge(this._state.activeTab, 0)
     }
   }
 
@@ -135,8 +370,10 @@ export class OverlayRenderer {
    */
   public hide(): void {
     if (this._elements && this._state.isVisible) {
+      this._saveScrollPosition(this._state.activeTab)
       this._elements.container.classList.add('hidden')
       this._state.isVisible = false
+      this._launcher?.show()
     }
   }
 
@@ -159,37 +396,209 @@ export class OverlayRenderer {
   }
 
   /**
-   * 로그 항목들을 렌더링합니다.
+   * 로그 목록 전체를 렌더링합니다.
+   * 필터 변경처럼 목록이 통째로 바뀔 때 사용하며, 이미 만들어진 행은 재사용됩니다.
    *
    * @param logs 렌더링할 로그 항목들
    */
   public renderLogs(logs: LogEntry[]): void {
+    if (!this._logList) {
+      return
+    }
+
+    logs.forEach((log) => {
+      this._registerGroup(log)
+      this._registerChannel(log)
+    })
+    const filteredLogs = logs.filter((log) => this._matchesFilters(log))
+
+    this._logList.setEntries(
+      filteredLogs,
+      this._options.autoScroll && !this._state.search.currentId
+    )
+    this._updateSearchCount()
+  }
+
+  /**
+   * 새로 추가된 로그 항목 하나를 렌더링합니다.
+   *
+   * @param log 추가된 로그 항목
+   * @param removed 최대 로그 수 초과로 제거된 로그 항목들
+   */
+  public appendLog(log: LogEntry, removed: LogEntry[] = []): void {
+    if (!this._logList) {
+      return
+    }
+
+    if (removed.length > 0) {
+      this._logList.remove(new Set(removed.map((entry) => entry.id)))
+    }
+
+    this._registerGroup(log)
+    this._registerChannel(log)
+    if (this._matchesFilters(log)) {
+      this._logList.append(log)
+
+      // 현재 필터로 숨겨진 에러는 탭을 열어도 보이지 않으므로 배지에 세지 않습니다.
+      if (log.level === LogLevel.ERROR && !this._isTabInView('console')) {
+        this._incrementBadge('console')
+      }
+    }
+
+    if (this._searchPattern) {
+      this._updateSearchCount()
+    }
+  }
+
+  /**
+   * 내용이 바뀐 로그 항목 하나를 다시 렌더링합니다.
+   * 현재 필터로 표시되지 않는 항목이면 아무것도 하지 않습니다.
+   *
+   * @param log 변경된 로그 항목
+   */
+  public updateLog(log: LogEntry): void {
+    if (!this._logList) {
+      return
+    }
+
+    this._logList.replace(log, (row, previous) =>
+      this._updateRepeatInPlace(row, previous, log)
+    )
+
+    if (this._searchPattern) {
+      this._updateSearchCount()
+    }
+  }
+
+  /**
+   * 네트워크 요청 항목들을 렌더링합니다.
+   * 필터가 바뀌었을 때만 목록을 다시 만들고, 그 외에는 바뀐 요청의 요소만 data-id 기준으로
+   * 추가/교체/제거하여 스크롤 위치와 선택 상태를 유지합니다.
+   *
+   * @param entries 렌더링할 요청 항목들
+   */
+  public renderNetwork(entries: NetworkEntry[]): void {
     if (!this._elements) {
       return
     }
 
-    const filteredLogs = logs.filter((log) =>
-      this._state.activeFilters.has(log.level)
+    this._networkEntries = entries
+    this._updateFailedRequestBadge(entries)
+
+    const container = this._elements.networkContainer
+    const filter = this._state.networkFilter.toLowerCase()
+
+    if (filter !== this._renderedNetworkFilter) {
+      container.innerHTML = ''
+      this._networkRows.clear()
+      this._renderedNetworkFilter = filter
+    }
+
+    const visibleEntries = entries.filter(
+      (entry) =>
+        !filter || `${entry.method} ${entry.url}`.toLowerCase().includes(filter)
     )
+    const visibleIds = new Set(visibleEntries.map((entry) => entry.id))
+
+    this._networkRows.forEach((row, id) => {
+      if (!visibleIds.has(id)) {
+        row.element.remove()
+        this._networkRows.delete(id)
+      }
+    })
 
-    this._elements.logContainer.innerHTML = ''
+    let added = false
+    let previous: HTMLDivElement | null = null
+    visibleEntries.forEach((entry) => {
+      const row = this._networkRows.get(entry.id)
+      let element: HTMLDivElement
+
+      if (!row) {
+        element = this._createNetworkElement(entry)
+        added = true
+      } else if (row.entry !== entry) {
+        // 스토어는 갱신된 요청만 새 객체로 바꾸므로, 객체가 같으면 요소를 그대로 둡니다.
+        element = this._createNetworkElement(entry)
+        if (row.element.classList.contains('expanded')) {
+          this._toggleNetworkDetails(element, entry)
+        }
+        row.element.replaceWith(element)
+      } else {
+        element = row.element
+      }
+
+      if (element.previousElementSibling !== previous) {
+        container.insertBefore(
+          element,
+          previous ? previous.nextSibling : container.firstChild
+        )
+      }
 
-    filteredLogs.forEach((log) => {
-      const logElement = this._createLogElement(log)
-      this._elements!.logContainer.appendChild(logElement)
+      this._networkRows.set(entry.id, { entry, element })
+      previous = element
     })
 
-    if (this._options.autoScroll) {
-      this._scrollToBottom()
+    if (added && this._options.autoScroll) {
+      container.scrollTop = container.scrollHeight
+    }
+  }
+
+  /**
+   * 현재 선택된 탭을 반환합니다.
+   */
+  public getActiveTab(): OverlayTab {
+    return this._state.activeTab
+  }
+
+  /**
+   * 선택된 탭을 변경합니다.
+   *
+   * @param tab 선택할 탭
+   */
+  public setActiveTab(tab: OverlayTab): void {
+    const previous = this._state.activeTab
+    if (previous !== tab) {
+      this._saveScrollPosition(previous)
+    }
+
+    this._state.activeTab = tab
+    this._applyActiveTab()
+
+    if (previous !== tab) {
+      this._restoreScrollPosition(tab)
+      this._findPanel(previous)?.onHide?.()
+      this._findPanel(tab)?.onShow?.()
+    }
+
+    if (this._state.isVisible) {
+      this.setPanelBadge(tab, 0)
+    }
+  }
+
+  /**
+   * 패널 탭의 배지 숫자를 설정합니다.
+   *
+   * @param tab 패널 ID
+   * @param count 배지 숫자 (0이면 숨김)
+   */
+  public setPanelBadge(tab: OverlayTab, count: number): void {
+    if (count > 0) {
+      this._state.badges.set(tab, count)
+    } else {
+      this._state.badges.delete(tab)
     }
+    this._applyBadge(tab)
   }
 
   /**
    * 모든 로그를 삭제합니다.
    */
   public clearLogs(): void {
-    if (this._elements) {
-      this._elements.logContainer.innerHTML = ''
+    this._state.originalStackIds.clear()
+    this._state.expandedStackIds.clear()
+    this.setPanelBadge('console', 0)
+    if (this._logList) {
+      this._logList.setEntries([], this._options.autoScroll)
     }
   }
 
@@ -200,6 +609,13 @@ export class OverlayRenderer {
     this._onClearCallback = callback
   }
 
+  /**
+   * 네트워크 탭에서 클리어 버튼 클릭 콜백을 설정합니다.
+   */
+  public onNetworkClear(callback: () => void): void {
+    this._onNetworkClearCallback = callback
+  }
+
   /**
    * 닫기 버튼 클릭 콜백을 설정합니다.
    */
@@ -207,6 +623,22 @@ export class OverlayRenderer {
     this._onCloseCallback = callback
   }
 
+  /**
+   * 플로팅 런처 클릭 콜백을 설정합니다.
+   */
+  public onOpen(callback: () => void): void {
+    this._onOpenCallback = callback
+  }
+
+  /**
+   * 플로팅 런처에 레벨별 읽지 않은 로그 수를 표시합니다.
+   *
+   * @param counts 레벨별 읽지 않은 로그 수
+   */
+  public setUnreadCounts(counts: Record<LogLevel, number>): void {
+    this._launcher?.setCounts(counts)
+  }
+
   /**
    * 필터 변경 콜백을 설정합니다.
    */
@@ -214,49 +646,245 @@ export class OverlayRenderer {
     this._onFilterChangeCallback = callback
   }
 
+  /**
+   * REPL 명령 실행 콜백을 설정합니다.
+   */
+  public onCommand(callback: (code: string) => void): void {
+    this._onCommandCallback = callback
+  }
+
+  /**
+   * 내보내기 형식 선택 콜백을 설정합니다.
+   */
+  public onExport(callback: (format: ExportFormat) => void): void {
+    this._onExportCallback = callback
+  }
+
+  /**
+   * 버그 리포트 버튼 클릭 콜백을 설정합니다.
+   */
+  public onReport(callback: () => void): void {
+    this._onReportCallback = callback
+  }
+
+  /**
+   * 오버레이 하단에 짧은 알림 메시지를 잠시 표시합니다.
+   *
+   * @param message 표시할 메시지
+   * @param duration 표시 시간 (밀리초, 기본값: 2000)
+   */
+  public showNotice(message: string, duration: number = 2000): void {
+    if (!this._elements) return
+
+    const container = this._elements.container
+    let notice = container.querySelector<HTMLDivElement>(
+      '.debug-overlay-notice'
+    )
+    if (!notice) {
+      notice = document.createElement('div')
+      notice.className = 'debug-overlay-notice'
+      container.appendChild(notice)
+    }
+    notice.textContent = message
+
+    if (this._noticeTimer !== null) {
+      clearTimeout(this._noticeTimer)
+    }
+    this._noticeTimer = setTimeout(() => {
+      this._noticeTimer = null
+      notice?.remove()
+    }, duration)
+  }
+
+  /**
+   * REPL 입력창에 포커스를 줍니다.
+   */
+  public focusRepl(): void {
+    if (this._elements && this._options.enableRepl) {
+      this._elements.replInput.focus()
+    }
+  }
+
   /**
    * 오버레이를 완전히 제거합니다.
    */
   public destroy(): void {
+    if (this._noticeTimer !== null) {
+      clearTimeout(this._noticeTimer)
+      this._noticeTimer = null
+    }
+
+    if (this._logList) {
+      this._logList.destroy()
+      this._logList = null
+    }
+
+    this._panels.forEach((panel) => {
+      try {
+        panel.destroy?.()
+      } catch (error) {
+        console.error(`패널 '${panel.id}' 정리 중 오류:`, error)
+      }
+    })
+    this._panels = []
+    this._panelElements.clear()
+    this._headerButtons = []
+    this._networkEntries = []
+    this._networkRows.clear()
+    this._renderedNetworkFilter = null
+    this._failedRequestIds.clear()
+    this._state.badges.clear()
+    this._state.scrollPositions.clear()
+    this._state.pinchState.touches.clear()
+
+    if (this._launcher) {
+      this._launcher.destroy()
+      this._launcher = null
+    }
+
     if (this._elements) {
       this._elements.container.remove()
       this._elements = null
     }
+
+    this._watchColorScheme(false)
+
+    if (this._host) {
+      this._host.remove()
+      this._host = null
+      this._shadowRoot = null
+    } else {
+      removeStyles()
+    }
     this._state.isVisible = false
   }
 
   /**
-   * 컨테이너의 CSS 스타일을 생성합니다.
+   * 테마를 바꾸고 스타일 시트를 다시 적용합니다.
+   *
+   * @param theme 적용할 테마
+   */
+  public setTheme(theme: OverlayTheme): void {
+    this._options.theme = theme
+    this._applyTheme()
+  }
+
+  /**
+   * 패턴과 일치하는 로그 채널을 표시합니다.
+   * `-`로 시작하는 패턴은 숨김 규칙으로 추가됩니다.
+   *
+   * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (예: 'payments:*')
+   */
+  public enableChannels(patterns: string): void {
+    this._addChannelRules(parseChannelPatterns(patterns, true))
+  }
+
+  /**
+   * 패턴과 일치하는 로그 채널을 숨깁니다.
+   * `-`로 시작하는 패턴은 표시 규칙으로 추가됩니다.
+   *
+   * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (예: 'payments:*')
+   */
+  public disableChannels(patterns: string): void {
+    this._addChannelRules(parseChannelPatterns(patterns, false))
+  }
+
+  /**
+   * 기존 채널 규칙을 모두 버리고 channels 옵션과 같은 형식의 패턴으로 새로 설정합니다.
+   *
+   * @param patterns 채널 패턴 (빈 문자열이면 모든 채널 표시)
+   */
+  public setChannelPatterns(patterns: string): void {
+    this._options.channels = patterns
+    this._state.channelRules = []
+    this._addChannelRules(createChannelRules(patterns))
+  }
+
+  /**
+   * 현재 테마의 색상을 CSS 사용자 정의 속성으로 적용합니다.
+   * 스타일 시트는 사용자 정의 속성만 참조하므로 다시 만들지 않습니다.
+   * 'auto' 테마는 prefers-color-scheme이 바뀔 때마다 다시 적용합니다.
+   */
+  private _applyTheme(): void {
+    if (!this._elements) return
+
+    const { theme } = this._options
+    this._watchColorScheme(isAutoTheme(theme))
+
+    const prefersDark = this._colorSchemeQuery?.matches ?? true
+    const palette = resolveThemePalette(theme, prefersDark)
+
+    // shadow host에 설정하면 shadow root 안의 오버레이와 런처가 모두 상속받습니다.
+    if (this._host) {
+      applyThemeVariables(this._host, palette)
+    } else {
+      applyThemeVariables(this._elements.container, palette)
+      this._launcher?.applyTheme(palette)
+    }
+  }
+
+  /**
+   * prefers-color-scheme 변경 감지를 시작하거나 중지합니다.
    */
-  private _getContainerStyles(): string {
-    const position = this._getPositionStyles()
+  private _watchColorScheme(enabled: boolean): void {
+    if (enabled && !this._colorSchemeQuery && window.matchMedia) {
+      this._colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)')
+      addMediaQueryListener(
+        this._colorSchemeQuery,
+        this._handleColorSchemeChange
+      )
+    } else if (!enabled && this._colorSchemeQuery) {
+      removeMediaQueryListener(
+        this._colorSchemeQuery,
+        this._handleColorSchemeChange
+      )
+      this._colorSchemeQuery = null
+    }
+  }
 
-    return `
-      width: ${this._options.width}px;
-      height: ${this._options.height}px;
-      opacity: ${this._options.opacity};
-      z-index: ${this._options.zIndex};
-      ${position}
-    `
+  /**
+   * 시스템 색상 모드가 바뀌면 'auto' 테마의 색상을 다시 적용합니다.
+   */
+  private _handleColorSchemeChange(): void {
+    this._applyTheme()
   }
 
   /**
-   * 위치에 따른 CSS 스타일을 생성합니다.
+   * 오버레이 요소들을 추가할 루트를 준비하고 스타일 시트를 적용합니다.
+   * shadowDom 옵션이 켜져 있고 브라우저가 지원하면 호스트 요소의 shadow root를,
+   * 아니면 document.body를 반환합니다.
    */
-  private _getPositionStyles(): string {
-    const margin = '20px'
+  private _createRoot(): Node {
+    const { shadowDom, theme, cspNonce } = this._options
 
-    switch (this._options.position) {
-      case 'top-left':
-        return `top: ${margin}; left: ${margin};`
-      case 'top-right':
-        return `top: ${margin}; right: ${margin};`
-      case 'bottom-left':
-        return `bottom: ${margin}; left: ${margin};`
-      case 'bottom-right':
-      default:
-        return `bottom: ${margin}; right: ${margin};`
+    if (shadowDom && typeof document.body.attachShadow === 'function') {
+      const host = document.createElement('div')
+      host.className = 'debug-overlay-host'
+      // 페이지의 상속 스타일(글꼴, 색상 등)이 shadow root 안으로 전달되지 않도록 초기화합니다.
+      host.style.setProperty('all', 'initial')
+
+      this._shadowRoot = host.attachShadow({ mode: shadowDom })
+      applyShadowStyles(this._shadowRoot, theme, cspNonce)
+
+      document.body.appendChild(host)
+      this._host = host
+      return this._shadowRoot
     }
+
+    injectStyles(theme, cspNonce)
+    return document.body
+  }
+
+  /**
+   * 컨테이너에 크기, 투명도, z-index와 위치 클래스를 적용합니다.
+   * style-src CSP에 막히는 cssText 대신 속성별 CSSOM 설정과 클래스를 사용합니다.
+   */
+  private _applyContainerStyles(container: HTMLDivElement): void {
+    container.style.width = `${this._options.width}px`
+    container.style.height = `${this._options.height}px`
+    container.style.opacity = String(this._options.opacity)
+    container.style.zIndex = String(this._options.zIndex)
+    container.classList.add(`position-${this._options.position}`)
   }
 
   /**
@@ -266,6 +894,8 @@ export class OverlayRenderer {
     element: HTMLDivElement
     title: HTMLSpanElement
     controls: HTMLDivElement
+    exportSelect: HTMLSelectElement
+    reportButton: HTMLButtonElement
     clearButton: HTMLButtonElement
     closeButton: HTMLButtonElement
   } {
@@ -279,6 +909,13 @@ export class OverlayRenderer {
     const controls = document.createElement('div')
     controls.className = 'debug-overlay-controls'
 
+    const exportSelect = this._createExportSelect()
+
+    const reportButton = document.createElement('button')
+    reportButton.className = 'debug-overlay-button report'
+    reportButton.textContent = 'Report'
+    reportButton.title = '로그와 환경 정보를 버그 리포트로 저장'
+
     const clearButton = document.createElement('button')
     clearButton.className = 'debug-overlay-button clear'
     clearButton.textContent = 'Clear'
@@ -287,6 +924,8 @@ export class OverlayRenderer {
     closeButton.className = 'debug-overlay-button close'
     closeButton.textContent = '×'
 
+    controls.appendChild(exportSelect)
+    controls.appendChild(reportButton)
     controls.appendChild(clearButton)
     controls.appendChild(closeButton)
 
@@ -297,107 +936,1073 @@ export class OverlayRenderer {
       element: header,
       title,
       controls,
+      exportSelect,
+      reportButton,
       clearButton,
       closeButton,
     }
   }
 
   /**
-   * 필터 영역을 생성합니다.
+   * 내보내기 형식 선택 요소를 생성합니다.
+   * 첫 번째 항목은 'Export' 레이블이며, 형식을 고르면 다시 레이블로 돌아갑니다.
    */
-  private _createFilters(): HTMLDivElement {
-    const filters = document.createElement('div')
-    filters.className = 'debug-overlay-filters'
-
-    const levels: LogLevel[] = [
-      LogLevel.LOG,
-      LogLevel.INFO,
-      LogLevel.WARN,
-      LogLevel.ERROR,
-      LogLevel.DEBUG,
+  private _createExportSelect(): HTMLSelectElement {
+    const select = document.createElement('select')
+    select.className = 'debug-overlay-button debug-overlay-export'
+    select.title = '로그 내보내기'
+
+    const formats: { value: ExportFormat | ''; label: string }[] = [
+      { value: '', label: 'Export' },
+      { value: 'json', label: 'JSON' },
+      { value: 'ndjson', label: 'NDJSON' },
+      { value: 'text', label: 'Text' },
+      { value: 'html', label: 'HTML' },
     ]
+    if (this._options.captureNetwork) {
+      formats.push({ value: 'har', label: 'HAR (Network)' })
+    }
 
-    levels.forEach((level) => {
-      const button = document.createElement('button')
-      button.className = `debug-overlay-filter ${level}`
-      button.textContent = level.toUpperCase()
-      button.dataset.level = level
-
-      if (this._state.activeFilters.has(level)) {
-        button.classList.add('active')
-      }
-
-      filters.appendChild(button)
+    formats.forEach(({ value, label }) => {
+      const option = document.createElement('option')
+      option.value = value
+      option.textContent = label
+      option.disabled = value === ''
+      select.appendChild(option)
     })
+    select.value = ''
 
-    return filters
+    return select
   }
 
   /**
-   * 로그 컨테이너를 생성합니다.
+   * 탭 바를 생성합니다. 탭 버튼은 패널을 붙일 때 추가됩니다.
    */
-  private _createLogContainer(): HTMLDivElement {
-    const container = document.createElement('div')
-    container.className = 'debug-overlay-logs'
-    return container
+  private _createTabBar(): HTMLDivElement {
+    const tabBar = document.createElement('div')
+    tabBar.className = 'debug-overlay-tabs'
+    return tabBar
   }
 
   /**
-   * 리사이즈 핸들을 생성합니다.
+   * 기본 Console/Network 패널을 생성합니다.
+   *
+   * @param consoleElements Console 패널에 넣을 요소들 (필터, 로그 목록, REPL)
+   * @param networkElements Network 패널에 넣을 요소들 (필터, 네트워크 요청 목록)
    */
-  private _createResizeHandle(): HTMLDivElement {
-    const handle = document.createElement('div')
-    handle.className = 'debug-overlay-resize-handle'
-    return handle
+  private _createBuiltInPanels(
+    consoleElements: HTMLElement[],
+    networkElements: HTMLElement[]
+  ): OverlayPanel[] {
+    const panels: OverlayPanel[] = [
+      {
+        id: 'console',
+        label: 'Console',
+        render: (container) => {
+          consoleElements.forEach((element) => container.appendChild(element))
+        },
+        onClear: () => this._onClearCallback?.(),
+      },
+    ]
+
+    if (this._options.captureNetwork) {
+      panels.push({
+        id: 'network',
+        label: 'Network',
+        render: (container) => {
+          networkElements.forEach((element) => container.appendChild(element))
+        },
+        onClear: () => this._onNetworkClearCallback?.(),
+      })
+    }
+
+    panels.push(new StoragePanel(), new SystemPanel())
+
+    return panels
   }
 
   /**
-   * 개별 로그 항목 요소를 생성합니다.
+   * 패널의 탭 버튼과 내용 영역을 오버레이에 붙입니다.
    */
-  private _createLogElement(log: LogEntry): HTMLDivElement {
-    const element = document.createElement('div')
-    element.className = `debug-overlay-log-entry ${log.level}`
+  private _mountPanel(panel: OverlayPanel): void {
+    if (!this._elements) return
 
-    const meta = document.createElement('div')
-    meta.className = 'debug-overlay-log-meta'
+    const tab = document.createElement('button')
+    tab.className = 'debug-overlay-tab'
+    tab.textContent = panel.label
+    tab.dataset.tab = panel.id
 
-    const levelBadge = document.createElement('span')
+    const badge = document.createElement('span')
+    badge.className = 'debug-overlay-tab-badge hidden'
+    tab.appendChild(badge)
+    this._elements.tabBar.appendChild(tab)
+
+    const element = document.createElement('div')
+    element.className = 'debug-overlay-panel hidden'
+    element.dataset.panel = panel.id
+    if (!SELF_SCROLLING_PANEL_IDS.includes(panel.id)) {
+      element.classList.add('scrollable')
+    }
+    this._elements.container.insertBefore(element, this._elements.resizeHandle)
+    this._panelElements.set(panel.id, element)
+
+    try {
+      panel.render(element)
+    } catch (error) {
+      console.error(`패널 '${panel.id}' 렌더링 중 오류:`, error)
+    }
+    this._applyBadge(panel.id)
+  }
+
+  /**
+   * 플러그인 버튼을 헤더 컨트롤의 맨 앞에 붙입니다.
+   */
+  private _mountHeaderButton(button: OverlayHeaderButton): void {
+    if (!this._elements) return
+
+    const element = document.createElement('button')
+    element.className = `debug-overlay-button plugin ${button.id}`
+    element.textContent = button.label
+    if (button.title) {
+      element.title = button.title
+    }
+    element.addEventListener('click', () => {
+      try {
+        button.onClick()
+      } catch (error) {
+        console.error(`헤더 버튼 '${button.id}' 실행 중 오류:`, error)
+      }
+    })
+
+    this._elements.controls.insertBefore(element, this._elements.exportSelect)
+  }
+
+  /**
+   * 탭이 지금 화면에 보이는지 확인합니다. (오버레이가 표시되고 그 탭이 선택된 상태)
+   */
+  private _isTabInView(tab: OverlayTab): boolean {
+    return this._state.isVisible && this._state.activeTab === tab
+  }
+
+  /**
+   * 탭의 배지 숫자를 1 늘립니다.
+   */
+  private _incrementBadge(tab: OverlayTab): void {
+    this.setPanelBadge(tab, (this._state.badges.get(tab) ?? 0) + 1)
+  }
+
+  /**
+   * 탭 버튼의 배지 표시를 상태에 맞게 갱신합니다.
+   */
+  private _applyBadge(tab: OverlayTab): void {
+    const badge = this._findTabButton(tab)?.querySelector<HTMLElement>(
+      '.debug-overlay-tab-badge'
+    )
+    if (!badge) return
+
+    const count = this._state.badges.get(tab) ?? 0
+    badge.textContent = count > 99 ? '99+' : String(count)
+    badge.classList.toggle('hidden', count === 0)
+  }
+
+  /**
+   * 새로 실패한 네트워크 요청이 있으면 Network 탭 배지를 늘립니다.
+   * Network 탭을 보고 있는 동안 실패한 요청은 읽은 것으로 봅니다.
+   */
+  private _updateFailedRequestBadge(entries: NetworkEntry[]): void {
+    const failedIds = new Set<string>()
+    let newlyFailed = 0
+
+    entries.forEach((entry) => {
+      if (entry.state !== 'error' && entry.status < 400) return
+
+      failedIds.add(entry.id)
+      if (!this._failedRequestIds.has(entry.id)) {
+        newlyFailed++
+      }
+    })
+
+    // 목록에서 사라진 요청은 잊습니다.
+    this._failedRequestIds = failedIds
+
+    if (newlyFailed > 0 && !this._isTabInView('network')) {
+      this.setPanelBadge(
+        'network',
+        (this._state.badges.get('network') ?? 0) + newlyFailed
+      )
+    }
+  }
+
+  /**
+   * 탭의 스크롤 영역 요소를 반환합니다.
+   */
+  private _getScrollElement(tab: OverlayTab): HTMLElement | undefined {
+    if (tab === 'console') return this._elements?.logContainer
+    if (tab === 'network') return this._elements?.networkContainer
+    return this._panelElements.get(tab)
+  }
+
+  /**
+   * 탭의 현재 스크롤 위치를 저장합니다.
+   * 숨겨진(display: none) 요소는 스크롤 위치를 잃기 때문에 숨기기 전에 호출합니다.
+   */
+  private _saveScrollPosition(tab: OverlayTab): void {
+    const element = this._getScrollElement(tab)
+    if (element) {
+      this._state.scrollPositions.set(tab, element.scrollTop)
+    }
+  }
+
+  /**
+   * 저장해 둔 탭의 스크롤 위치를 되돌립니다.
+   */
+  private _restoreScrollPosition(tab: OverlayTab): void {
+    const element = this._getScrollElement(tab)
+    const position = this._state.scrollPositions.get(tab)
+    if (element && position !== undefined) {
+      element.scrollTop = position
+    }
+  }
+
+  /**
+   * 패널 ID에 해당하는 탭 버튼을 찾습니다.
+   */
+  private _findTabButton(tab: OverlayTab): HTMLElement | undefined {
+    return Array.from(
+      this._elements?.tabBar.querySelectorAll<HTMLElement>(
+        '.debug-overlay-tab'
+      ) ?? []
+    ).find((button) => button.dataset.tab === tab)
+  }
+
+  /**
+   * ID로 등록된 패널을 찾습니다.
+   */
+  private _findPanel(id: string): OverlayPanel | undefined {
+    return this._panels.find((panel) => panel.id === id)
+  }
+
+  /**
+   * 레벨 필터 버튼과 검색 입력창이 있는 필터 영역을 생성합니다.
+   */
+  private _createFilters(): {
+    element: HTMLDivElement
+    channelFilters: HTMLSpanElement
+    searchInput: HTMLInputElement
+    searchCaseButton: HTMLButtonElement
+    searchCount: HTMLSpanElement
+  } {
+    const filters = document.createElement('div')
+    filters.className = 'debug-overlay-filters'
+
+    const levels: LogLevel[] = [
+      LogLevel.LOG,
+      LogLevel.INFO,
+      LogLevel.WARN,
+      LogLevel.ERROR,
+      LogLevel.DEBUG,
+    ]
+
+    levels.forEach((level) => {
+      const button = document.createElement('button')
+      button.className = `debug-overlay-filter ${level}`
+      button.textContent = level.toUpperCase()
+      button.dataset.level = level
+
+      if (this._state.activeFilters.has(level)) {
+        button.classList.add('active')
+      }
+
+      filters.appendChild(button)
+    })
+
+    // 채널 버튼은 해당 채널의 로그가 처음 들어올 때 추가됩니다.
+    const channelFilters = document.createElement('span')
+    channelFilters.className = 'debug-overlay-channel-filters'
+    filters.appendChild(channelFilters)
+
+    const search = document.createElement('div')
+    search.className = 'debug-overlay-search'
+
+    const searchInput = document.createElement('input')
+    searchInput.type = 'search'
+    searchInput.className = 'debug-overlay-search-input'
+    searchInput.placeholder = 'Search or /regex/'
+    searchInput.spellcheck = false
+
+    const searchCaseButton = document.createElement('button')
+    searchCaseButton.className = 'debug-overlay-search-button case'
+    searchCaseButton.textContent = 'Aa'
+    searchCaseButton.title = 'Match case'
+    searchCaseButton.dataset.searchAction = 'case'
+
+    const searchCount = document.createElement('span')
+    searchCount.className = 'debug-overlay-search-count'
+
+    const previousButton = document.createElement('button')
+    previousButton.className = 'debug-overlay-search-button'
+    previousButton.textContent = '↑'
+    previousButton.title = 'Previous match (Shift+Enter)'
+    previousButton.dataset.searchAction = 'previous'
+
+    const nextButton = document.createElement('button')
+    nextButton.className = 'debug-overlay-search-button'
+    nextButton.textContent = '↓'
+    nextButton.title = 'Next match (Enter)'
+    nextButton.dataset.searchAction = 'next'
+
+    search.appendChild(searchInput)
+    search.appendChild(searchCaseButton)
+    search.appendChild(searchCount)
+    search.appendChild(previousButton)
+    search.appendChild(nextButton)
+    filters.appendChild(search)
+
+    return {
+      element: filters,
+      channelFilters,
+      searchInput,
+      searchCaseButton,
+      searchCount,
+    }
+  }
+
+  /**
+   * 로그 컨테이너를 생성합니다.
+   */
+  private _createLogContainer(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'debug-overlay-logs'
+    return container
+  }
+
+  /**
+   * 네트워크 요청 필터 영역을 생성합니다.
+   */
+  private _createNetworkFilter(): {
+    element: HTMLDivElement
+    input: HTMLInputElement
+  } {
+    const element = document.createElement('div')
+    element.className = 'debug-overlay-filters'
+
+    const search = document.createElement('div')
+    search.className = 'debug-overlay-search'
+
+    const input = document.createElement('input')
+    input.type = 'search'
+    input.className = 'debug-overlay-search-input'
+    input.placeholder = 'Filter by method or URL'
+    input.spellcheck = false
+
+    search.appendChild(input)
+    element.appendChild(search)
+
+    return { element, input }
+  }
+
+  /**
+   * 네트워크 요청 컨테이너를 생성합니다.
+   */
+  private _createNetworkContainer(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'debug-overlay-network'
+    return container
+  }
+
+  /**
+   * REPL 입력 영역을 생성합니다.
+   */
+  private _createRepl(): {
+    element: HTMLDivElement
+    input: HTMLTextAreaElement
+  } {
+    const element = document.createElement('div')
+    element.className = 'debug-overlay-repl'
+
+    const prompt = document.createElement('span')
+    prompt.className = 'debug-overlay-repl-prompt'
+    prompt.textContent = '›'
+
+    const input = document.createElement('textarea')
+    input.className = 'debug-overlay-repl-input'
+    input.rows = 1
+    input.spellcheck = false
+    input.autocapitalize = 'off'
+    input.placeholder = 'Evaluate JavaScript…'
+    input.setAttribute('autocomplete', 'off')
+    input.setAttribute('autocorrect', 'off')
+
+    element.appendChild(prompt)
+    element.appendChild(input)
+
+    return { element, input }
+  }
+
+  /**
+   * 리사이즈 핸들을 생성합니다.
+   */
+  private _createResizeHandle(): HTMLDivElement {
+    const handle = document.createElement('div')
+    handle.className = 'debug-overlay-resize-handle'
+    return handle
+  }
+
+  /**
+   * 개별 로그 항목 요소를 생성합니다.
+   */
+  private _createLogElement(log: LogEntry): HTMLDivElement {
+    const element = document.createElement('div')
+    element.className = `debug-overlay-log-entry ${log.level}`
+
+    if (log.session) {
+      element.classList.add(log.session.origin)
+    }
+
+    if (log.type) {
+      element.classList.add(`type-${log.type}`)
+    }
+
+    if (log.groupPath) {
+      element.classList.add('grouped')
+      element.style.setProperty(
+        '--debug-overlay-group-depth',
+        String(log.groupPath.length)
+      )
+    }
+
+    const meta = document.createElement('div')
+    meta.className = 'debug-overlay-log-meta'
+
+    const levelBadge = document.createElement('span')
     levelBadge.className = `debug-overlay-log-level ${log.level}`
     levelBadge.textContent = log.level.toUpperCase()
 
-    const timestamp = document.createElement('span')
-    timestamp.className = 'debug-overlay-log-timestamp'
-    timestamp.textContent = this._formatTimestamp(log.timestamp)
+    const timestamp = document.createElement('span')
+    timestamp.className = 'debug-overlay-log-timestamp'
+    timestamp.textContent = formatLogTimestamp(log.timestamp)
+
+    meta.appendChild(levelBadge)
+    meta.appendChild(timestamp)
+
+    if (log.channel) {
+      const channelChip = document.createElement('span')
+      channelChip.className = 'debug-overlay-log-channel'
+      channelChip.textContent = log.channel
+      channelChip.title = `Channel: ${log.channel}`
+      channelChip.style.setProperty(
+        '--debug-overlay-channel-color',
+        getChannelColor(log.channel)
+      )
+      meta.appendChild(channelChip)
+    }
+
+    this._renderRepeat(meta, log)
+
+    const content = document.createElement('div')
+    content.className = 'debug-overlay-log-content'
+
+    if (log.source) {
+      element.classList.add(log.source)
+
+      const prefix = document.createElement('span')
+      prefix.className = 'debug-overlay-log-prefix'
+      prefix.textContent = log.source === 'repl-input' ? '›' : '‹'
+      meta.insertBefore(prefix, meta.firstChild)
+    }
+
+    // 'snapshot' 모드의 표 데이터는 ConsoleTable이 다룰 수 있도록 원래 값 형태로 되돌립니다.
+    const tableData = log.type === 'table' ? reviveSnapshot(log.args[0]) : null
+
+    if (log.source === 'repl-input') {
+      const code = document.createElement('pre')
+      code.className = 'debug-overlay-log-command'
+      code.textContent = String(log.args[0] ?? '')
+      content.appendChild(code)
+    } else if (log.args.length === 0) {
+      content.textContent = '(empty)'
+    } else if (log.type === 'group') {
+      content.appendChild(this._createGroupHeader(log))
+    } else if (typeof tableData === 'object' && tableData !== null) {
+      const columns = reviveSnapshot(log.args[1])
+      content.appendChild(
+        ConsoleTable.render(
+          tableData,
+          Array.isArray(columns)
+            ? columns.map((column) => String(column))
+            : undefined
+        )
+      )
+    } else {
+      const argsContainer = document.createElement('div')
+      argsContainer.className = 'debug-overlay-log-args'
+
+      if (hasFormatSpecifiers(log.args)) {
+        const { segments, rest } = formatConsoleArgs(log.args)
+        argsContainer.appendChild(this._createFormattedArgElement(segments))
+        rest.forEach((arg) => {
+          argsContainer.appendChild(this._createLogArgElement(arg))
+        })
+        content.appendChild(argsContainer)
+      } else {
+        log.args.forEach((arg, index) => {
+          const argElement =
+            index === 0 &&
+            typeof arg === 'string' &&
+            (log.type === 'timer' || log.type === 'count')
+              ? this._createLogTextElement(arg)
+              : this._createLogArgElement(arg)
+          argsContainer.appendChild(argElement)
+        })
+
+        content.appendChild(argsContainer)
+      }
+    }
+
+    if (log.stack) {
+      content.appendChild(this._createStackElement(log, log.stack))
+    }
+
+    element.appendChild(meta)
+    element.appendChild(content)
+
+    return element
+  }
+
+  /**
+   * 개별 네트워크 요청 요소를 생성합니다.
+   * 요약 행을 클릭하면 헤더와 본문 상세가 펼쳐집니다.
+   */
+  private _createNetworkElement(entry: NetworkEntry): HTMLDivElement {
+    const element = document.createElement('div')
+    element.className = `debug-overlay-network-entry ${entry.state}`
+    element.dataset.id = entry.id
+
+    const summary = document.createElement('div')
+    summary.className = 'debug-overlay-network-summary'
+
+    const method = document.createElement('span')
+    method.className = 'debug-overlay-network-method'
+    method.textContent = entry.method
+
+    const status = document.createElement('span')
+    status.className = `debug-overlay-network-status ${this._getStatusClass(entry)}`
+    status.textContent =
+      entry.state === 'pending'
+        ? '…'
+        : entry.state === 'error'
+          ? 'ERR'
+          : String(entry.status)
+
+    const url = document.createElement('span')
+    url.className = 'debug-overlay-network-url'
+    url.textContent = entry.url
+    url.title = entry.url
+
+    const duration = document.createElement('span')
+    duration.className = 'debug-overlay-network-duration'
+    duration.textContent =
+      entry.duration !== undefined ? `${Math.round(entry.duration)}ms` : ''
+
+    summary.appendChild(method)
+    summary.appendChild(status)
+    summary.appendChild(url)
+    summary.appendChild(duration)
+    element.appendChild(summary)
+
+    summary.addEventListener('click', () => {
+      this._toggleNetworkDetails(element, entry)
+    })
+
+    return element
+  }
+
+  /**
+   * 네트워크 요청 상세 영역을 펼치거나 접습니다.
+   */
+  private _toggleNetworkDetails(
+    element: HTMLDivElement,
+    entry: NetworkEntry
+  ): void {
+    const existing = element.querySelector('.debug-overlay-network-details')
+    if (existing) {
+      existing.remove()
+      element.classList.remove('expanded')
+      return
+    }
+
+    const details = document.createElement('div')
+    details.className = 'debug-overlay-network-details'
+
+    const sections: [string, unknown][] = [
+      [
+        'General',
+        {
+          type: entry.type,
+          method: entry.method,
+          url: entry.url,
+          status: `${entry.status} ${entry.statusText}`.trim(),
+          startTime: entry.startTime.toISOString(),
+          ...(entry.duration !== undefined && {
+            duration: `${entry.duration.toFixed(1)}ms`,
+          }),
+          ...(entry.error && { error: entry.error }),
+        },
+      ],
+      ['Request Headers', entry.requestHeaders],
+      ['Response Headers', entry.responseHeaders],
+    ]
+    if (entry.requestBody !== undefined) {
+      sections.push(['Request Body', this._parseBody(entry.requestBody)])
+    }
+    if (entry.responseBody !== undefined) {
+      sections.push(['Response Body', this._parseBody(entry.responseBody)])
+    }
+
+    sections.forEach(([label, value]) => {
+      const section = document.createElement('div')
+      section.className = 'debug-overlay-network-section'
+
+      const title = document.createElement('div')
+      title.className = 'debug-overlay-network-section-title'
+      title.textContent = label
+
+      section.appendChild(title)
+      section.appendChild(this._createLogArgElement(value))
+      details.appendChild(section)
+    })
+
+    element.appendChild(details)
+    element.classList.add('expanded')
+  }
+
+  /**
+   * JSON 본문은 객체로 변환하여 JsonViewer로 표시할 수 있게 합니다.
+   */
+  private _parseBody(body: string): unknown {
+    try {
+      const parsed: unknown = JSON.parse(body)
+      return typeof parsed === 'object' && parsed !== null ? parsed : body
+    } catch (error) {
+      return body
+    }
+  }
+
+  /**
+   * 상태 코드에 따른 CSS 클래스를 반환합니다.
+   */
+  private _getStatusClass(entry: NetworkEntry): string {
+    if (entry.state === 'pending') return 'pending'
+    if (entry.state === 'error' || entry.status >= 400) return 'error'
+    if (entry.status >= 300) return 'redirect'
+    return 'success'
+  }
+
+  /**
+   * 선택된 탭에 맞게 탭 버튼과 패널의 표시 상태를 갱신합니다.
+   */
+  private _applyActiveTab(): void {
+    if (!this._elements) return
+
+    const activeTab = this._state.activeTab
+
+    this._elements.tabBar
+      .querySelectorAll<HTMLElement>('.debug-overlay-tab')
+      .forEach((tab) => {
+        tab.classList.toggle(
+          'active',
+          tab.dataset.tab === this._state.activeTab
+        )
+      })
+
+    this._panelElements.forEach((element, id) => {
+      element.classList.toggle('hidden', id !== activeTab)
+    })
+    this._elements.repl.classList.toggle('hidden', !this._options.enableRepl)
+    this._elements.clearButton.classList.toggle(
+      'hidden',
+      !this._findPanel(activeTab)?.onClear
+    )
+  }
+
+  /**
+   * 세션이 바뀌는 지점의 로그 행 위에 세션 구분선을 표시합니다.
+   */
+  private _decorateSessionBoundary(
+    row: HTMLElement,
+    log: LogEntry,
+    previous: LogEntry | undefined
+  ): void {
+    const isBoundary = previous
+      ? previous.session?.id !== log.session?.id
+      : log.session !== undefined
+    const existing = row.querySelector(
+      ':scope > .debug-overlay-session-separator'
+    )
+
+    if (!isBoundary) {
+      existing?.remove()
+      return
+    }
+    if (existing) return
+
+    const separator = document.createElement('div')
+    separator.className = 'debug-overlay-session-separator'
+    separator.textContent = log.session
+      ? this._describeSession(log.session)
+      : 'Current session'
+
+    row.insertBefore(separator, row.firstChild)
+  }
+
+  /**
+   * 세션 구분선에 표시할 설명을 생성합니다.
+   */
+  private _describeSession(session: LogSession): string {
+    const label =
+      session.origin === 'imported' ? 'Imported' : 'Previous session'
+    const startedAt = session.startedAt.toLocaleString()
+
+    return session.name
+      ? `${label} · ${session.name} · ${startedAt}`
+      : `${label} · ${startedAt}`
+  }
+
+  /**
+   * console.group 시작 항목의 접기/펼치기 헤더를 생성합니다.
+   */
+  private _createGroupHeader(log: LogEntry): HTMLDivElement {
+    const header = document.createElement('div')
+    header.className = 'debug-overlay-group-header'
+
+    const toggle = document.createElement('span')
+    toggle.className = 'debug-overlay-json-toggle'
+    toggle.textContent = this._state.collapsedGroups.has(log.id) ? '▶' : '▼'
+
+    const label = document.createElement('span')
+    label.className = 'debug-overlay-group-label'
+    label.textContent = formatConsoleArgsToText(log.args, (arg) =>
+      JsonViewer.stringify(arg)
+    )
+
+    header.appendChild(toggle)
+    header.appendChild(label)
+
+    header.addEventListener('click', () => {
+      if (this._state.collapsedGroups.has(log.id)) {
+        this._state.collapsedGroups.delete(log.id)
+      } else {
+        this._state.collapsedGroups.add(log.id)
+      }
+      toggle.textContent = this._state.collapsedGroups.has(log.id) ? '▶' : '▼'
+      this._requestRerender()
+    })
+
+    return header
+  }
+
+  /**
+   * 스택 트레이스 요소를 생성합니다.
+   * 프레임 목록으로 표시하고, 처음에는 위쪽 stackFrameLimit개의 프레임만 보여줍니다.
+   * 소스 맵으로 변환된 스택이면 원래(번들) 스택과 번갈아 볼 수 있는 토글 버튼을 함께 표시합니다.
+   */
+  private _createStackElement(log: LogEntry, stack: string): HTMLElement {
+    const container = document.createElement('div')
+    container.className = 'debug-overlay-log-stack'
+
+    const toolbar = document.createElement('div')
+    toolbar.className = 'debug-overlay-stack-toolbar'
+
+    const body = document.createElement('div')
+    body.className = 'debug-overlay-stack-body'
+
+    const originalStack = log.originalStack
+    const mappedToggle = document.createElement('button')
+    mappedToggle.type = 'button'
+    mappedToggle.className = 'debug-overlay-stack-toggle'
+
+    const moreToggle = document.createElement('button')
+    moreToggle.type = 'button'
+    moreToggle.className = 'debug-overlay-stack-toggle'
+
+    const render = () => {
+      const showOriginal =
+        originalStack !== undefined && this._state.originalStackIds.has(log.id)
+      const frames = parseStackTrace(showOriginal ? originalStack : stack)
+      const expanded = this._state.expandedStackIds.has(log.id)
+      const limit = this._options.stackFrameLimit
+      const hiddenCount = expanded ? 0 : Math.max(0, frames.length - limit)
+
+      body.textContent = ''
+      if (frames.length === 0) {
+        // 프레임으로 해석할 수 없는 스택은 원래 문자열 그대로 표시합니다.
+        const pre = document.createElement('pre')
+        pre.className = 'debug-overlay-stack-raw'
+        pre.textContent = showOriginal ? originalStack : stack
+        body.appendChild(pre)
+      } else {
+        const list = document.createElement('ol')
+        list.className = 'debug-overlay-stack-frames'
+        frames.slice(0, frames.length - hiddenCount).forEach((frame) => {
+          list.appendChild(this._createStackFrameElement(frame))
+        })
+        body.appendChild(list)
+      }
+
+      moreToggle.classList.toggle('hidden', frames.length <= limit)
+      toolbar.classList.toggle(
+        'hidden',
+        frames.length <= limit && originalStack === undefined
+      )
+      moreToggle.textContent = expanded
+        ? '▼ Show fewer frames'
+        : `▶ ${hiddenCount} more frame${hiddenCount === 1 ? '' : 's'}`
+
+      mappedToggle.textContent = showOriginal ? 'Show mapped' : 'Show original'
+      mappedToggle.title = showOriginal
+        ? 'Show frames resolved through source maps'
+        : 'Show frames as reported by the bundle'
+    }
+
+    moreToggle.addEventListener('click', () => {
+      if (this._state.expandedStackIds.has(log.id)) {
+        this._state.expandedStackIds.delete(log.id)
+      } else {
+        this._state.expandedStackIds.add(log.id)
+      }
+      render()
+    })
+    mappedToggle.addEventListener('click', () => {
+      if (this._state.originalStackIds.has(log.id)) {
+        this._state.originalStackIds.delete(log.id)
+      } else {
+        this._state.originalStackIds.add(log.id)
+      }
+      render()
+    })
+
+    toolbar.appendChild(moreToggle)
+    if (originalStack !== undefined) {
+      toolbar.appendChild(mappedToggle)
+    }
+
+    render()
+    container.appendChild(body)
+    container.appendChild(toolbar)
+    return container
+  }
+
+  /**
+   * 스택 프레임 하나의 요소를 생성합니다.
+   * 라이브러리/벤더 코드의 프레임은 흐리게 표시합니다.
+   */
+  private _createStackFrameElement(frame: StackFrame): HTMLLIElement {
+    const element = document.createElement('li')
+    element.className = 'debug-overlay-stack-frame'
+    if (frame.isLibrary) {
+      element.classList.add('library')
+    }
+
+    const functionName = document.createElement('span')
+    functionName.className = 'debug-overlay-stack-function'
+    functionName.textContent = frame.functionName ?? '(anonymous)'
+
+    const location = document.createElement('span')
+    location.className = 'debug-overlay-stack-location'
+    location.textContent = formatStackLocation({
+      ...frame,
+      file: frame.file.split(/[?#]/)[0]?.split('/').pop() || frame.file,
+    })
+    location.title = formatStackLocation(frame)
+
+    const copyButton = document.createElement('button')
+    copyButton.type = 'button'
+    copyButton.className = 'debug-overlay-stack-copy'
+    copyButton.textContent = '⧉'
+    copyButton.title = 'Copy frame'
+    copyButton.addEventListener('click', () => {
+      copyTextToClipboard(formatStackFrame(frame)).then((copied) => {
+        this.showNotice(copied ? 'Frame copied' : 'Copy failed')
+      })
+    })
+
+    element.appendChild(functionName)
+    element.appendChild(location)
+    element.appendChild(copyButton)
+    return element
+  }
+
+  /**
+   * 따옴표 없이 텍스트로 표시하는 로그 인자 요소를 생성합니다.
+   * 타이머와 카운터 라벨처럼 console이 만들어낸 문자열에 사용합니다.
+   */
+  private _createLogTextElement(text: string): HTMLDivElement {
+    const element = document.createElement('div')
+    element.className = 'debug-overlay-log-arg text'
+    element.textContent = text
+    return element
+  }
+
+  /**
+   * 처음 보는 groupCollapsed 그룹을 접힌 상태로 등록합니다.
+   * 이후 사용자가 펼친 그룹이 다시 접히지 않도록 한 번만 등록합니다.
+   */
+  private _registerGroup(log: LogEntry): void {
+    if (log.type !== 'group' || this._seenGroups.has(log.id)) {
+      return
+    }
+
+    this._seenGroups.add(log.id)
+    if (log.collapsed) {
+      this._state.collapsedGroups.add(log.id)
+    }
+  }
 
-    meta.appendChild(levelBadge)
-    meta.appendChild(timestamp)
+  /**
+   * 합쳐진 반복 로그의 처음~마지막 발생 시간과 반복 횟수 배지를 표시합니다.
+   * 이미 그려진 행을 갱신할 때도 사용하므로, 기존 배지가 있으면 재사용합니다.
+   */
+  private _renderRepeat(meta: HTMLElement, log: LogEntry): void {
+    const timestamp = meta.querySelector('.debug-overlay-log-timestamp')
+    const isRepeated = log.repeatCount !== undefined && log.repeatCount > 1
+
+    if (timestamp) {
+      timestamp.textContent =
+        isRepeated && log.lastTimestamp
+          ? `${formatLogTimestamp(log.timestamp)} – ${formatLogTimestamp(log.lastTimestamp)}`
+          : formatLogTimestamp(log.timestamp)
+    }
 
-    const content = document.createElement('div')
-    content.className = 'debug-overlay-log-content'
+    let repeatBadge = meta.querySelector<HTMLSpanElement>(
+      '.debug-overlay-log-repeat'
+    )
+    if (!isRepeated) {
+      repeatBadge?.remove()
+      return
+    }
 
-    if (log.args.length === 0) {
-      content.textContent = '(empty)'
-    } else {
-      const argsContainer = document.createElement('div')
-      argsContainer.className = 'debug-overlay-log-args'
+    if (!repeatBadge) {
+      repeatBadge = document.createElement('span')
+      repeatBadge.className = 'debug-overlay-log-repeat'
+      meta.appendChild(repeatBadge)
+    }
+    repeatBadge.textContent = `×${log.repeatCount}`
+    repeatBadge.title = `Repeated ${log.repeatCount} times`
+  }
 
-      log.args.forEach((arg) => {
-        const argElement = this._createLogArgElement(arg)
-        argsContainer.appendChild(argElement)
-      })
+  /**
+   * 반복 횟수와 마지막 발생 시간만 바뀐 경우 행을 다시 만들지 않고 제자리에서 갱신합니다.
+   * (다시 만들면 사용자가 펼쳐 둔 JSON 트리가 반복될 때마다 접힙니다)
+   *
+   * @returns 제자리에서 갱신했으면 true, 행을 다시 만들어야 하면 false
+   */
+  private _updateRepeatInPlace(
+    row: HTMLElement,
+    previous: LogEntry,
+    log: LogEntry
+  ): boolean {
+    const meta = row.querySelector<HTMLElement>(
+      ':scope > .debug-overlay-log-meta'
+    )
+    if (!meta || !isRepeatOnlyChange(previous, log)) {
+      return false
+    }
+
+    this._renderRepeat(meta, log)
+    return true
+  }
 
-      content.appendChild(argsContainer)
+  /**
+   * 처음 보는 채널의 필터 버튼을 채널 필터 영역에 이름 순서로 추가합니다.
+   */
+  private _registerChannel(log: LogEntry): void {
+    const { channel } = log
+    if (!this._elements || !channel || this._channelButtons.has(channel)) {
+      return
     }
 
-    if (log.stack) {
-      const stackElement = document.createElement('pre')
-      stackElement.className = 'debug-overlay-log-stack'
-      stackElement.textContent = log.stack
-      content.appendChild(stackElement)
+    const button = document.createElement('button')
+    button.className = 'debug-overlay-filter channel'
+    button.textContent = channel
+    button.title = `Show or hide logs from ${channel}`
+    button.dataset.channel = channel
+    button.style.setProperty(
+      '--debug-overlay-channel-color',
+      getChannelColor(channel)
+    )
+    button.classList.toggle(
+      'active',
+      isChannelEnabled(channel, this._state.channelRules)
+    )
+
+    const next = Array.from(this._channelButtons.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .find((name) => name.localeCompare(channel) > 0)
+    this._elements.channelFilters.insertBefore(
+      button,
+      next ? (this._channelButtons.get(next) ?? null) : null
+    )
+    this._channelButtons.set(channel, button)
+  }
+
+  /**
+   * 채널 규칙을 추가하고, 채널 버튼 상태와 로그 목록을 갱신합니다.
+   */
+  private _addChannelRules(rules: ChannelRule[]): void {
+    this._state.channelRules = mergeChannelRules(
+      this._state.channelRules,
+      rules
+    )
+
+    this._channelButtons.forEach((button, channel) => {
+      button.classList.toggle(
+        'active',
+        isChannelEnabled(channel, this._state.channelRules)
+      )
+    })
+    this._requestRerender()
+  }
+
+  /**
+   * 현재 필터 상태로 로그 목록을 다시 받아 렌더링하도록 요청합니다.
+   */
+  private _requestRerender(): void {
+    if (this._onFilterChangeCallback) {
+      this._onFilterChangeCallback(Array.from(this._state.activeFilters))
     }
+  }
 
-    element.appendChild(meta)
-    element.appendChild(content)
+  /**
+   * 포맷 문자열을 치환한 구간들로 하나의 로그 인자 요소를 생성합니다.
+   * %c 스타일은 허용된 속성만 걸러진 상태로 적용됩니다.
+   */
+  private _createFormattedArgElement(
+    segments: FormattedSegment[]
+  ): HTMLDivElement {
+    const element = document.createElement('div')
+    element.className = 'debug-overlay-log-arg formatted'
+
+    segments.forEach((segment) => {
+      if (segment.kind === 'value') {
+        const value = segment.value
+        if (typeof value === 'object' && value !== null) {
+          const jsonViewer = new JsonViewer(5)
+          element.appendChild(jsonViewer.render(value))
+        } else {
+          element.appendChild(
+            document.createTextNode(JsonViewer.stringify(value))
+          )
+        }
+        return
+      }
+
+      const span = document.createElement('span')
+      span.textContent = segment.text
+      segment.styles.forEach(([property, value]) => {
+        span.style.setProperty(property, value)
+      })
+      element.appendChild(span)
+    })
 
     return element
   }
@@ -421,25 +2026,26 @@ export class OverlayRenderer {
   }
 
   /**
-   * 타임스탬프를 포맷팅합니다.
+   * 로그 항목이 현재 필터 조건을 만족하는지 확인합니다.
    */
-  private _formatTimestamp(timestamp: Date): string {
-    const hours = timestamp.getHours().toString().padStart(2, '0')
-    const minutes = timestamp.getMinutes().toString().padStart(2, '0')
-    const seconds = timestamp.getSeconds().toString().padStart(2, '0')
-    const milliseconds = timestamp.getMilliseconds().toString().padStart(3, '0')
+  private _matchesFilters(log: LogEntry): boolean {
+    if (!this._state.activeFilters.has(log.level)) {
+      return false
+    }
 
-    return `${hours}:${minutes}:${seconds}.${milliseconds}`
-  }
+    if (!isChannelEnabled(log.channel, this._state.channelRules)) {
+      return false
+    }
 
-  /**
-   * 로그 컨테이너를 맨 아래로 스크롤합니다.
-   */
-  private _scrollToBottom(): void {
-    if (this._elements) {
-      this._elements.logContainer.scrollTop =
-        this._elements.logContainer.scrollHeight
+    if (this._searchPattern && !matchesSearch(log, this._searchPattern)) {
+      return false
+    }
+
+    if (log.groupPath && this._state.collapsedGroups.size > 0) {
+      return !log.groupPath.some((id) => this._state.collapsedGroups.has(id))
     }
+
+    return true
   }
 
   /**
@@ -449,8 +2055,34 @@ export class OverlayRenderer {
     if (!this._elements) return
 
     this._elements.clearButton.addEventListener('click', () => {
-      if (this._onClearCallback) {
-        this._onClearCallback()
+      this._findPanel(this._state.activeTab)?.onClear?.()
+    })
+
+    this._elements.tabBar.addEventListener('click', (event) => {
+      const target = event.target as HTMLElement
+      const tab = target.closest<HTMLElement>('[data-tab]')?.dataset.tab
+      if (tab) {
+        this.setActiveTab(tab)
+      }
+    })
+
+    this._elements.networkFilterInput.addEventListener('input', (event) => {
+      this._state.networkFilter = (event.target as HTMLInputElement).value
+      this.renderNetwork(this._networkEntries)
+    })
+
+    this._elements.exportSelect.addEventListener('change', (event) => {
+      const select = event.target as HTMLSelectElement
+      const format = select.value as ExportFormat | ''
+      select.value = ''
+      if (format && this._onExportCallback) {
+        this._onExportCallback(format)
+      }
+    })
+
+    this._elements.reportButton.addEventListener('click', () => {
+      if (this._onReportCallback) {
+        this._onReportCallback()
       }
     })
 
@@ -460,34 +2092,120 @@ export class OverlayRenderer {
       }
     })
 
+    this._elements.replInput.addEventListener('keydown', (event) => {
+      this._handleReplKeyDown(event)
+    })
+
+    this._elements.replInput.addEventListener('input', (event) => {
+      this._resizeReplInput(event.target as HTMLTextAreaElement)
+    })
+
     this._elements.filters.addEventListener('click', (event) => {
       const target = event.target as HTMLElement
       if (target.classList.contains('debug-overlay-filter')) {
         this._handleFilterClick(target)
+      } else if (target.dataset.searchAction) {
+        this._handleSearchAction(target.dataset.searchAction)
       }
     })
 
-    this._elements.header.addEventListener('mousedown', (event) => {
+    this._elements.searchInput.addEventListener('input', (event) => {
+      this._setSearchQuery((event.target as HTMLInputElement).value)
+    })
+
+    this._elements.searchInput.addEventListener('keydown', (event) => {
+      this._handleSearchKeyDown(event)
+    })
+
+    this._elements.header.addEventListener('pointerdown', (event) => {
       this._startDrag(event)
     })
 
-    this._elements.resizeHandle.addEventListener('mousedown', (event) => {
+    this._elements.resizeHandle.addEventListener('pointerdown', (event) => {
       this._startResize(event)
     })
 
-    document.addEventListener('mousemove', (event) => {
-      this._handleMouseMove(event)
+    // 드래그/리사이즈 중인 포인터는 캡처되어 있으므로 컨테이너에서 이벤트를 받을 수 있습니다.
+    this._elements.container.addEventListener('pointerdown', (event) => {
+      this._trackTouch(event)
+    })
+
+    this._elements.container.addEventListener('pointermove', (event) => {
+      this._handlePointerMove(event)
+    })
+
+    this._elements.container.addEventListener('pointerup', (event) => {
+      this._handlePointerUp(event)
     })
 
-    document.addEventListener('mouseup', () => {
-      this._handleMouseUp()
+    this._elements.container.addEventListener('pointercancel', (event) => {
+      this._handlePointerUp(event)
     })
   }
 
+  /**
+   * REPL 입력창의 키 입력을 처리합니다.
+   * Enter로 실행하고, Shift+Enter로 줄을 바꾸며, 위/아래 화살표로 히스토리를 탐색합니다.
+   */
+  private _handleReplKeyDown(event: KeyboardEvent): void {
+    const input = event.target as HTMLTextAreaElement
+
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault()
+
+      const code = input.value
+      if (!code.trim()) return
+
+      this._commandHistory.push(code)
+      input.value = ''
+      this._resizeReplInput(input)
+
+      if (this._onCommandCallback) {
+        this._onCommandCallback(code)
+      }
+      return
+    }
+
+    const caret = input.selectionStart
+    const isOnFirstLine = !input.value.slice(0, caret).includes('\n')
+    const isOnLastLine = !input.value.slice(input.selectionEnd).includes('\n')
+
+    let replacement: string | null = null
+
+    if (event.key === 'ArrowUp' && isOnFirstLine) {
+      replacement = this._commandHistory.previous(input.value)
+    } else if (event.key === 'ArrowDown' && isOnLastLine) {
+      replacement = this._commandHistory.next()
+    }
+
+    if (replacement !== null) {
+      event.preventDefault()
+      input.value = replacement
+      input.setSelectionRange(replacement.length, replacement.length)
+      this._resizeReplInput(input)
+    }
+  }
+
+  /**
+   * 입력 내용의 줄 수에 맞게 REPL 입력창 높이를 조정합니다.
+   */
+  private _resizeReplInput(input: HTMLTextAreaElement): void {
+    input.rows = Math.min(6, Math.max(1, input.value.split('\n').length))
+  }
+
   /**
    * 필터 버튼 클릭을 처리합니다.
    */
   private _handleFilterClick(button: HTMLElement): void {
+    const { channel } = button.dataset
+    if (channel) {
+      // 채널 버튼은 그 채널 이름과 정확히 일치하는 규칙을 추가합니다.
+      this._addChannelRules([
+        { pattern: channel, enabled: !button.classList.contains('active') },
+      ])
+      return
+    }
+
     const level = button.dataset.level as LogLevel
     if (!level) return
 
@@ -504,18 +2222,163 @@ export class OverlayRenderer {
     }
   }
 
+  /**
+   * 검색 영역의 버튼 클릭을 처리합니다.
+   */
+  private _handleSearchAction(action: string): void {
+    switch (action) {
+      case 'case':
+        this._state.search.caseSensitive = !this._state.search.caseSensitive
+        this._setSearchQuery(this._state.search.query)
+        break
+      case 'previous':
+        this._moveSearchMatch(-1)
+        break
+      case 'next':
+        this._moveSearchMatch(1)
+        break
+    }
+  }
+
+  /**
+   * 검색 입력창의 키 입력을 처리합니다.
+   * Enter로 다음 결과, Shift+Enter로 이전 결과로 이동하고 Escape로 검색어를 지웁니다.
+   */
+  private _handleSearchKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      this._moveSearchMatch(event.shiftKey ? -1 : 1)
+    } else if (event.key === 'Escape' && this._state.search.query) {
+      event.preventDefault()
+      ;(event.target as HTMLInputElement).value = ''
+      this._setSearchQuery('')
+    }
+  }
+
+  /**
+   * 검색어를 적용하고 레벨 필터와 함께 로그 목록을 다시 렌더링하도록 요청합니다.
+   * 잘못된 정규식이면 입력창에 오류를 표시하고 검색 필터를 적용하지 않습니다.
+   */
+  private _setSearchQuery(query: string): void {
+    const { search } = this._state
+    const { pattern, error } = createSearchPattern(query, search.caseSensitive)
+
+    search.query = query
+    search.currentId = null
+    this._searchPattern = pattern
+
+    if (this._elements) {
+      const { searchInput, searchCaseButton } = this._elements
+      searchInput.classList.toggle('invalid', error !== undefined)
+      searchInput.title = error ?? ''
+      searchCaseButton.classList.toggle('active', search.caseSensitive)
+      searchCaseButton.setAttribute(
+        'aria-pressed',
+        String(search.caseSensitive)
+      )
+    }
+
+    this._requestRerender()
+    this._updateSearchCount()
+  }
+
+  /**
+   * 이전/다음 검색 결과로 이동합니다.
+   *
+   * @param step 이동 방향 (1: 다음, -1: 이전)
+   */
+  private _moveSearchMatch(step: number): void {
+    if (!this._logList || !this._searchPattern) return
+
+    const entries = this._logList.getEntries()
+    if (entries.length === 0) return
+
+    const { search } = this._state
+    const currentIndex = search.currentId
+      ? entries.findIndex((entry) => entry.id === search.currentId)
+      : -1
+    const nextIndex =
+      currentIndex < 0
+        ? step > 0
+          ? 0
+          : entries.length - 1
+        : (currentIndex + step + entries.length) % entries.length
+
+    const previousId = search.currentId
+    search.currentId = entries[nextIndex]!.id
+
+    this._logList.forEachCachedRow((row, id) => {
+      if (id === previousId || id === search.currentId) {
+        row.classList.toggle('search-current', id === search.currentId)
+      }
+    })
+    this._logList.scrollToEntry(search.currentId)
+    this._updateSearchCount()
+  }
+
+  /**
+   * 검색 결과 위치와 개수 표시를 갱신합니다.
+   * 검색 중에는 목록에 남은 항목이 모두 검색 결과입니다.
+   */
+  private _updateSearchCount(): void {
+    if (!this._elements || !this._logList) return
+
+    const count = this._elements.searchCount
+    if (!this._searchPattern) {
+      count.textContent = ''
+      return
+    }
+
+    const entries = this._logList.getEntries()
+    const { currentId } = this._state.search
+    const currentIndex = currentId
+      ? entries.findIndex((entry) => entry.id === currentId)
+      : -1
+
+    count.textContent = `${currentIndex + 1}/${entries.length}`
+  }
+
+  /**
+   * 행의 검색어 하이라이트와 현재 결과 표시를 갱신합니다.
+   * 같은 검색어로 이미 하이라이트한 행은 다시 처리하지 않습니다.
+   */
+  private _decorateSearchMatch(row: HTMLElement, log: LogEntry): void {
+    const pattern = this._searchPattern
+    const key = pattern ? String(pattern) : ''
+
+    row.classList.toggle(
+      'search-current',
+      log.id === this._state.search.currentId
+    )
+
+    if ((row.dataset.searchKey ?? '') === key) return
+    row.dataset.searchKey = key
+
+    const content = row.querySelector<HTMLElement>('.debug-overlay-log-content')
+    if (content) {
+      SearchHighlighter.apply(content, pattern)
+    }
+  }
+
   /**
    * 드래그를 시작합니다.
    */
-  private _startDrag(event: MouseEvent): void {
-    if (!this._elements) return
+  private _startDrag(event: PointerEvent): void {
+    if (!this._elements || !event.isPrimary || event.button !== 0) return
+
+    // 헤더의 버튼과 선택 요소는 드래그를 시작하지 않습니다. (select가 열리지 않는 문제 방지)
+    if ((event.target as HTMLElement).closest('.debug-overlay-controls')) {
+      return
+    }
 
     event.preventDefault()
+    capturePointer(this._elements.header, event.pointerId)
 
     const rect = this._elements.container.getBoundingClientRect()
 
     this._state.dragState = {
       isDragging: true,
+      pointerId: event.pointerId,
       startX: event.clientX,
       startY: event.clientY,
       startLeft: rect.left,
@@ -528,16 +2391,18 @@ export class OverlayRenderer {
   /**
    * 리사이즈를 시작합니다.
    */
-  private _startResize(event: MouseEvent): void {
-    if (!this._elements) return
+  private _startResize(event: PointerEvent): void {
+    if (!this._elements || !event.isPrimary || event.button !== 0) return
 
     event.preventDefault()
     event.stopPropagation()
+    capturePointer(this._elements.resizeHandle, event.pointerId)
 
     const rect = this._elements.container.getBoundingClientRect()
 
     this._state.resizeState = {
       isResizing: true,
+      pointerId: event.pointerId,
       startX: event.clientX,
       startY: event.clientY,
       startWidth: rect.width,
@@ -548,17 +2413,78 @@ export class OverlayRenderer {
   }
 
   /**
-   * 마우스 이동을 처리합니다.
+   * 오버레이에 닿은 터치 포인터를 기록하고, 두 번째 손가락이 닿으면 핀치 리사이즈를 시작합니다.
+   */
+  private _trackTouch(event: PointerEvent): void {
+    if (!this._elements || event.pointerType !== 'touch') return
+
+    const { touches } = this._state.pinchState
+    touches.set(event.pointerId, { x: event.clientX, y: event.clientY })
+
+    if (touches.size !== 2) return
+
+    // 한 손가락 드래그/리사이즈 중이었다면 핀치로 전환합니다.
+    this._endDrag()
+    this._endResize()
+
+    const rect = this._elements.container.getBoundingClientRect()
+
+    this._state.pinchState = {
+      isPinching: true,
+      touches,
+      startDistance: getTouchDistance(touches),
+      startWidth: rect.width,
+      startHeight: rect.height,
+    }
+
+    this._elements.container.classList.add('resizing')
+  }
+
+  /**
+   * 포인터 이동을 처리합니다.
    */
-  private _handleMouseMove(event: MouseEvent): void {
+  private _handlePointerMove(event: PointerEvent): void {
     if (!this._elements) return
 
-    if (this._state.dragState.isDragging) {
-      const deltaX = event.clientX - this._state.dragState.startX
-      const deltaY = event.clientY - this._state.dragState.startY
+    const { pinchState, dragState, resizeState } = this._state
+
+    if (pinchState.touches.has(event.pointerId)) {
+      pinchState.touches.set(event.pointerId, {
+        x: event.clientX,
+        y: event.clientY,
+      })
+    }
+
+    if (pinchState.isPinching) {
+      if (pinchState.startDistance > 0) {
+        const scale =
+          getTouchDistance(pinchState.touches) / pinchState.startDistance
+        this._applySize(
+          pinchState.startWidth * scale,
+          pinchState.startHeight * scale
+        )
+      }
+      return
+    }
+
+    if (dragState.isDragging && dragState.pointerId === event.pointerId) {
+      const deltaX = event.clientX - dragState.startX
+      const deltaY = event.clientY - dragState.startY
+
+      const { width, height } = this._elements.container.getBoundingClientRect()
+      const { width: viewportWidth, height: viewportHeight } = getViewportSize()
 
-      const newLeft = this._state.dragState.startLeft + deltaX
-      const newTop = this._state.dragState.startTop + deltaY
+      // 헤더가 화면 밖으로 나가 다시 잡을 수 없게 되지 않도록 화면 안에 둡니다.
+      const newLeft = clamp(
+        dragState.startLeft + deltaX,
+        0,
+        viewportWidth - width
+      )
+      const newTop = clamp(
+        dragState.startTop + deltaY,
+        0,
+        viewportHeight - height
+      )
 
       this._elements.container.style.left = `${newLeft}px`
       this._elements.container.style.top = `${newTop}px`
@@ -566,38 +2492,164 @@ export class OverlayRenderer {
       this._elements.container.style.bottom = 'auto'
     }
 
-    if (this._state.resizeState.isResizing) {
-      const deltaX = event.clientX - this._state.resizeState.startX
-      const deltaY = event.clientY - this._state.resizeState.startY
+    if (resizeState.isResizing && resizeState.pointerId === event.pointerId) {
+      const deltaX = event.clientX - resizeState.startX
+      const deltaY = event.clientY - resizeState.startY
 
-      const newWidth = Math.max(
-        300,
-        this._state.resizeState.startWidth + deltaX
+      this._applySize(
+        resizeState.startWidth + deltaX,
+        resizeState.startHeight + deltaY
       )
-      const newHeight = Math.max(
-        200,
-        this._state.resizeState.startHeight + deltaY
-      )
-
-      this._elements.container.style.width = `${newWidth}px`
-      this._elements.container.style.height = `${newHeight}px`
     }
   }
 
   /**
-   * 마우스 업을 처리합니다.
+   * 포인터 업/취소를 처리합니다.
    */
-  private _handleMouseUp(): void {
+  private _handlePointerUp(event: PointerEvent): void {
     if (!this._elements) return
 
-    if (this._state.dragState.isDragging) {
-      this._state.dragState.isDragging = false
-      this._elements.container.classList.remove('dragging')
-    }
+    const { pinchState, dragState, resizeState } = this._state
 
-    if (this._state.resizeState.isResizing) {
-      this._state.resizeState.isResizing = false
+    pinchState.touches.delete(event.pointerId)
+    if (pinchState.isPinching && pinchState.touches.size < 2) {
+      pinchState.isPinching = false
       this._elements.container.classList.remove('resizing')
     }
+
+    if (dragState.isDragging && dragState.pointerId === event.pointerId) {
+      this._endDrag()
+    }
+
+    if (resizeState.isResizing && resizeState.pointerId === event.pointerId) {
+      this._endResize()
+    }
+  }
+
+  /**
+   * 드래그를 끝냅니다.
+   */
+  private _endDrag(): void {
+    if (!this._state.dragState.isDragging) return
+
+    this._state.dragState.isDragging = false
+    this._state.dragState.pointerId = null
+    this._elements?.container.classList.remove('dragging')
+  }
+
+  /**
+   * 리사이즈를 끝냅니다.
+   */
+  private _endResize(): void {
+    if (!this._state.resizeState.isResizing) return
+
+    this._state.resizeState.isResizing = false
+    this._state.resizeState.pointerId = null
+    this._elements?.container.classList.remove('resizing')
+  }
+
+  /**
+   * 오버레이 크기를 최소 크기와 화면 안쪽으로 제한해 적용합니다.
+   */
+  private _applySize(width: number, height: number): void {
+    if (!this._elements) return
+
+    const rect = this._elements.container.getBoundingClientRect()
+    const { width: viewportWidth, height: viewportHeight } = getViewportSize()
+
+    const newWidth = clamp(
+      width,
+      Math.min(MIN_OVERLAY_WIDTH, viewportWidth),
+      viewportWidth - Math.max(rect.left, 0)
+    )
+    const newHeight = clamp(
+      height,
+      Math.min(MIN_OVERLAY_HEIGHT, viewportHeight),
+      viewportHeight - Math.max(rect.top, 0)
+    )
+
+    this._elements.container.style.width = `${newWidth}px`
+    this._elements.container.style.height = `${newHeight}px`
   }
 }
+
+/**
+ * MediaQueryList 변경 리스너를 등록합니다.
+ * addEventListener를 지원하지 않는 구형 WebView(Safari 13 이하)에서는 addListener를 사용합니다.
+ */
+function addMediaQueryListener(
+  query: MediaQueryList,
+  listener: () => void
+): void {
+  if (typeof query.addEventListener === 'function') {
+    query.addEventListener('change', listener)
+  } else {
+    query.addListener(listener)
+  }
+}
+
+/**
+ * MediaQueryList 변경 리스너를 제거합니다.
+ */
+function removeMediaQueryListener(
+  query: MediaQueryList,
+  listener: () => void
+): void {
+  if (typeof query.removeEventListener === 'function') {
+    query.removeEventListener('change', listener)
+  } else {
+    query.removeListener(listener)
+  }
+}
+
+/**
+ * 포인터를 요소에 캡처해, 포인터가 요소 밖으로 나가도 이벤트를 계속 받도록 합니다.
+ */
+function capturePointer(element: HTMLElement, pointerId: number): void {
+  try {
+    element.setPointerCapture(pointerId)
+  } catch (error) {
+    // 이미 해제된 포인터(합성 이벤트 등)는 캡처할 수 없습니다.
+  }
+}
+
+/**
+ * 스크롤바를 제외한 화면(뷰포트) 크기를 반환합니다.
+ */
+function getViewportSize(): { width: number; height: number } {
+  return {
+    width: document.documentElement.clientWidth || window.innerWidth,
+    height: document.documentElement.clientHeight || window.innerHeight,
+  }
+}
+
+/**
+ * 값을 최솟값과 최댓값 사이로 제한합니다. (최댓값이 더 작으면 최솟값 우선)
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max))
+}
+
+/**
+ * 첫 두 터치 포인터 사이의 거리를 계산합니다.
+ */
+function getTouchDistance(
+  touches: Map<number, { x: number; y: number }>
+): number {
+  const [first, second] = Array.from(touches.values())
+  if (!first || !second) return 0
+  return Math.hypot(second.x - first.x, second.y - first.y)
+}
+
+/**
+ * 두 로그 항목이 반복 횟수와 마지막 발생 시간 외에는 같은지 확인합니다.
+ */
+function isRepeatOnlyChange(previous: LogEntry, next: LogEntry): boolean {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)])
+  return Array.from(keys).every(
+    (key) =>
+      key === 'repeatCount' ||
+      key === 'lastTimestamp' ||
+      previous[key as keyof LogEntry] === next[key as keyof LogEntry]
+  )
+}
@@ -1,12 +1,19 @@
+import type {
+  OverlayTheme,
+  ThemeName,
+  ThemePalette,
+} from '../types/types.js';
+
 /**
  * 디버그 오버레이의 CSS 스타일을 정의합니다.
  * 모든 스타일은 문자열로 관리되며, 라이브러리 초기화 시 동적으로 주입됩니다.
+ * 색상은 CSS 사용자 정의 속성(--debug-overlay-*)으로 참조하므로, 테마를 바꿀 때 스타일 시트를 다시 만들 필요가 없습니다.
  */
 
 /**
  * 다크 테마 색상 팔레트
  */
-const DARK_THEME = {
+const DARK_THEME: ThemePalette = {
   background: '#1e1e1e',
   surface: '#2d2d2d',
   border: '#404040',
@@ -26,7 +33,7 @@ const DARK_THEME = {
 /**
  * 라이트 테마 색상 팔레트
  */
-const LIGHT_THEME = {
+const LIGHT_THEME: ThemePalette = {
   background: '#ffffff',
   surface: '#f5f5f5',
   border: '#e0e0e0',
@@ -43,6 +50,143 @@ const LIGHT_THEME = {
   scrollbarHover: '#999999',
 };
 
+/**
+ * 고대비 테마 색상 팔레트
+ */
+const HIGH_CONTRAST_THEME: ThemePalette = {
+  background: '#000000',
+  surface: '#000000',
+  border: '#ffffff',
+  text: '#ffffff',
+  textSecondary: '#ffffff',
+  textMuted: '#e0e0e0',
+  accent: '#ffff00',
+  success: '#00ff00',
+  warning: '#ffbf00',
+  error: '#ff5c5c',
+  info: '#00ffff',
+  debug: '#ff80ff',
+  scrollbar: '#ffffff',
+  scrollbarHover: '#ffff00',
+};
+
+/**
+ * 기본 제공 테마 팔레트
+ */
+export const THEMES: Record<ThemeName, ThemePalette> = {
+  dark: DARK_THEME,
+  light: LIGHT_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME,
+};
+
+/**
+ * 팔레트 색상 이름을 CSS 사용자 정의 속성 이름으로 변환합니다. (textMuted → --debug-overlay-text-muted)
+ */
+function toVariableName(name: string): string {
+  return `--debug-overlay-${name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+/**
+ * 스타일 시트에서 사용하는 색상 값 (모두 CSS 사용자 정의 속성 참조)
+ */
+const THEME_VARIABLES = Object.keys(DARK_THEME).reduce((variables, name) => {
+  variables[name as keyof ThemePalette] = `var(${toVariableName(name)})`;
+  return variables;
+}, {} as ThemePalette);
+
+/**
+ * 테마 설정이 prefers-color-scheme을 따르는지 확인합니다.
+ */
+export function isAutoTheme(theme: OverlayTheme): boolean {
+  return theme === 'auto' || (typeof theme === 'object' && theme.base === 'auto');
+}
+
+/**
+ * 테마 설정을 실제 색상 팔레트로 변환합니다.
+ *
+ * @param theme 테마 설정
+ * @param prefersDark 'auto' 테마에서 다크 테마를 사용할지 여부
+ * @returns 색상 팔레트
+ */
+export function resolveThemePalette(theme: OverlayTheme, prefersDark: boolean): ThemePalette {
+  if (theme === 'auto') {
+    return prefersDark ? DARK_THEME : LIGHT_THEME;
+  }
+
+  if (typeof theme === 'string') {
+    return THEMES[theme] ?? DARK_THEME;
+  }
+
+  const { base = 'dark', ...overrides } = theme;
+  const palette = { ...resolveThemePalette(base, prefersDark) };
+  (Object.keys(palette) as (keyof ThemePalette)[]).forEach((name) => {
+    const color = overrides[name];
+    if (color) {
+      palette[name] = color;
+    }
+  });
+  return palette;
+}
+
+/**
+ * 요소에 팔레트 색상을 CSS 사용자 정의 속성으로 설정합니다.
+ * 하위 요소(shadow root 안의 요소 포함)는 이 값을 상속받습니다.
+ */
+export function applyThemeVariables(element: HTMLElement, palette: ThemePalette): void {
+  (Object.keys(palette) as (keyof ThemePalette)[]).forEach((name) => {
+    element.style.setProperty(toVariableName(name), palette[name]);
+  });
+}
+
+/**
+ * 팔레트를 CSS 사용자 정의 속성 선언 문자열로 변환합니다.
+ */
+function createThemeDeclarations(palette: ThemePalette): string {
+  return (Object.keys(palette) as (keyof ThemePalette)[])
+    .map((name) => `${toVariableName(name)}: ${palette[name]};`)
+    .join(' ');
+}
+
+/**
+ * 스타일 시트를 적용하는 위치
+ */
+export type StyleScope = 'global' | 'shadow';
+
+/**
+ * 사용자 정의 속성의 기본값을 선언하는 선택자
+ * - 'global': 페이지의 :root에 변수가 새지 않도록 오버레이와 런처 요소에만 선언
+ * - 'shadow': shadow host에 선언 (shadow root 안의 요소들이 상속)
+ */
+const THEME_SCOPE_SELECTORS: Record<StyleScope, string> = {
+  global: '.debug-overlay, .debug-overlay-launcher',
+  shadow: ':host',
+};
+
+/**
+ * 사용자 정의 속성의 기본값 스타일
+ * 오버레이 요소(또는 shadow host)에 인라인으로 직접 설정한 값이 우선합니다.
+ */
+function createThemeStyles(theme: OverlayTheme, scope: StyleScope): string {
+  const selector = THEME_SCOPE_SELECTORS[scope];
+  const styles = `
+  ${selector} {
+    ${createThemeDeclarations(resolveThemePalette(theme, true))}
+  }
+`;
+
+  if (!isAutoTheme(theme)) {
+    return styles;
+  }
+
+  return `${styles}
+  @media (prefers-color-scheme: light) {
+    ${selector} {
+      ${createThemeDeclarations(resolveThemePalette(theme, false))}
+    }
+  }
+`;
+}
+
 /**
  * 기본 CSS 리셋 및 공통 스타일
  */
@@ -57,7 +201,7 @@ const BASE_STYLES = `
 /**
  * 메인 오버레이 컨테이너 스타일
  */
-const CONTAINER_STYLES = (theme: typeof DARK_THEME) => `
+const CONTAINER_STYLES = (theme: ThemePalette) => `
   .debug-overlay {
     position: fixed;
     background: ${theme.background};
@@ -77,12 +221,34 @@ const CONTAINER_STYLES = (theme: typeof DARK_THEME) => `
     flex-direction: column;
     backdrop-filter: blur(10px);
     -webkit-backdrop-filter: blur(10px);
+    touch-action: pan-x pan-y;
   }
 
-  .debug-overlay.hidden {
+  .debug-overlay.hidden,
+  .debug-overlay .hidden {
     display: none !important;
   }
 
+  .debug-overlay.position-top-left {
+    top: 20px;
+    left: 20px;
+  }
+
+  .debug-overlay.position-top-right {
+    top: 20px;
+    right: 20px;
+  }
+
+  .debug-overlay.position-bottom-left {
+    bottom: 20px;
+    left: 20px;
+  }
+
+  .debug-overlay.position-bottom-right {
+    bottom: 20px;
+    right: 20px;
+  }
+
   .debug-overlay.dragging {
     user-select: none;
     cursor: move;
@@ -96,7 +262,7 @@ const CONTAINER_STYLES = (theme: typeof DARK_THEME) => `
 /**
  * 헤더 영역 스타일
  */
-const HEADER_STYLES = (theme: typeof DARK_THEME) => `
+const HEADER_STYLES = (theme: ThemePalette) => `
   .debug-overlay-header {
     display: flex;
     align-items: center;
@@ -107,6 +273,7 @@ const HEADER_STYLES = (theme: typeof DARK_THEME) => `
     border-radius: 8px 8px 0 0;
     cursor: move;
     user-select: none;
+    touch-action: none;
   }
 
   .debug-overlay-title {
@@ -150,6 +317,24 @@ const HEADER_STYLES = (theme: typeof DARK_THEME) => `
     color: ${theme.background};
   }
 
+  .debug-overlay-button.report {
+    border-color: ${theme.accent};
+    color: ${theme.accent};
+  }
+
+  .debug-overlay-button.report:hover {
+    background: ${theme.accent};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-export {
+    font-family: inherit;
+  }
+
+  .debug-overlay-export option {
+    background: ${theme.surface};
+    color: ${theme.text};
+  }
   .debug-overlay-button.close {
     border-color: ${theme.error};
     color: ${theme.error};
@@ -159,12 +344,28 @@ const HEADER_STYLES = (theme: typeof DARK_THEME) => `
     background: ${theme.error};
     color: ${theme.background};
   }
+
+  .debug-overlay-notice {
+    position: absolute;
+    left: 50%;
+    bottom: 16px;
+    transform: translateX(-50%);
+    padding: 6px 12px;
+    background: ${theme.surface};
+    border: 1px solid ${theme.border};
+    border-radius: 4px;
+    color: ${theme.text};
+    font-size: 11px;
+    white-space: nowrap;
+    pointer-events: none;
+    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3);
+  }
 `;
 
 /**
  * 필터 영역 스타일
  */
-const FILTER_STYLES = (theme: typeof DARK_THEME) => `
+const FILTER_STYLES = (theme: ThemePalette) => `
   .debug-overlay-filters {
     display: flex;
     gap: 4px;
@@ -222,164 +423,719 @@ const FILTER_STYLES = (theme: typeof DARK_THEME) => `
     background: ${theme.debug};
     border-color: ${theme.debug};
   }
+
+  .debug-overlay-channel-filters {
+    display: contents;
+  }
+
+  .debug-overlay-filter.channel {
+    text-transform: none;
+    border-color: var(--debug-overlay-channel-color, ${theme.border});
+  }
+
+  .debug-overlay-filter.channel.active {
+    background: var(--debug-overlay-channel-color, ${theme.accent});
+    border-color: var(--debug-overlay-channel-color, ${theme.accent});
+  }
 `;
 
 /**
- * 로그 컨테이너 스타일
+ * 로그 검색 스타일
  */
-const LOG_CONTAINER_STYLES = (theme: typeof DARK_THEME) => `
-  .debug-overlay-logs {
+const SEARCH_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-search {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    flex: 1 1 160px;
+    min-width: 160px;
+  }
+
+  .debug-overlay-search-input {
     flex: 1;
-    overflow-y: auto;
-    padding: 8px 0;
+    min-width: 0;
     background: ${theme.background};
+    border: 1px solid ${theme.border};
+    border-radius: 4px;
+    color: ${theme.text};
+    font-family: inherit;
+    font-size: 11px;
+    padding: 3px 6px;
+    outline: none;
   }
 
-  .debug-overlay-logs::-webkit-scrollbar {
-    width: 8px;
+  .debug-overlay-search-input:focus {
+    border-color: ${theme.accent};
   }
 
-  .debug-overlay-logs::-webkit-scrollbar-track {
-    background: ${theme.surface};
+  .debug-overlay-search-input.invalid {
+    border-color: ${theme.error};
   }
 
-  .debug-overlay-logs::-webkit-scrollbar-thumb {
-    background: ${theme.scrollbar};
+  .debug-overlay-search-button {
+    background: transparent;
+    border: 1px solid ${theme.border};
+    color: ${theme.textSecondary};
+    padding: 2px 6px;
     border-radius: 4px;
+    cursor: pointer;
+    font-size: 10px;
+    user-select: none;
   }
 
-  .debug-overlay-logs::-webkit-scrollbar-thumb:hover {
-    background: ${theme.scrollbarHover};
+  .debug-overlay-search-button:hover {
+    border-color: ${theme.accent};
   }
 
-  .debug-overlay-log-entry {
-    padding: 6px 12px;
-    border-bottom: 1px solid ${theme.border};
-    word-wrap: break-word;
-    font-family: inherit;
+  .debug-overlay-search-button.active {
+    background: ${theme.accent};
+    border-color: ${theme.accent};
+    color: ${theme.background};
   }
 
-  .debug-overlay-log-entry:last-child {
-    border-bottom: none;
+  .debug-overlay-search-count {
+    color: ${theme.textMuted};
+    font-size: 10px;
+    min-width: 32px;
+    text-align: center;
   }
 
-  .debug-overlay-log-entry.log {
-    border-left: 3px solid ${theme.textSecondary};
+  .debug-overlay-search-match {
+    background: ${theme.warning};
+    color: ${theme.background};
+    border-radius: 2px;
   }
 
-  .debug-overlay-log-entry.info {
-    border-left: 3px solid ${theme.info};
+  .debug-overlay-log-entry.search-current {
+    outline: 1px solid ${theme.accent};
+    outline-offset: -1px;
   }
 
-  .debug-overlay-log-entry.warn {
-    border-left: 3px solid ${theme.warning};
-    background: rgba(255, 152, 0, 0.05);
+  .debug-overlay-log-entry.search-current .debug-overlay-search-match {
+    background: ${theme.accent};
   }
+`;
 
-  .debug-overlay-log-entry.error {
-    border-left: 3px solid ${theme.error};
-    background: rgba(244, 67, 54, 0.05);
+/**
+ * 탭 바 스타일
+ */
+const TAB_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-tabs {
+    display: flex;
+    overflow-x: auto;
+    scrollbar-width: none;
+    background: ${theme.surface};
+    border-bottom: 1px solid ${theme.border};
   }
 
-  .debug-overlay-log-entry.debug {
-    border-left: 3px solid ${theme.debug};
+  .debug-overlay-tab {
+    background: transparent;
+    border: none;
+    border-bottom: 2px solid transparent;
+    color: ${theme.textMuted};
+    padding: 6px 12px;
+    cursor: pointer;
+    font-size: 11px;
+    font-family: inherit;
+    user-select: none;
+    flex-shrink: 0;
   }
 
-  .debug-overlay-log-meta {
+  .debug-overlay-tab:hover {
+    color: ${theme.text};
+  }
+
+  .debug-overlay-tab.active {
+    color: ${theme.text};
+    border-bottom-color: ${theme.accent};
+  }
+
+  .debug-overlay-panel {
+    flex: 1;
+    min-height: 0;
     display: flex;
-    align-items: center;
-    gap: 8px;
-    margin-bottom: 4px;
-    font-size: 10px;
-    color: ${theme.textMuted};
+    flex-direction: column;
   }
 
-  .debug-overlay-log-level {
-    text-transform: uppercase;
-    font-weight: bold;
-    padding: 2px 6px;
-    border-radius: 3px;
+  .debug-overlay-panel.scrollable {
+    display: block;
+    overflow: auto;
+    padding: 8px 12px;
+    background: ${theme.background};
+  }
+
+  .debug-overlay-tab-badge {
+    display: inline-block;
+    min-width: 16px;
+    margin-left: 6px;
+    padding: 0 4px;
+    border-radius: 8px;
+    background: ${theme.error};
+    color: #ffffff;
     font-size: 9px;
+    line-height: 14px;
+    text-align: center;
   }
 
-  .debug-overlay-log-level.log {
-    background: ${theme.textSecondary};
-    color: ${theme.background};
+  .debug-overlay-panel-toolbar {
+    display: flex;
+    gap: 4px;
+    margin-bottom: 8px;
   }
 
-  .debug-overlay-log-level.info {
-    background: ${theme.info};
-    color: ${theme.background};
+  .debug-overlay-system-section + .debug-overlay-system-section {
+    margin-top: 12px;
   }
 
-  .debug-overlay-log-level.warn {
-    background: ${theme.warning};
-    color: ${theme.background};
+  .debug-overlay-system-title {
+    margin-bottom: 4px;
+    font-size: 11px;
+    color: ${theme.accent};
+    text-transform: uppercase;
   }
 
-  .debug-overlay-log-level.error {
-    background: ${theme.error};
-    color: ${theme.background};
+  .debug-overlay-kv-table {
+    width: 100%;
+    border-collapse: collapse;
   }
 
-  .debug-overlay-log-level.debug {
-    background: ${theme.debug};
-    color: ${theme.background};
+  .debug-overlay-kv-table td {
+    padding: 2px 8px 2px 0;
+    border-bottom: 1px solid ${theme.border};
+    vertical-align: top;
   }
 
-  .debug-overlay-log-timestamp {
+  .debug-overlay-kv-name {
+    width: 35%;
     color: ${theme.textMuted};
+    white-space: nowrap;
   }
 
-  .debug-overlay-log-content {
+  .debug-overlay-kv-value {
     color: ${theme.text};
-    white-space: pre-wrap;
+    word-break: break-all;
   }
 
-  .debug-overlay-log-args {
-    display: flex;
-    flex-direction: column;
-    gap: 4px;
+  .debug-overlay-storage-select {
+    max-width: 50%;
   }
 
-  .debug-overlay-log-arg {
-    padding: 4px 8px;
-    background: ${theme.surface};
-    border-radius: 4px;
-    border-left: 2px solid ${theme.border};
+  .debug-overlay-storage-status {
+    align-self: center;
+    margin-left: auto;
+    color: ${theme.textMuted};
+    font-size: 10px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
   }
-`;
 
-/**
- * JSON 뷰어 스타일
- */
-const JSON_VIEWER_STYLES = (theme: typeof DARK_THEME) => `
-  .debug-overlay-json {
-    font-family: inherit;
-    font-size: 11px;
+  .debug-overlay-storage-status.error {
+    color: ${theme.error};
   }
 
-  .debug-overlay-json-key {
+  .debug-overlay-storage-row {
+    display: flex;
+    align-items: flex-start;
+    gap: 8px;
+    padding: 4px 0;
+    border-bottom: 1px solid ${theme.border};
+  }
+
+  .debug-overlay-storage-key {
+    flex: 0 0 30%;
+    min-width: 0;
     color: ${theme.accent};
-    font-weight: bold;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
   }
 
-  .debug-overlay-json-string {
-    color: ${theme.success};
+  .debug-overlay-storage-value {
+    flex: 1;
+    min-width: 0;
+    color: ${theme.text};
+    word-break: break-all;
   }
 
-  .debug-overlay-json-number {
-    color: ${theme.info};
+  textarea.debug-overlay-storage-value {
+    resize: vertical;
   }
 
-  .debug-overlay-json-boolean {
-    color: ${theme.warning};
-    font-weight: bold;
+  .debug-overlay-storage-actions {
+    display: flex;
+    flex-shrink: 0;
+    gap: 4px;
   }
 
-  .debug-overlay-json-null {
+  .debug-overlay-storage-empty {
     color: ${theme.textMuted};
-    font-style: italic;
+    text-align: center;
+    padding: 12px 0;
+  }
+`;
+
+/**
+ * 네트워크 패널 스타일
+ */
+const NETWORK_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-network {
+    flex: 1;
+    overflow-y: auto;
+    background: ${theme.background};
+  }
+
+  .debug-overlay-network-entry {
+    border-bottom: 1px solid ${theme.border};
+  }
+
+  .debug-overlay-network-entry.error {
+    background: rgba(244, 67, 54, 0.05);
+  }
+
+  .debug-overlay-network-summary {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 6px 12px;
+    cursor: pointer;
+  }
+
+  .debug-overlay-network-summary:hover {
+    background: ${theme.surface};
+  }
+
+  .debug-overlay-network-method {
+    font-weight: bold;
+    color: ${theme.accent};
+    min-width: 40px;
+  }
+
+  .debug-overlay-network-status {
+    min-width: 28px;
+    font-weight: bold;
+  }
+
+  .debug-overlay-network-status.pending {
+    color: ${theme.textMuted};
+  }
+
+  .debug-overlay-network-status.success {
+    color: ${theme.success};
+  }
+
+  .debug-overlay-network-status.redirect {
+    color: ${theme.warning};
+  }
+
+  .debug-overlay-network-status.error {
+    color: ${theme.error};
+  }
+
+  .debug-overlay-network-url {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    color: ${theme.textSecondary};
+  }
+
+  .debug-overlay-network-duration {
+    color: ${theme.textMuted};
+    font-size: 10px;
+  }
+
+  .debug-overlay-network-details {
+    padding: 4px 12px 8px;
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+  }
+
+  .debug-overlay-network-section-title {
+    font-size: 10px;
+    font-weight: bold;
+    text-transform: uppercase;
+    color: ${theme.textMuted};
+    margin-bottom: 2px;
+  }
+`;
+
+/**
+ * 로그 컨테이너 스타일
+ */
+const LOG_CONTAINER_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-logs {
+    flex: 1;
+    overflow-y: auto;
+    overflow-anchor: none;
+    padding: 8px 0;
+    background: ${theme.background};
+  }
+
+  .debug-overlay-logs-spacer {
+    pointer-events: none;
+  }
+
+  .debug-overlay-logs::-webkit-scrollbar {
+    width: 8px;
+  }
+
+  .debug-overlay-logs::-webkit-scrollbar-track {
+    background: ${theme.surface};
+  }
+
+  .debug-overlay-logs::-webkit-scrollbar-thumb {
+    background: ${theme.scrollbar};
+    border-radius: 4px;
+  }
+
+  .debug-overlay-logs::-webkit-scrollbar-thumb:hover {
+    background: ${theme.scrollbarHover};
+  }
+
+  .debug-overlay-log-entry {
+    padding: 6px 12px;
+    border-bottom: 1px solid ${theme.border};
+    word-wrap: break-word;
+    font-family: inherit;
+  }
+
+  .debug-overlay-log-entry:last-child {
+    border-bottom: none;
+  }
+
+  .debug-overlay-log-entry.log {
+    border-left: 3px solid ${theme.textSecondary};
+  }
+
+  .debug-overlay-log-entry.info {
+    border-left: 3px solid ${theme.info};
+  }
+
+  .debug-overlay-log-entry.warn {
+    border-left: 3px solid ${theme.warning};
+    background: rgba(255, 152, 0, 0.05);
+  }
+
+  .debug-overlay-log-entry.error {
+    border-left: 3px solid ${theme.error};
+    background: rgba(244, 67, 54, 0.05);
+  }
+
+  .debug-overlay-log-entry.debug {
+    border-left: 3px solid ${theme.debug};
+  }
+
+  .debug-overlay-log-entry.previous {
+    opacity: 0.75;
+  }
+
+  .debug-overlay-log-entry.imported {
+    background-image: repeating-linear-gradient(
+      -45deg,
+      transparent 0 8px,
+      rgba(127, 127, 127, 0.06) 8px 16px
+    );
+  }
+
+  .debug-overlay-log-entry.imported .debug-overlay-session-separator {
+    color: ${theme.accent};
+    border-bottom-color: ${theme.accent};
+  }
+
+  .debug-overlay-session-separator {
+    margin: -6px -12px 6px;
+    padding: 4px 12px;
+    font-size: 10px;
+    font-weight: bold;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    color: ${theme.textMuted};
+    background: ${theme.surface};
+    border-bottom: 1px dashed ${theme.border};
+  }
+
+  .debug-overlay-log-meta {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-bottom: 4px;
+    font-size: 10px;
+    color: ${theme.textMuted};
+  }
+
+  .debug-overlay-log-level {
+    text-transform: uppercase;
+    font-weight: bold;
+    padding: 2px 6px;
+    border-radius: 3px;
+    font-size: 9px;
+  }
+
+  .debug-overlay-log-level.log {
+    background: ${theme.textSecondary};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-log-level.info {
+    background: ${theme.info};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-log-level.warn {
+    background: ${theme.warning};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-log-level.error {
+    background: ${theme.error};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-log-level.debug {
+    background: ${theme.debug};
+    color: ${theme.background};
+  }
+
+  .debug-overlay-log-timestamp {
+    color: ${theme.textMuted};
+  }
+
+  .debug-overlay-log-repeat {
+    padding: 0 5px;
+    border-radius: 8px;
+    background: ${theme.surface};
+    border: 1px solid ${theme.border};
+    color: ${theme.textSecondary};
+    font-size: 9px;
+    font-weight: bold;
+  }
+
+  .debug-overlay-log-channel {
+    padding: 0 5px;
+    border-radius: 8px;
+    background: var(--debug-overlay-channel-color, ${theme.accent});
+    color: ${theme.background};
+    font-size: 9px;
+    font-weight: bold;
+  }
+
+  .debug-overlay-log-content {
+    color: ${theme.text};
+    white-space: pre-wrap;
+  }
+
+  .debug-overlay-log-args {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+  }
+
+  .debug-overlay-log-arg {
+    padding: 4px 8px;
+    background: ${theme.surface};
+    border-radius: 4px;
+    border-left: 2px solid ${theme.border};
+  }
+
+  .debug-overlay-log-entry.grouped {
+    margin-left: calc(var(--debug-overlay-group-depth, 0) * 12px);
+  }
+
+  .debug-overlay-group-header {
+    cursor: pointer;
+    user-select: none;
+    font-weight: bold;
+  }
+
+  .debug-overlay-group-header:hover .debug-overlay-json-toggle {
+    color: ${theme.accent};
+  }
+
+  .debug-overlay-log-arg.text {
+    color: ${theme.textSecondary};
+  }
+
+  .debug-overlay-log-stack {
+    margin-top: 4px;
+    font-size: 11px;
+    color: ${theme.textSecondary};
+  }
+
+  .debug-overlay-stack-raw {
+    margin: 0;
+    white-space: pre-wrap;
+    word-break: break-word;
+    font: inherit;
+  }
+
+  .debug-overlay-stack-frames {
+    margin: 0;
+    padding: 0;
+    list-style: none;
+  }
+
+  .debug-overlay-stack-frame {
+    display: flex;
+    align-items: baseline;
+    gap: 6px;
+    padding: 1px 0;
+  }
+
+  .debug-overlay-stack-frame.library {
+    opacity: 0.5;
+  }
+
+  .debug-overlay-stack-function {
+    color: ${theme.text};
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .debug-overlay-stack-location {
+    flex: 1;
+    min-width: 0;
+    color: ${theme.textMuted};
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .debug-overlay-stack-copy {
+    padding: 0 4px;
+    background: none;
+    border: none;
+    color: ${theme.textMuted};
+    font: inherit;
+    cursor: pointer;
+    opacity: 0;
+  }
+
+  .debug-overlay-stack-frame:hover .debug-overlay-stack-copy,
+  .debug-overlay-stack-copy:focus {
+    opacity: 1;
+  }
+
+  .debug-overlay-stack-copy:hover {
+    color: ${theme.accent};
+  }
+
+  .debug-overlay-stack-toolbar {
+    display: flex;
+    gap: 4px;
+    margin-top: 2px;
+  }
+
+  .debug-overlay-stack-toggle {
+    padding: 1px 6px;
+    background: none;
+    border: 1px solid ${theme.border};
+    border-radius: 3px;
+    color: ${theme.textSecondary};
+    font: inherit;
+    font-size: 10px;
+    cursor: pointer;
+  }
+
+  .debug-overlay-stack-toggle:hover {
+    color: ${theme.accent};
+    border-color: ${theme.accent};
+  }
+
+  .debug-overlay-log-arg.formatted {
+    white-space: pre-wrap;
+    word-break: break-word;
+  }
+
+  .debug-overlay-log-arg.formatted > .debug-overlay-json {
+    display: inline-block;
+    vertical-align: top;
+  }
+`;
+
+/**
+ * REPL 입력 영역 스타일
+ */
+const REPL_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-repl {
+    display: flex;
+    align-items: flex-start;
+    gap: 6px;
+    padding: 6px 12px;
+    background: ${theme.surface};
+    border-top: 1px solid ${theme.border};
+  }
+
+  .debug-overlay-repl-prompt {
+    color: ${theme.accent};
+    font-weight: bold;
+    line-height: 18px;
+  }
+
+  .debug-overlay-repl-input {
+    flex: 1;
+    resize: none;
+    background: transparent;
+    border: none;
+    outline: none;
+    color: ${theme.text};
+    font-family: inherit;
+    font-size: 12px;
+    line-height: 18px;
+  }
+
+  .debug-overlay-repl-input::placeholder {
+    color: ${theme.textMuted};
+  }
+
+  .debug-overlay-log-prefix {
+    color: ${theme.accent};
+    font-weight: bold;
+  }
+
+  .debug-overlay-log-command {
+    font-family: inherit;
+    color: ${theme.textSecondary};
+  }
+
+  .debug-overlay-log-entry.repl-input,
+  .debug-overlay-log-entry.repl-result.log {
+    border-left-color: ${theme.accent};
+  }
+`;
+
+/**
+ * JSON 뷰어 스타일
+ */
+const JSON_VIEWER_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-json {
+    font-family: inherit;
+    font-size: 11px;
+  }
+
+  .debug-overlay-json-key {
+    color: ${theme.accent};
+    font-weight: bold;
+  }
+
+  .debug-overlay-json-string {
+    color: ${theme.success};
+  }
+
+  .debug-overlay-json-number {
+    color: ${theme.info};
+  }
+
+  .debug-overlay-json-boolean {
+    color: ${theme.warning};
+    font-weight: bold;
+  }
+
+  .debug-overlay-json-null {
+    color: ${theme.textMuted};
+    font-style: italic;
   }
 
   .debug-overlay-json-undefined {
@@ -387,6 +1143,35 @@ const JSON_VIEWER_STYLES = (theme: typeof DARK_THEME) => `
     font-style: italic;
   }
 
+  .debug-overlay-json-symbol,
+  .debug-overlay-json-regexp {
+    color: ${theme.warning};
+  }
+
+  .debug-overlay-json-date {
+    color: ${theme.info};
+  }
+
+  .debug-overlay-json-node {
+    color: ${theme.accent};
+  }
+
+  .debug-overlay-json-special,
+  .debug-overlay-json-circular {
+    color: ${theme.textMuted};
+    font-style: italic;
+  }
+
+  .debug-overlay-json-error {
+    color: ${theme.error};
+  }
+
+  .debug-overlay-json-stack {
+    display: block;
+    white-space: pre-wrap;
+    color: ${theme.textSecondary};
+  }
+
   .debug-overlay-json-object,
   .debug-overlay-json-array {
     margin-left: 16px;
@@ -405,6 +1190,7 @@ const JSON_VIEWER_STYLES = (theme: typeof DARK_THEME) => `
 
   .debug-overlay-json-collapsed {
     color: ${theme.textMuted};
+    cursor: pointer;
     font-style: italic;
     padding: 2px 4px;
     border-radius: 3px;
@@ -418,10 +1204,49 @@ const JSON_VIEWER_STYLES = (theme: typeof DARK_THEME) => `
   }
 `;
 
+/**
+ * console.table 스타일
+ */
+const TABLE_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-table-wrapper {
+    overflow-x: auto;
+    max-width: 100%;
+  }
+
+  .debug-overlay-table {
+    border-collapse: collapse;
+    font-size: 11px;
+    white-space: nowrap;
+  }
+
+  .debug-overlay-table th,
+  .debug-overlay-table td {
+    border: 1px solid ${theme.border};
+    padding: 2px 6px;
+    text-align: left;
+  }
+
+  .debug-overlay-table th {
+    background: ${theme.surface};
+    color: ${theme.textSecondary};
+    font-weight: bold;
+  }
+
+  .debug-overlay-table-index {
+    color: ${theme.textMuted};
+  }
+
+  .debug-overlay-table-more {
+    color: ${theme.textMuted};
+    font-style: italic;
+    padding-top: 2px;
+  }
+`;
+
 /**
  * 리사이즈 핸들 스타일
  */
-const RESIZE_HANDLE_STYLES = (theme: typeof DARK_THEME) => `
+const RESIZE_HANDLE_STYLES = (theme: ThemePalette) => `
   .debug-overlay-resize-handle {
     position: absolute;
     bottom: 0;
@@ -429,12 +1254,92 @@ const RESIZE_HANDLE_STYLES = (theme: typeof DARK_THEME) => `
     width: 16px;
     height: 16px;
     cursor: se-resize;
+    touch-action: none;
     background: linear-gradient(-45deg, transparent 0%, transparent 30%, ${theme.border} 30%, ${theme.border} 40%, transparent 40%, transparent 60%, ${theme.border} 60%, ${theme.border} 70%, transparent 70%);
   }
 
   .debug-overlay-resize-handle:hover {
     background: linear-gradient(-45deg, transparent 0%, transparent 30%, ${theme.accent} 30%, ${theme.accent} 40%, transparent 40%, transparent 60%, ${theme.accent} 60%, ${theme.accent} 70%, transparent 70%);
   }
+
+  @media (pointer: coarse) {
+    .debug-overlay-resize-handle {
+      width: 32px;
+      height: 32px;
+    }
+  }
+`;
+
+/**
+ * 플로팅 런처 스타일
+ */
+const LAUNCHER_STYLES = (theme: ThemePalette) => `
+  .debug-overlay-launcher {
+    position: fixed;
+    width: 48px;
+    height: 48px;
+    padding: 0;
+    border: 1px solid ${theme.border};
+    border-radius: 50%;
+    background: ${theme.surface};
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.3);
+    cursor: pointer;
+    user-select: none;
+    touch-action: none;
+    transition: left 0.2s ease-out, right 0.2s ease-out;
+  }
+
+  .debug-overlay-launcher.hidden {
+    display: none;
+  }
+
+  .debug-overlay-launcher.dragging {
+    cursor: move;
+    transition: none;
+  }
+
+  .debug-overlay-launcher-icon {
+    font-size: 22px;
+    line-height: 46px;
+  }
+
+  .debug-overlay-launcher-badges {
+    position: absolute;
+    top: -6px;
+    right: -6px;
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    gap: 2px;
+  }
+
+  .debug-overlay-launcher-count {
+    min-width: 16px;
+    padding: 0 4px;
+    border-radius: 8px;
+    background: ${theme.textMuted};
+    color: #ffffff;
+    font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+    font-size: 9px;
+    line-height: 16px;
+    text-align: center;
+  }
+
+  .debug-overlay-launcher-count.error {
+    background: ${theme.error};
+  }
+
+  .debug-overlay-launcher-count.warn {
+    background: ${theme.warning};
+  }
+
+  .debug-overlay-launcher-count.info {
+    background: ${theme.info};
+  }
+
+  .debug-overlay-launcher-count.debug {
+    background: ${theme.debug};
+  }
 `;
 
 /**
@@ -458,27 +1363,41 @@ const ANIMATION_STYLES = `
 `;
 
 /**
- * 테마별 완전한 CSS 스타일 생성
+ * 완전한 CSS 스타일 생성
+ * 테마는 사용자 정의 속성의 기본값으로만 들어가며, 나머지 규칙은 테마와 관계없이 같습니다.
+ *
+ * @param theme 사용자 정의 속성의 기본값으로 사용할 테마
+ * @param scope 전역 <style>로 주입하면 'global', shadow root에 적용하면 'shadow'
  */
-export function generateStyles(theme: 'light' | 'dark' = 'dark'): string {
-  const colors = theme === 'dark' ? DARK_THEME : LIGHT_THEME;
-  
+export function generateStyles(theme: OverlayTheme = 'dark', scope: StyleScope = 'global'): string {
+  const colors = THEME_VARIABLES;
+
   return [
+    createThemeStyles(theme, scope),
     BASE_STYLES,
     CONTAINER_STYLES(colors),
     HEADER_STYLES(colors),
+    TAB_STYLES(colors),
     FILTER_STYLES(colors),
+    SEARCH_STYLES(colors),
     LOG_CONTAINER_STYLES(colors),
+    NETWORK_STYLES(colors),
+    REPL_STYLES(colors),
     JSON_VIEWER_STYLES(colors),
+    TABLE_STYLES(colors),
     RESIZE_HANDLE_STYLES(colors),
+    LAUNCHER_STYLES(colors),
     ANIMATION_STYLES,
   ].join('\n');
 }
 
 /**
  * 스타일 시트를 DOM에 주입하는 함수
+ *
+ * @param theme 사용자 정의 속성의 기본값으로 사용할 테마
+ * @param nonce style-src CSP의 nonce (지정하면 <style> 요소에 설정)
  */
-export function injectStyles(theme: 'light' | 'dark' = 'dark'): HTMLStyleElement {
+export function injectStyles(theme: OverlayTheme = 'dark', nonce?: string): HTMLStyleElement {
   const existingStyle = document.getElementById('debug-overlay-styles') as HTMLStyleElement;
   
   if (existingStyle) {
@@ -488,6 +1407,9 @@ export function injectStyles(theme: 'light' | 'dark' = 'dark'): HTMLStyleElement
 
   const styleElement = document.createElement('style');
   styleElement.id = 'debug-overlay-styles';
+  if (nonce) {
+    styleElement.nonce = nonce;
+  }
   styleElement.textContent = generateStyles(theme);
   
   document.head.appendChild(styleElement);
@@ -495,6 +1417,38 @@ export function injectStyles(theme: 'light' | 'dark' = 'dark'): HTMLStyleElement
   return styleElement;
 }
 
+/**
+ * Shadow DOM 안에 스타일 시트를 적용하는 함수
+ * adoptedStyleSheets를 지원하면 생성한 CSSStyleSheet를 사용하고(CSP의 style-src 제한을 받지 않음),
+ * 아니면 shadow root 안에 <style>을 추가합니다.
+ * 이미 적용된 스타일이 있으면 새 테마로 교체합니다.
+ *
+ * @param root 스타일을 적용할 shadow root
+ * @param theme 사용자 정의 속성의 기본값으로 사용할 테마
+ * @param nonce style-src CSP의 nonce (<style> 요소를 사용하는 경우에 설정)
+ */
+export function applyShadowStyles(root: ShadowRoot, theme: OverlayTheme = 'dark', nonce?: string): void {
+  const css = generateStyles(theme, 'shadow');
+
+  if ('adoptedStyleSheets' in root && 'replaceSync' in CSSStyleSheet.prototype) {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(css);
+    root.adoptedStyleSheets = [sheet];
+    return;
+  }
+
+  let styleElement = root.querySelector<HTMLStyleElement>('style.debug-overlay-styles');
+  if (!styleElement) {
+    styleElement = document.createElement('style');
+    styleElement.className = 'debug-overlay-styles';
+    if (nonce) {
+      styleElement.nonce = nonce;
+    }
+    root.insertBefore(styleElement, root.firstChild);
+  }
+  styleElement.textContent = css;
+}
+
 /**
  * 스타일 시트를 DOM에서 제거하는 함수
  */
@@ -0,0 +1,455 @@
+import type { LogEntry } from '../types/types.js'
+
+/**
+ * 가상 로그 목록 옵션
+ */
+export interface VirtualLogListOptions {
+  /** 로그 항목의 DOM 행을 생성하는 함수 */
+  createRow: (entry: LogEntry, index: number) => HTMLElement
+  /**
+   * 그려질 때마다 바로 앞 항목을 기준으로 행을 꾸미는 함수 (세션 구분선 등)
+   * 필터에 따라 앞 항목이 달라질 수 있으므로 캐시된 행에도 매번 호출됩니다.
+   */
+  decorateRow?: (
+    row: HTMLElement,
+    entry: LogEntry,
+    previous: LogEntry | undefined
+  ) => void
+  /** 아직 측정되지 않은 행의 예상 높이 (기본값: 44) */
+  estimatedRowHeight?: number
+  /** 화면 밖에 미리 그려둘 영역의 높이 (기본값: 300) */
+  overscan?: number
+  /** 사용자가 상호작용하지 않은 행을 캐시에 보관할 최대 수 (기본값: 300) */
+  maxCachedRows?: number
+  /** 맨 아래를 보고 있을 때 새 항목을 따라 스크롤할지 여부 (기본값: true) */
+  autoScroll?: boolean
+}
+
+/**
+ * 맨 아래에 붙어 있다고 판단하는 스크롤 여유값 (픽셀)
+ */
+const STICK_TO_BOTTOM_THRESHOLD = 4
+
+/**
+ * 가상화된 로그 목록 클래스
+ *
+ * 단일 책임: 스크롤 컨테이너 안에서 보이는 영역의 로그 행만 DOM으로 유지하는 책임만 가집니다.
+ * - 항목 추가는 전체 재렌더링 없이 증분으로 처리
+ * - 측정한 행 높이를 기억하고, 보이지 않는 영역은 위/아래 여백으로 대체
+ * - 한 프레임에 한 번만 렌더링하도록 requestAnimationFrame으로 묶음
+ * - 사용자가 상호작용한 행(펼친 JSON 트리 등)은 캐시에 고정하여 스크롤 후에도 상태를 유지
+ */
+export class VirtualLogList {
+  private _container: HTMLElement
+  private _topSpacer: HTMLDivElement
+  private _rowsHost: HTMLDivElement
+  private _bottomSpacer: HTMLDivElement
+  private _createRow: (entry: LogEntry, index: number) => HTMLElement
+  private _decorateRow: VirtualLogListOptions['decorateRow'] | null
+  private _estimatedRowHeight: number
+  private _overscan: number
+  private _maxCachedRows: number
+  private _autoScroll: boolean
+  private _entries: LogEntry[]
+  private _heights: Map<string, number>
+  private _rowCache: Map<string, HTMLElement>
+  private _pinnedIds: Set<string>
+  private _frameId: number | null
+  private _stickToBottom: boolean
+  private _resizeObserver: ResizeObserver | null
+  private _handleScroll: () => void
+  private _handleClick: (event: Event) => void
+
+  /**
+   * VirtualLogList 인스턴스를 생성합니다.
+   *
+   * @param container 스크롤이 발생하는 컨테이너 요소
+   * @param options 가상 목록 옵션
+   */
+  constructor(container: HTMLElement, options: VirtualLogListOptions) {
+    this._container = container
+    this._createRow = options.createRow
+    this._decorateRow = options.decorateRow ?? null
+    this._estimatedRowHeight = options.estimatedRowHeight ?? 44
+    this._overscan = options.overscan ?? 300
+    this._maxCachedRows = options.maxCachedRows ?? 300
+    this._autoScroll = options.autoScroll ?? true
+    this._entries = []
+    this._heights = new Map()
+    this._rowCache = new Map()
+    this._pinnedIds = new Set()
+    this._frameId = null
+    this._stickToBottom = this._autoScroll
+    this._resizeObserver = null
+
+    this._topSpacer = document.createElement('div')
+    this._topSpacer.className = 'debug-overlay-logs-spacer'
+    this._rowsHost = document.createElement('div')
+    this._rowsHost.className = 'debug-overlay-logs-rows'
+    this._bottomSpacer = document.createElement('div')
+    this._bottomSpacer.className = 'debug-overlay-logs-spacer'
+
+    this._container.appendChild(this._topSpacer)
+    this._container.appendChild(this._rowsHost)
+    this._container.appendChild(this._bottomSpacer)
+
+    this._handleScroll = () => {
+      this._stickToBottom = this._autoScroll && this._isAtBottom()
+      this._scheduleRender()
+    }
+
+    this._handleClick = (event: Event) => {
+      const row = (event.target as HTMLElement).closest<HTMLElement>(
+        '[data-log-id]'
+      )
+      if (row?.dataset.logId) {
+        this._pinnedIds.add(row.dataset.logId)
+      }
+      // 펼치기/접기로 행 높이가 바뀌었을 수 있으므로 다시 측정합니다.
+      this._scheduleRender()
+    }
+
+    this._container.addEventListener('scroll', this._handleScroll, {
+      passive: true,
+    })
+    this._container.addEventListener('click', this._handleClick)
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(() => this._scheduleRender())
+      this._resizeObserver.observe(this._container)
+    }
+  }
+
+  /**
+   * 목록 전체를 교체합니다.
+   * 기존 항목 중 새 목록에도 있는 항목의 행과 높이 정보는 유지됩니다.
+   *
+   * @param entries 표시할 로그 항목들
+   * @param stickToBottom 교체 후 맨 아래로 스크롤할지 여부
+   */
+  public setEntries(entries: LogEntry[], stickToBottom: boolean): void {
+    const nextIds = new Set(entries.map((entry) => entry.id))
+    this._entries.forEach((entry) => {
+      if (!nextIds.has(entry.id)) {
+        this._forget(entry.id)
+      }
+    })
+
+    this._entries = [...entries]
+    this._stickToBottom = stickToBottom
+    this._scheduleRender()
+  }
+
+  /**
+   * 항목을 목록 끝에 추가합니다.
+   * 사용자가 맨 아래를 보고 있었다면 추가 후에도 맨 아래를 유지합니다.
+   *
+   * @param entry 추가할 로그 항목
+   */
+  public append(entry: LogEntry): void {
+    this._entries.push(entry)
+    this._scheduleRender()
+  }
+
+  /**
+   * 지정한 항목들을 목록에서 제거합니다.
+   *
+   * @param ids 제거할 로그 항목 ID들
+   */
+  public remove(ids: Set<string>): void {
+    if (ids.size === 0) return
+
+    this._entries = this._entries.filter((entry) => !ids.has(entry.id))
+    ids.forEach((id) => this._forget(id))
+    this._scheduleRender()
+  }
+
+  /**
+   * 같은 ID의 항목을 새 항목으로 교체하고 행을 다시 그립니다.
+   * updateRow가 캐시된 행을 제자리에서 갱신하면 행을 다시 만들지 않으므로 펼친 JSON 트리 등의 상태가 유지됩니다.
+   * 목록에 없는 항목이면 아무것도 하지 않습니다.
+   *
+   * @param entry 교체할 로그 항목
+   * @param updateRow 캐시된 행을 제자리에서 갱신하는 함수 (갱신할 수 없으면 false 반환)
+   */
+  public replace(
+    entry: LogEntry,
+    updateRow?: (row: HTMLElement, previous: LogEntry) => boolean
+  ): void {
+    const index = this._entries.findIndex(({ id }) => id === entry.id)
+    const previous = this._entries[index]
+    if (!previous) return
+
+    this._entries[index] = entry
+
+    const row = this._rowCache.get(entry.id)
+    if (row && updateRow?.(row, previous)) {
+      // 행 높이가 바뀌었을 수 있으므로 다시 측정합니다.
+      this._scheduleRender()
+      return
+    }
+    this.invalidate(entry.id)
+  }
+
+  /**
+   * 지정한 항목의 행을 다시 생성하도록 캐시를 무효화합니다.
+   *
+   * @param id 다시 그릴 로그 항목 ID
+   */
+  public invalidate(id: string): void {
+    const row = this._rowCache.get(id)
+    if (row) {
+      row.remove()
+      this._rowCache.delete(id)
+    }
+    this._scheduleRender()
+  }
+
+  /**
+   * 현재 표시 중인 항목 목록을 반환합니다.
+   */
+  public getEntries(): LogEntry[] {
+    return [...this._entries]
+  }
+
+  /**
+   * 목록의 맨 아래로 스크롤하고 새 항목이 추가될 때 따라가도록 설정합니다.
+   */
+  public scrollToBottom(): void {
+    this._stickToBottom = true
+    this._scheduleRender()
+  }
+
+  /**
+   * 지정한 항목이 보이도록 스크롤합니다.
+   *
+   * @param id 스크롤할 로그 항목 ID
+   */
+  public scrollToEntry(id: string): void {
+    const index = this._entries.findIndex((entry) => entry.id === id)
+    if (index < 0) return
+
+    const offset = this._sumHeights(0, index)
+
+    this._stickToBottom = false
+    this._container.scrollTop = Math.max(
+      0,
+      offset - this._container.clientHeight / 3
+    )
+    this._render()
+  }
+
+  /**
+   * 현재 DOM에 그려진 행 요소들을 반환합니다.
+   */
+  public getRenderedRows(): HTMLElement[] {
+    return Array.from(this._rowsHost.children) as HTMLElement[]
+  }
+
+  /**
+   * 캐시된 모든 행 요소에 대해 콜백을 실행합니다.
+   * 화면 밖에 있어 DOM에서 분리된 행도 포함됩니다.
+   */
+  public forEachCachedRow(
+    callback: (row: HTMLElement, id: string) => void
+  ): void {
+    this._rowCache.forEach((row, id) => callback(row, id))
+  }
+
+  /**
+   * 가상 목록을 정리하고 DOM 요소를 제거합니다.
+   */
+  public destroy(): void {
+    if (this._frameId !== null) {
+      cancelAnimationFrame(this._frameId)
+      this._frameId = null
+    }
+
+    this._container.removeEventListener('scroll', this._handleScroll)
+    this._container.removeEventListener('click', this._handleClick)
+    this._resizeObserver?.disconnect()
+    this._resizeObserver = null
+
+    this._topSpacer.remove()
+    this._rowsHost.remove()
+    this._bottomSpacer.remove()
+
+    this._entries = []
+    this._heights.clear()
+    this._rowCache.clear()
+    this._pinnedIds.clear()
+  }
+
+  /**
+   * 다음 애니메이션 프레임에 렌더링을 예약합니다.
+   */
+  private _scheduleRender(): void {
+    if (this._frameId !== null) return
+
+    this._frameId = requestAnimationFrame(() => {
+      this._frameId = null
+      this._render()
+    })
+  }
+
+  /**
+   * 보이는 영역의 행만 DOM에 유지하고 나머지는 여백으로 대체합니다.
+   */
+  private _render(): void {
+    this._layout()
+
+    if (this._stickToBottom) {
+      // 새 항목이 한꺼번에 많이 추가되면 이전 위치 기준의 범위에 맨 아래가 포함되지 않으므로
+      // 맨 아래로 이동한 뒤 그 위치를 기준으로 한 번 더 배치합니다.
+      this._container.scrollTop = this._container.scrollHeight
+      this._layout()
+      this._container.scrollTop = this._container.scrollHeight
+    }
+
+    this._evictCachedRows()
+  }
+
+  /**
+   * 현재 스크롤 위치에 맞게 행을 배치하고, 행 높이를 측정한 뒤 여백을 갱신합니다.
+   */
+  private _layout(): void {
+    const { start, end } = this._computeRange()
+
+    const desiredRows: HTMLElement[] = []
+    for (let i = start; i < end; i++) {
+      const row = this._getRow(this._entries[i]!, i)
+      if (this._decorateRow) {
+        this._decorateRow(row, this._entries[i]!, this._entries[i - 1])
+      }
+      desiredRows.push(row)
+    }
+
+    desiredRows.forEach((row, index) => {
+      const current = this._rowsHost.children[index] ?? null
+      if (current !== row) {
+        this._rowsHost.insertBefore(row, current)
+      }
+    })
+    while (this._rowsHost.children.length > desiredRows.length) {
+      this._rowsHost.lastElementChild!.remove()
+    }
+
+    desiredRows.forEach((row) => {
+      const id = row.dataset.logId
+      const height = row.offsetHeight
+      if (id && height > 0) {
+        this._heights.set(id, height)
+      }
+    })
+
+    this._topSpacer.style.height = `${this._sumHeights(0, start)}px`
+    this._bottomSpacer.style.height = `${this._sumHeights(end, this._entries.length)}px`
+  }
+
+  /**
+   * 현재 스크롤 위치에서 그려야 할 항목 범위를 계산합니다.
+   */
+  private _computeRange(): { start: number; end: number } {
+    const viewTop = Math.max(0, this._container.scrollTop - this._overscan)
+    const viewBottom =
+      this._container.scrollTop + this._container.clientHeight + this._overscan
+
+    let offset = 0
+    let start = this._entries.length
+    let end = this._entries.length
+
+    for (let i = 0; i < this._entries.length; i++) {
+      const height = this._getHeight(this._entries[i]!)
+
+      if (start === this._entries.length && offset + height > viewTop) {
+        start = i
+      }
+      if (offset >= viewBottom) {
+        end = i
+        break
+      }
+
+      offset += height
+    }
+
+    return { start, end: Math.max(start, end) }
+  }
+
+  /**
+   * 지정한 범위 항목들의 높이 합을 계산합니다.
+   */
+  private _sumHeights(from: number, to: number): number {
+    let total = 0
+    for (let i = from; i < to; i++) {
+      total += this._getHeight(this._entries[i]!)
+    }
+    return total
+  }
+
+  /**
+   * 항목의 측정된 높이 또는 예상 높이를 반환합니다.
+   */
+  private _getHeight(entry: LogEntry): number {
+    return this._heights.get(entry.id) ?? this._estimatedRowHeight
+  }
+
+  /**
+   * 캐시된 행을 반환하거나 새로 생성합니다.
+   */
+  private _getRow(entry: LogEntry, index: number): HTMLElement {
+    let row = this._rowCache.get(entry.id)
+
+    if (!row) {
+      row = this._createRow(entry, index)
+      row.dataset.logId = entry.id
+    } else {
+      // 최근에 사용한 행이 캐시 끝에 오도록 다시 삽입합니다.
+      this._rowCache.delete(entry.id)
+    }
+
+    this._rowCache.set(entry.id, row)
+    return row
+  }
+
+  /**
+   * 화면 밖에 있고 사용자가 상호작용하지 않은 행을 오래된 순으로 캐시에서 제거합니다.
+   */
+  private _evictCachedRows(): void {
+    let excess =
+      this._rowCache.size - this._pinnedIds.size - this._maxCachedRows
+    if (excess <= 0) return
+
+    for (const [id, row] of this._rowCache) {
+      if (excess <= 0) break
+      if (row.isConnected || this._pinnedIds.has(id)) continue
+
+      this._rowCache.delete(id)
+      excess--
+    }
+  }
+
+  /**
+   * 항목과 관련된 캐시, 높이, 고정 정보를 제거합니다.
+   */
+  private _forget(id: string): void {
+    const row = this._rowCache.get(id)
+    if (row) {
+      row.remove()
+      this._rowCache.delete(id)
+    }
+    this._heights.delete(id)
+    this._pinnedIds.delete(id)
+  }
+
+  /**
+   * 스크롤이 맨 아래에 있는지 확인합니다.
+   */
+  private _isAtBottom(): boolean {
+    return (
+      this._container.scrollHeight -
+        this._container.scrollTop -
+        this._container.clientHeight <=
+      STICK_TO_BOTTOM_THRESHOLD
+    )
+  }
+}
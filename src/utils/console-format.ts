@@ -0,0 +1,282 @@
+import { isSnapshotNode, reviveSnapshot } from './serializer.js'
+
+/**
+ * console 포맷 문자열(printf 스타일) 처리 유틸리티
+ *
+ * 브라우저 콘솔과 같은 규칙으로 첫 번째 문자열 인자의 %s %d %i %f %o %O %c 를 치환합니다.
+ * 인자가 스냅샷이어도 원시값 스냅샷은 원래 값으로 되돌려 치환하고, 객체 스냅샷은 값 구간으로 삽입합니다.
+ */
+
+/**
+ * 포맷 처리 결과의 구간
+ * - 'text': 치환이 끝난 텍스트 (%c로 지정된 스타일 포함)
+ * - 'value': %o / %O 또는 객체에 대한 %s로 삽입된 값 (JsonViewer로 표시)
+ */
+export type FormattedSegment =
+  | { kind: 'text'; text: string; styles: [string, string][] }
+  | { kind: 'value'; value: unknown }
+
+/**
+ * 포맷 처리 결과
+ */
+export interface FormattedConsoleArgs {
+  /** 포맷 문자열을 치환한 구간들 */
+  segments: FormattedSegment[]
+  /** 포맷 문자열에서 사용되지 않고 남은 인자들 */
+  rest: unknown[]
+}
+
+/**
+ * %c 스타일에서 허용하는 CSS 속성
+ * 레이아웃을 깨거나 외부 리소스를 불러올 수 있는 속성은 제외합니다.
+ */
+const ALLOWED_STYLE_PROPERTIES = new Set([
+  'color',
+  'background',
+  'background-color',
+  'font-weight',
+  'font-style',
+  'font-size',
+  'font-family',
+  'text-decoration',
+  'text-transform',
+  'text-shadow',
+  'letter-spacing',
+  'line-height',
+  'padding',
+  'padding-left',
+  'padding-right',
+  'padding-top',
+  'padding-bottom',
+  'margin',
+  'margin-left',
+  'margin-right',
+  'border',
+  'border-color',
+  'border-style',
+  'border-width',
+  'border-radius',
+])
+
+/**
+ * %c 스타일 값에서 허용하지 않는 패턴 (외부 리소스, 스크립트 표현식 등)
+ */
+const FORBIDDEN_STYLE_VALUE =
+  /url\s*\(|expression\s*\(|image-set\s*\(|@import|javascript:|[<>\\]/i
+
+/**
+ * 포맷 지정자 패턴
+ */
+const SPECIFIER_PATTERN = /%([sdifoOc%])/
+
+/**
+ * 텍스트로 치환할 수 있는 원시값 스냅샷 종류
+ */
+const PRIMITIVE_SNAPSHOT_TYPES = new Set([
+  'undefined',
+  'number',
+  'bigint',
+  'symbol',
+  'string',
+  'function',
+])
+
+/**
+ * 첫 번째 인자가 포맷 지정자를 포함한 문자열인지 확인합니다.
+ *
+ * @param args console 호출 인자들
+ * @returns 포맷 처리가 필요하면 true
+ */
+export function hasFormatSpecifiers(args: unknown[]): boolean {
+  const [first] = args
+  return typeof first === 'string' && SPECIFIER_PATTERN.test(first)
+}
+
+/**
+ * console 호출 인자들에 포맷 문자열 치환을 적용합니다.
+ * 첫 번째 인자가 문자열이 아니면 모든 인자가 rest로 반환됩니다.
+ *
+ * @param args console 호출 인자들
+ * @returns 치환된 구간들과 남은 인자들
+ */
+export function formatConsoleArgs(args: unknown[]): FormattedConsoleArgs {
+  const [format, ...values] = args
+
+  if (typeof format !== 'string') {
+    return { segments: [], rest: [...args] }
+  }
+
+  const segments: FormattedSegment[] = []
+  let styles: [string, string][] = []
+  let text = ''
+  let valueIndex = 0
+  let lastIndex = 0
+
+  const flushText = () => {
+    if (text) {
+      segments.push({ kind: 'text', text, styles })
+      text = ''
+    }
+  }
+
+  const pattern = new RegExp(SPECIFIER_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(format)) !== null) {
+    const specifier = match[1]
+    text += format.slice(lastIndex, match.index)
+    lastIndex = match.index + match[0].length
+
+    if (specifier === '%') {
+      text += '%'
+      continue
+    }
+
+    if (valueIndex >= values.length) {
+      // 대응하는 인자가 없으면 지정자를 그대로 둡니다.
+      text += match[0]
+      continue
+    }
+
+    const value = revivePrimitiveSnapshot(values[valueIndex++])
+
+    switch (specifier) {
+      case 's':
+        if (typeof value === 'object' && value !== null) {
+          flushText()
+          segments.push({ kind: 'value', value })
+        } else {
+          text += formatPrimitive(value)
+        }
+        break
+      case 'd':
+      case 'i':
+        text += formatInteger(value)
+        break
+      case 'f':
+        text += typeof value === 'symbol' ? 'NaN' : String(Number(value))
+        break
+      case 'o':
+      case 'O':
+        flushText()
+        segments.push({ kind: 'value', value })
+        break
+      case 'c':
+        flushText()
+        styles = sanitizeConsoleStyle(String(value))
+        break
+    }
+  }
+
+  text += format.slice(lastIndex)
+  flushText()
+
+  return { segments, rest: values.slice(valueIndex) }
+}
+
+/**
+ * console 호출 인자들을 포맷 치환을 적용한 한 줄의 텍스트로 변환합니다.
+ * 내보내기처럼 스타일 없이 텍스트만 필요한 경우에 사용합니다.
+ *
+ * @param args console 호출 인자들
+ * @param stringify 객체 값을 문자열로 변환하는 함수
+ * @returns 치환이 적용된 텍스트
+ */
+export function formatConsoleArgsToText(
+  args: unknown[],
+  stringify: (value: unknown) => string
+): string {
+  const { segments, rest } = hasFormatSpecifiers(args)
+    ? formatConsoleArgs(args)
+    : { segments: [], rest: args }
+
+  const parts = segments.map((segment) =>
+    segment.kind === 'text' ? segment.text : stringify(segment.value)
+  )
+  const formatted = parts.join('')
+
+  const restText = rest.map((value) =>
+    typeof value === 'string' ? value : stringify(value)
+  )
+
+  return [formatted, ...restText].filter((part) => part !== '').join(' ')
+}
+
+/**
+ * 로그 시간을 `시:분:초.밀리초` 형식으로 변환합니다.
+ *
+ * @param timestamp 로그 시간
+ * @returns `HH:MM:SS.mmm` 형식의 문자열
+ */
+export function formatLogTimestamp(timestamp: Date): string {
+  const hours = timestamp.getHours().toString().padStart(2, '0')
+  const minutes = timestamp.getMinutes().toString().padStart(2, '0')
+  const seconds = timestamp.getSeconds().toString().padStart(2, '0')
+  const milliseconds = timestamp.getMilliseconds().toString().padStart(3, '0')
+
+  return `${hours}:${minutes}:${seconds}.${milliseconds}`
+}
+
+/**
+ * %c 스타일 문자열을 허용된 CSS 선언 목록으로 정리합니다.
+ *
+ * @param css %c에 전달된 CSS 문자열
+ * @returns [속성, 값] 목록
+ */
+export function sanitizeConsoleStyle(css: string): [string, string][] {
+  const declarations: [string, string][] = []
+
+  css.split(';').forEach((declaration) => {
+    const index = declaration.indexOf(':')
+    if (index <= 0) return
+
+    const property = declaration.slice(0, index).trim().toLowerCase()
+    const value = declaration
+      .slice(index + 1)
+      .replace(/!important/gi, '')
+      .trim()
+
+    if (
+      value &&
+      ALLOWED_STYLE_PROPERTIES.has(property) &&
+      !FORBIDDEN_STYLE_VALUE.test(value)
+    ) {
+      declarations.push([property, value])
+    }
+  })
+
+  return declarations
+}
+
+/**
+ * 원시값 스냅샷을 원래 값으로 되돌립니다. 그 외의 값은 그대로 반환합니다.
+ */
+function revivePrimitiveSnapshot(value: unknown): unknown {
+  return isSnapshotNode(value) &&
+    PRIMITIVE_SNAPSHOT_TYPES.has(value['@snapshot'])
+    ? reviveSnapshot(value)
+    : value
+}
+
+/**
+ * %s로 삽입되는 원시값을 문자열로 변환합니다.
+ */
+function formatPrimitive(value: unknown): string {
+  if (typeof value === 'symbol') return value.toString()
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value === 'function') {
+    return `[Function: ${value.name || 'anonymous'}]`
+  }
+  return String(value)
+}
+
+/**
+ * %d / %i로 삽입되는 값을 정수 문자열로 변환합니다.
+ */
+function formatInteger(value: unknown): string {
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value === 'symbol') return 'NaN'
+
+  const number = Number(value)
+  return Number.isNaN(number) ? 'NaN' : String(Math.trunc(number))
+}
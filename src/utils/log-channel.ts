@@ -0,0 +1,124 @@
+import type { ChannelRule } from '../types/types.js'
+
+/**
+ * 로그 채널 유틸리티
+ *
+ * debug 패키지의 DEBUG 값과 같은 형식의 채널 패턴을 해석하고, 채널의 표시 여부와 색상을 계산합니다.
+ * 패턴은 쉼표나 공백으로 구분하며, `*`는 와일드카드, `-`로 시작하는 패턴은 숨김 규칙입니다.
+ */
+
+/**
+ * 컴파일한 채널 패턴 정규식 캐시
+ */
+const patternCache = new Map<string, RegExp>()
+
+/**
+ * 채널 패턴 문자열을 규칙 목록으로 변환합니다.
+ *
+ * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (예: 'payments:*,-payments:verbose')
+ * @param enabled `-`가 붙지 않은 패턴의 표시 여부 (`-`가 붙은 패턴은 반대)
+ * @returns 입력 순서대로의 채널 규칙
+ */
+export function parseChannelPatterns(
+  patterns: string,
+  enabled: boolean = true
+): ChannelRule[] {
+  return patterns
+    .split(/[\s,]+/)
+    .filter((pattern) => pattern !== '' && pattern !== '-')
+    .map((pattern) =>
+      pattern.startsWith('-')
+        ? { pattern: pattern.slice(1), enabled: !enabled }
+        : { pattern, enabled }
+    )
+}
+
+/**
+ * channels 옵션 값으로 처음 채널 규칙을 만듭니다.
+ * DEBUG 값처럼 표시 패턴이 하나라도 있으면 그 패턴과 일치하지 않는 채널은 숨깁니다.
+ *
+ * @param patterns 쉼표나 공백으로 구분한 채널 패턴 (빈 문자열이면 모든 채널 표시)
+ * @returns 채널 규칙
+ */
+export function createChannelRules(patterns: string): ChannelRule[] {
+  const rules = parseChannelPatterns(patterns)
+  return rules.some((rule) => rule.enabled)
+    ? mergeChannelRules([{ pattern: '*', enabled: false }], rules)
+    : rules
+}
+
+/**
+ * 기존 규칙 뒤에 새 규칙을 추가합니다.
+ * 같은 패턴의 기존 규칙은 제거하고, `*`로 모든 채널을 바꾸는 규칙이면 그 앞의 규칙을 모두 버립니다.
+ *
+ * @param rules 기존 규칙
+ * @param additions 추가할 규칙
+ * @returns 새 규칙 목록
+ */
+export function mergeChannelRules(
+  rules: ChannelRule[],
+  additions: ChannelRule[]
+): ChannelRule[] {
+  return additions.reduce<ChannelRule[]>(
+    (merged, rule) =>
+      rule.pattern === '*'
+        ? [rule]
+        : [...merged.filter(({ pattern }) => pattern !== rule.pattern), rule],
+    rules
+  )
+}
+
+/**
+ * 채널의 로그를 표시할지 확인합니다.
+ * 일치하는 규칙이 없으면 표시하고, 여러 규칙이 일치하면 마지막 규칙을 따릅니다.
+ *
+ * @param channel 채널 이름 (채널이 없는 로그면 undefined)
+ * @param rules 채널 규칙
+ * @returns 표시하면 true
+ */
+export function isChannelEnabled(
+  channel: string | undefined,
+  rules: ChannelRule[]
+): boolean {
+  if (channel === undefined) {
+    return true
+  }
+
+  let enabled = true
+  rules.forEach((rule) => {
+    if (compileChannelPattern(rule.pattern).test(channel)) {
+      enabled = rule.enabled
+    }
+  })
+  return enabled
+}
+
+/**
+ * 채널 이름에서 항상 같은 색상을 만듭니다.
+ *
+ * @param channel 채널 이름
+ * @returns CSS 색상 값
+ */
+export function getChannelColor(channel: string): string {
+  let hash = 0
+  for (let i = 0; i < channel.length; i++) {
+    hash = (hash * 31 + channel.charCodeAt(i)) | 0
+  }
+  return `hsl(${Math.abs(hash) % 360}, 65%, 55%)`
+}
+
+/**
+ * 채널 패턴을 정규식으로 변환합니다. (`*` 외의 문자는 그대로 비교)
+ */
+function compileChannelPattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern)
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    regex = new RegExp(`^${source}$`)
+    patternCache.set(pattern, regex)
+  }
+  return regex
+}
@@ -0,0 +1,106 @@
+import type { LogEntry } from '../types/types.js'
+import { formatConsoleArgsToText } from './console-format.js'
+import { safeStringify } from './safe-stringify.js'
+import { reviveSnapshot } from './serializer.js'
+
+/**
+ * 로그 검색 유틸리티
+ *
+ * 검색어를 정규식으로 변환하고, 로그 항목을 화면에 보이는 것과 같은 텍스트로 만들어 비교합니다.
+ * `/pattern/flags` 형태의 검색어는 정규식으로, 그 외에는 일반 텍스트로 처리합니다.
+ */
+
+/**
+ * 검색어 해석 결과
+ * - pattern: 검색에 사용할 정규식 (검색어가 비어 있거나 잘못되었으면 null)
+ * - error: 정규식 문법 오류 메시지
+ */
+export interface LogSearchPattern {
+  pattern: RegExp | null
+  error?: string
+}
+
+/**
+ * `/pattern/flags` 형태의 검색어 패턴
+ */
+const REGEX_QUERY_PATTERN = /^\/(.+)\/([a-z]*)$/
+
+/**
+ * 검색 결과에 영향을 주지 않아 제외하는 정규식 플래그
+ * (g, y는 lastIndex에 따라 결과가 달라지므로 사용하지 않습니다)
+ */
+const IGNORED_FLAGS = /[gy]/g
+
+/**
+ * 로그 항목별 검색 텍스트 캐시
+ */
+const searchTextCache = new WeakMap<LogEntry, string>()
+
+/**
+ * 검색어를 정규식으로 변환합니다.
+ *
+ * @param query 검색어 (일반 텍스트 또는 /regex/flags)
+ * @param caseSensitive 대소문자 구분 여부
+ * @returns 검색 정규식과 오류 정보
+ */
+export function createSearchPattern(
+  query: string,
+  caseSensitive: boolean = false
+): LogSearchPattern {
+  if (!query.trim()) {
+    return { pattern: null }
+  }
+
+  const regexMatch = REGEX_QUERY_PATTERN.exec(query)
+  if (regexMatch) {
+    const [, source = '', rawFlags = ''] = regexMatch
+    let flags = rawFlags.replace(IGNORED_FLAGS, '')
+    if (!caseSensitive && !flags.includes('i')) {
+      flags += 'i'
+    }
+
+    try {
+      return { pattern: new RegExp(source, flags) }
+    } catch (error) {
+      return {
+        pattern: null,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return { pattern: new RegExp(escaped, caseSensitive ? '' : 'i') }
+}
+
+/**
+ * 로그 항목을 검색 대상 텍스트로 변환합니다.
+ * 포맷 문자열 치환을 적용하고 객체는 순환 참조에 안전하게 문자열화합니다.
+ * 스냅샷은 원래 값 형태로 되돌린 뒤 문자열화합니다.
+ *
+ * @param log 로그 항목
+ * @returns 검색 대상 텍스트
+ */
+export function getLogSearchText(log: LogEntry): string {
+  let text = searchTextCache.get(log)
+
+  if (text === undefined) {
+    text = formatConsoleArgsToText(log.args, (value) =>
+      safeStringify(reviveSnapshot(value))
+    )
+    searchTextCache.set(log, text)
+  }
+
+  return text
+}
+
+/**
+ * 로그 항목이 검색 정규식과 일치하는지 확인합니다.
+ *
+ * @param log 로그 항목
+ * @param pattern createSearchPattern으로 만든 정규식
+ * @returns 일치하면 true
+ */
+export function matchesSearch(log: LogEntry, pattern: RegExp): boolean {
+  return pattern.test(getLogSearchText(log))
+}
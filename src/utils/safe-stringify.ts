@@ -0,0 +1,274 @@
+/**
+ * 순환 참조와 JSON으로 표현할 수 없는 값을 안전하게 문자열화하는 유틸리티
+ *
+ * JSON.stringify는 순환 구조(Redux 스토어 등)에서 예외를 던지고 Map, Set, Error 같은
+ * 값을 빈 객체로 만들어 버리므로, 값을 먼저 JSON으로 표현 가능한 구조로 변환합니다.
+ */
+
+/**
+ * 변환할 최대 깊이
+ * window처럼 거대한 객체를 따라가며 멈추지 않도록 이 깊이를 넘으면 요약 문자열로 대체합니다.
+ */
+const MAX_DEPTH = 50
+
+/**
+ * 최상위 값의 경로 이름
+ */
+export const ROOT_PATH = 'root'
+
+/**
+ * 경로에 식별자 형태로 붙일 수 있는 키 패턴
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * 값을 JSON.stringify로 안전하게 변환할 수 있는 구조로 바꿉니다.
+ *
+ * - 순환 참조: `[Circular → path]`
+ * - Map / Set: `{ "[[Map]]": [[key, value], ...] }` / `{ "[[Set]]": [...] }`
+ * - Error: name, message, stack, cause 체인
+ * - Date / RegExp / 함수 / Symbol / BigInt / DOM 노드: 설명 문자열
+ *
+ * @param value 변환할 값
+ * @returns JSON으로 표현 가능한 값
+ */
+export function toJsonValue(value: unknown): unknown {
+  return convert(value, ROOT_PATH, new Map(), 0)
+}
+
+/**
+ * 값을 순환 참조에 안전한 JSON 문자열로 변환합니다.
+ *
+ * @param value 변환할 값
+ * @param space 들여쓰기 (JSON.stringify의 space 인자)
+ * @returns JSON 문자열 (undefined는 'undefined')
+ */
+export function safeStringify(value: unknown, space?: number): string {
+  try {
+    const json = JSON.stringify(toJsonValue(value), null, space)
+    return json === undefined ? 'undefined' : json
+  } catch (error) {
+    return `[Unserializable: ${typeof value}]`
+  }
+}
+
+/**
+ * DOM 노드를 짧은 설명 문자열로 변환합니다.
+ *
+ * @param node 설명할 노드
+ * @returns `<div id="app" class="main">`, `#text "..."` 같은 문자열
+ */
+export function describeNode(node: Node): string {
+  if (typeof Element !== 'undefined' && node instanceof Element) {
+    const tagName = node.tagName.toLowerCase()
+    const id = node.id ? ` id="${node.id}"` : ''
+    const className =
+      typeof node.className === 'string' && node.className
+        ? ` class="${node.className}"`
+        : ''
+    return `<${tagName}${id}${className}>`
+  }
+
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent ?? ''
+    return `#text "${text.length > 50 ? `${text.slice(0, 50)}…` : text}"`
+  }
+
+  return node.nodeName.toLowerCase()
+}
+
+/**
+ * 경로에 속성 키를 덧붙입니다.
+ *
+ * @param path 부모 경로
+ * @param key 속성 키 (숫자면 배열 인덱스)
+ * @returns `root.user`, `root.items[0]`, `root["a-b"]` 형태의 경로
+ */
+export function appendPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`
+  }
+  return IDENTIFIER_PATTERN.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`
+}
+
+/**
+ * 객체의 생성자 이름을 반환합니다.
+ * 일반 객체와 배열이면 빈 문자열, 프로토타입이 없는 객체면 'null prototype'을 반환합니다.
+ *
+ * @param value 확인할 객체
+ * @returns 클래스 인스턴스의 생성자 이름
+ */
+export function getConstructorName(value: object): string {
+  const prototype: unknown = Object.getPrototypeOf(value)
+  if (prototype === null) {
+    return 'null prototype'
+  }
+  if (prototype === Object.prototype || prototype === Array.prototype) {
+    return ''
+  }
+
+  const constructor = (value as { constructor?: unknown }).constructor
+  return typeof constructor === 'function' ? constructor.name : ''
+}
+
+/**
+ * 값을 재귀적으로 변환합니다.
+ *
+ * @param ancestors 현재 경로에 있는 조상 객체와 그 경로 (순환 참조 감지용)
+ */
+function convert(
+  value: unknown,
+  path: string,
+  ancestors: Map<object, string>,
+  depth: number
+): unknown {
+  switch (typeof value) {
+    case 'undefined':
+      return undefined
+    case 'function':
+      return `[Function: ${value.name || 'anonymous'}]`
+    case 'bigint':
+      return `${value}n`
+    case 'symbol':
+      return value.toString()
+    case 'number':
+      return Number.isFinite(value) ? value : String(value)
+    case 'object':
+      break
+    default:
+      return value
+  }
+
+  if (value === null) {
+    return null
+  }
+
+  const circularPath = ancestors.get(value)
+  if (circularPath !== undefined) {
+    return `[Circular → ${circularPath}]`
+  }
+
+  const leaf = convertLeaf(value)
+  if (leaf !== undefined) {
+    return leaf
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]'
+  }
+
+  ancestors.set(value, path)
+  try {
+    return convertContainer(value, path, ancestors, depth)
+  } finally {
+    ancestors.delete(value)
+  }
+}
+
+/**
+ * 자식을 갖지 않는 객체를 설명 문자열로 변환합니다.
+ *
+ * @returns 자식을 따라가야 하는 객체면 undefined
+ */
+function convertLeaf(value: object): string | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  }
+  if (value instanceof RegExp) {
+    return value.toString()
+  }
+  if (value instanceof ArrayBuffer) {
+    return `[ArrayBuffer(${value.byteLength})]`
+  }
+  if (typeof Promise !== 'undefined' && value instanceof Promise) {
+    return '[Promise]'
+  }
+  if (value instanceof WeakMap || value instanceof WeakSet) {
+    return `[${value instanceof WeakMap ? 'WeakMap' : 'WeakSet'}]`
+  }
+  if (typeof Node !== 'undefined' && value instanceof Node) {
+    return describeNode(value)
+  }
+  return undefined
+}
+
+/**
+ * 자식을 가진 객체(배열, Map, Set, Error, 일반 객체)를 변환합니다.
+ */
+function convertContainer(
+  value: object,
+  path: string,
+  ancestors: Map<object, string>,
+  depth: number
+): unknown {
+  const child = (item: unknown, childPath: string) =>
+    convert(item, childPath, ancestors, depth + 1)
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => child(item, appendPath(path, index)))
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    return value instanceof DataView
+      ? `[DataView(${value.byteLength})]`
+      : Array.from(value as unknown as ArrayLike<number | bigint>, (item) =>
+          typeof item === 'bigint' ? `${item}n` : item
+        )
+  }
+
+  if (value instanceof Map) {
+    const entriesPath = `${path}[[Entries]]`
+    return {
+      '[[Map]]': Array.from(value.entries()).map(([key, item], index) => {
+        const entryPath = appendPath(entriesPath, index)
+        return [
+          child(key, appendPath(entryPath, 'key')),
+          child(item, appendPath(entryPath, 'value')),
+        ]
+      }),
+    }
+  }
+
+  if (value instanceof Set) {
+    const entriesPath = `${path}[[Entries]]`
+    return {
+      '[[Set]]': Array.from(value.values()).map((item, index) =>
+        child(item, appendPath(entriesPath, index))
+      ),
+    }
+  }
+
+  const result: Record<string, unknown> = {}
+
+  if (value instanceof Error) {
+    result.name = value.name
+    result.message = value.message
+    if (value.stack) {
+      result.stack = value.stack
+    }
+    if ('cause' in value && value.cause !== undefined) {
+      result.cause = child(value.cause, appendPath(path, 'cause'))
+    }
+  }
+
+  Object.keys(value).forEach((key) => {
+    result[key] = child(
+      (value as Record<string, unknown>)[key],
+      appendPath(path, key)
+    )
+  })
+
+  Object.getOwnPropertySymbols(value).forEach((symbol) => {
+    if (Object.prototype.propertyIsEnumerable.call(value, symbol)) {
+      const key = `[${symbol.toString()}]`
+      result[key] = child(
+        (value as Record<symbol, unknown>)[symbol],
+        `${path}${key}`
+      )
+    }
+  })
+
+  return result
+}
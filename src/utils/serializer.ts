@@ -0,0 +1,530 @@
+import type {
+  SnapshotEntry,
+  SnapshotNode,
+  SnapshotOptions,
+  SnapshotValue,
+} from '../types/types.js'
+import {
+  ROOT_PATH,
+  appendPath,
+  describeNode,
+  getConstructorName,
+} from './safe-stringify.js'
+
+/**
+ * 로그 인자 직렬화(스냅샷) 유틸리티
+ *
+ * 로그 시점의 값을 타입 태그가 붙은 JSON 호환 구조로 복사합니다.
+ * 원본 객체 참조를 보관하지 않으므로 이후 값이 바뀌어도 기록이 유지되고, 큰 객체 그래프가 메모리에 남지 않습니다.
+ * 깊이, 항목 수, 문자열 길이, 전체 노드 수 한도를 넘는 부분은 생략 표시로 대체됩니다.
+ */
+
+/**
+ * 스냅샷 노드를 구분하는 태그 키
+ */
+const SNAPSHOT_TAG = '@snapshot'
+
+/**
+ * createSnapshot()이 만든 스냅샷 노드
+ * 사용자 객체에 '@snapshot' 키가 있어도 이미 직렬화된 값으로 오인하지 않도록,
+ * 다시 직렬화할 때 그대로 통과시키는 노드는 여기에 등록된 것으로 한정합니다.
+ */
+const createdSnapshots = new WeakSet<object>()
+
+/**
+ * 기본 직렬화 한도
+ */
+const DEFAULT_SNAPSHOT_OPTIONS: Required<SnapshotOptions> = {
+  maxDepth: 8,
+  maxEntries: 100,
+  maxStringLength: 10000,
+  maxNodes: 5000,
+}
+
+/**
+ * 직렬화 진행 상태
+ */
+interface SnapshotContext {
+  options: Required<SnapshotOptions>
+  /** 현재 경로 위의 조상 객체와 그 경로 (순환 참조 감지용) */
+  ancestors: Map<object, string>
+  /** 남은 노드 수 */
+  remainingNodes: number
+}
+
+/**
+ * 값을 스냅샷으로 직렬화합니다.
+ * 이 모듈이 이미 만든 스냅샷 노드는 그대로 반환합니다.
+ *
+ * @param value 직렬화할 값
+ * @param options 직렬화 한도 옵션
+ * @returns JSON으로 표현 가능한 스냅샷 값
+ */
+export function createSnapshot(
+  value: unknown,
+  options: SnapshotOptions = {}
+): SnapshotValue {
+  const resolved: Required<SnapshotOptions> = {
+    maxDepth: options.maxDepth ?? DEFAULT_SNAPSHOT_OPTIONS.maxDepth,
+    maxEntries: options.maxEntries ?? DEFAULT_SNAPSHOT_OPTIONS.maxEntries,
+    maxStringLength:
+      options.maxStringLength ?? DEFAULT_SNAPSHOT_OPTIONS.maxStringLength,
+    maxNodes: options.maxNodes ?? DEFAULT_SNAPSHOT_OPTIONS.maxNodes,
+  }
+
+  return snapshotValue(value, ROOT_PATH, 0, {
+    options: resolved,
+    ancestors: new Map(),
+    remainingNodes: resolved.maxNodes,
+  })
+}
+
+/**
+ * 값이 스냅샷 노드인지 확인합니다.
+ * 가져온 파일이나 'live' 모드의 사용자 객체에도 '@snapshot' 키가 있을 수 있으므로,
+ * 태그뿐 아니라 태그별 필드의 형태까지 맞아야 스냅샷 노드로 봅니다.
+ *
+ * @param value 확인할 값
+ * @returns 스냅샷 노드이면 true
+ */
+export function isSnapshotNode(value: unknown): value is SnapshotNode {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+
+  const node = value as Record<string, unknown>
+  const isString = (key: string) => typeof node[key] === 'string'
+  const isNumber = (key: string) => typeof node[key] === 'number'
+
+  switch (node[SNAPSHOT_TAG]) {
+    case 'undefined':
+      return true
+    case 'number':
+    case 'bigint':
+    case 'date':
+    case 'regexp':
+      return isString('value')
+    case 'symbol':
+    case 'node':
+      return isString('description')
+    case 'string':
+      return isString('value') && isNumber('length')
+    case 'function':
+      return isString('name')
+    case 'opaque':
+      return isString('className') && isString('description')
+    case 'circular':
+      return isString('path')
+    case 'depth':
+      return isString('className') && isString('preview')
+    case 'object':
+      return (
+        isString('className') &&
+        isEntryList(node.entries) &&
+        isNumber('truncated')
+      )
+    case 'array':
+      return (
+        isString('className') &&
+        Array.isArray(node.items) &&
+        isNumber('length') &&
+        isNumber('truncated')
+      )
+    case 'set':
+      return (
+        isString('className') &&
+        Array.isArray(node.items) &&
+        isNumber('size') &&
+        isNumber('truncated')
+      )
+    case 'map':
+      return (
+        isString('className') &&
+        Array.isArray(node.entries) &&
+        node.entries.every(
+          (entry) => Array.isArray(entry) && entry.length === 2
+        ) &&
+        isNumber('size') &&
+        isNumber('truncated')
+      )
+    case 'error':
+      return (
+        isString('name') &&
+        isString('message') &&
+        (node.stack === undefined || isString('stack')) &&
+        isEntryList(node.entries)
+      )
+    default:
+      return false
+  }
+}
+
+/**
+ * 스냅샷을 일반 JavaScript 값으로 되돌립니다.
+ * 표나 텍스트처럼 스냅샷 구조를 직접 다루지 않는 곳에서 사용합니다.
+ * 복원할 수 없는 값(함수, DOM 노드, 순환 참조 등)은 설명 문자열이 됩니다.
+ *
+ * @param value 스냅샷 값 (스냅샷이 아니면 그대로 반환)
+ * @returns 복원된 값
+ */
+export function reviveSnapshot(value: unknown): unknown {
+  if (!isSnapshotNode(value)) {
+    return value
+  }
+
+  switch (value['@snapshot']) {
+    case 'undefined':
+      return undefined
+    case 'number':
+      return value.value === '-0' ? -0 : Number(value.value)
+    case 'bigint': {
+      const BigIntConstructor = (
+        globalThis as { BigInt?: (value: string) => unknown }
+      ).BigInt
+      return BigIntConstructor ? BigIntConstructor(value.value) : value.value
+    }
+    case 'symbol':
+      return value.description
+    case 'string':
+      return `${value.value}…`
+    case 'function':
+      return `[Function: ${value.name || 'anonymous'}]`
+    case 'date':
+      return new Date(value.value === 'Invalid Date' ? NaN : value.value)
+    case 'regexp':
+      return reviveRegExp(value.value)
+    case 'node':
+      return value.description
+    case 'opaque':
+      return value.description
+    case 'circular':
+      return `[Circular → ${value.path}]`
+    case 'depth':
+      return value.preview
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      value.entries.forEach(([key, item]) => {
+        result[key] = reviveSnapshot(item)
+      })
+      return result
+    }
+    case 'array':
+      return value.items.map((item) => reviveSnapshot(item))
+    case 'map':
+      return new Map(
+        value.entries.map(([key, item]) => [
+          reviveSnapshot(key),
+          reviveSnapshot(item),
+        ])
+      )
+    case 'set':
+      return new Set(value.items.map((item) => reviveSnapshot(item)))
+    case 'error': {
+      const error = new Error(value.message) as Error & Record<string, unknown>
+      error.name = value.name
+      if (value.stack !== undefined) {
+        error.stack = value.stack
+      }
+      if (value.cause !== undefined) {
+        error.cause = reviveSnapshot(value.cause)
+      }
+      value.entries.forEach(([key, item]) => {
+        error[key] = reviveSnapshot(item)
+      })
+      return error
+    }
+  }
+}
+
+/**
+ * 값 하나를 직렬화하고, 만든 노드를 이 모듈이 만든 스냅샷으로 등록합니다.
+ */
+function snapshotValue(
+  value: unknown,
+  path: string,
+  depth: number,
+  context: SnapshotContext
+): SnapshotValue {
+  const snapshot = serializeValue(value, path, depth, context)
+  if (typeof snapshot === 'object' && snapshot !== null) {
+    createdSnapshots.add(snapshot)
+  }
+  return snapshot
+}
+
+/**
+ * 값 하나를 직렬화합니다.
+ */
+function serializeValue(
+  value: unknown,
+  path: string,
+  depth: number,
+  context: SnapshotContext
+): SnapshotValue {
+  switch (typeof value) {
+    case 'undefined':
+      return { '@snapshot': 'undefined' }
+    case 'boolean':
+      return value
+    case 'number':
+      if (Object.is(value, -0)) return { '@snapshot': 'number', value: '-0' }
+      return Number.isFinite(value)
+        ? value
+        : { '@snapshot': 'number', value: String(value) }
+    case 'bigint':
+      return { '@snapshot': 'bigint', value: value.toString() }
+    case 'symbol':
+      return { '@snapshot': 'symbol', description: value.toString() }
+    case 'string':
+      return value.length > context.options.maxStringLength
+        ? {
+            '@snapshot': 'string',
+            value: value.slice(0, context.options.maxStringLength),
+            length: value.length,
+          }
+        : value
+    case 'function':
+      return { '@snapshot': 'function', name: value.name }
+  }
+
+  if (value === null) {
+    return null
+  }
+
+  const object = value as object
+  if (createdSnapshots.has(object)) {
+    return object as SnapshotNode
+  }
+
+  const circularPath = context.ancestors.get(object)
+  if (circularPath !== undefined) {
+    return { '@snapshot': 'circular', path: circularPath }
+  }
+
+  const leaf = snapshotLeaf(object)
+  if (leaf) {
+    return leaf
+  }
+
+  if (depth >= context.options.maxDepth || context.remainingNodes <= 0) {
+    return {
+      '@snapshot': 'depth',
+      className: getConstructorName(object),
+      preview: previewObject(object),
+    }
+  }
+
+  context.remainingNodes--
+  context.ancestors.set(object, path)
+  try {
+    return snapshotContainer(object, path, depth, context)
+  } finally {
+    context.ancestors.delete(object)
+  }
+}
+
+/**
+ * 자식을 갖지 않는 객체를 직렬화합니다.
+ *
+ * @returns 자식을 따라가야 하는 객체면 null
+ */
+function snapshotLeaf(value: object): SnapshotNode | null {
+  if (value instanceof Date) {
+    return {
+      '@snapshot': 'date',
+      value: Number.isNaN(value.getTime())
+        ? 'Invalid Date'
+        : value.toISOString(),
+    }
+  }
+  if (value instanceof RegExp) {
+    return { '@snapshot': 'regexp', value: value.toString() }
+  }
+  if (typeof Node !== 'undefined' && value instanceof Node) {
+    return { '@snapshot': 'node', description: describeNode(value) }
+  }
+  if (value instanceof ArrayBuffer || value instanceof DataView) {
+    const className = value instanceof DataView ? 'DataView' : 'ArrayBuffer'
+    return {
+      '@snapshot': 'opaque',
+      className,
+      description: `${className}(${value.byteLength})`,
+    }
+  }
+  if (
+    value instanceof Promise ||
+    value instanceof WeakMap ||
+    value instanceof WeakSet
+  ) {
+    const className = getConstructorName(value)
+    return { '@snapshot': 'opaque', className, description: `${className} {…}` }
+  }
+  return null
+}
+
+/**
+ * 자식을 가진 객체(배열, 타입 배열, Map, Set, Error, 일반 객체)를 직렬화합니다.
+ */
+function snapshotContainer(
+  value: object,
+  path: string,
+  depth: number,
+  context: SnapshotContext
+): SnapshotNode {
+  const { maxEntries } = context.options
+  const child = (item: unknown, childPath: string) =>
+    snapshotValue(item, childPath, depth + 1, context)
+  const className = getConstructorName(value)
+
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const list = value as ArrayLike<unknown>
+    const items: SnapshotValue[] = []
+    for (let i = 0; i < Math.min(list.length, maxEntries); i++) {
+      items.push(child(list[i], appendPath(path, i)))
+    }
+    return {
+      '@snapshot': 'array',
+      className,
+      items,
+      length: list.length,
+      truncated: Math.max(0, list.length - maxEntries),
+    }
+  }
+
+  if (value instanceof Map) {
+    const entries: [SnapshotValue, SnapshotValue][] = []
+    let index = 0
+    for (const [key, item] of value) {
+      if (index >= maxEntries) break
+      const entryPath = appendPath(`${path}[[Entries]]`, index)
+      entries.push([
+        child(key, appendPath(entryPath, 'key')),
+        child(item, appendPath(entryPath, 'value')),
+      ])
+      index++
+    }
+    return {
+      '@snapshot': 'map',
+      className,
+      entries,
+      size: value.size,
+      truncated: Math.max(0, value.size - maxEntries),
+    }
+  }
+
+  if (value instanceof Set) {
+    const items: SnapshotValue[] = []
+    let index = 0
+    for (const item of value) {
+      if (index >= maxEntries) break
+      items.push(child(item, appendPath(`${path}[[Entries]]`, index)))
+      index++
+    }
+    return {
+      '@snapshot': 'set',
+      className,
+      items,
+      size: value.size,
+      truncated: Math.max(0, value.size - maxEntries),
+    }
+  }
+
+  const { entries, truncated } = snapshotProperties(value, path, child, context)
+
+  if (value instanceof Error) {
+    const cause = 'cause' in value ? value.cause : undefined
+    return {
+      '@snapshot': 'error',
+      name: value.name,
+      message: value.message,
+      ...(value.stack && { stack: value.stack }),
+      ...(cause !== undefined && {
+        cause: child(cause, appendPath(path, 'cause')),
+      }),
+      entries,
+    }
+  }
+
+  return { '@snapshot': 'object', className, entries, truncated }
+}
+
+/**
+ * 객체의 열거 가능한 문자열 키와 심볼 키를 직렬화합니다.
+ * getter가 예외를 던지면 예외 메시지를 값으로 기록합니다.
+ */
+function snapshotProperties(
+  value: object,
+  path: string,
+  child: (item: unknown, childPath: string) => SnapshotValue,
+  context: SnapshotContext
+): { entries: SnapshotEntry[]; truncated: number } {
+  const record = value as Record<string | symbol, unknown>
+  const keys: (string | symbol)[] = [
+    ...Object.keys(value),
+    ...Object.getOwnPropertySymbols(value).filter((symbol) =>
+      Object.prototype.propertyIsEnumerable.call(value, symbol)
+    ),
+  ]
+  const { maxEntries } = context.options
+
+  const entries = keys.slice(0, maxEntries).map((key): SnapshotEntry => {
+    const label = typeof key === 'symbol' ? `[${key.toString()}]` : key
+    const childPath =
+      typeof key === 'symbol' ? `${path}${label}` : appendPath(path, key)
+
+    try {
+      return [label, child(record[key], childPath)]
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return [label, `[Exception: ${message}]`]
+    }
+  })
+
+  return { entries, truncated: Math.max(0, keys.length - maxEntries) }
+}
+
+/**
+ * 한도 때문에 펼치지 않은 객체의 요약 문자열을 생성합니다.
+ */
+function previewObject(value: object): string {
+  const className = getConstructorName(value)
+
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const length = (value as ArrayLike<unknown>).length
+    return `${className || 'Array'}(${length})`
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return `${className}(${value.size})`
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`
+  }
+  return className && className !== 'null prototype' ? className : 'Object'
+}
+
+/**
+ * `/source/flags` 문자열을 RegExp로 되돌립니다.
+ */
+function reviveRegExp(text: string): RegExp | string {
+  const index = text.lastIndexOf('/')
+  try {
+    return new RegExp(text.slice(1, index), text.slice(index + 1))
+  } catch (error) {
+    return text
+  }
+}
+
+/**
+ * 값이 [문자열 키, 값] 항목 배열인지 확인합니다.
+ */
+function isEntryList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        entry.length === 2 &&
+        typeof entry[0] === 'string'
+    )
+  )
+}
@@ -0,0 +1,152 @@
+import type { StackFrame } from '../types/types.js'
+
+/**
+ * 스택 트레이스 파싱 유틸리티
+ *
+ * V8(Chrome, Android WebView), SpiderMonkey(Firefox), JavaScriptCore(Safari, iOS WKWebView)의
+ * 스택 문자열을 프레임(함수, 파일, 줄, 열) 목록으로 변환합니다.
+ */
+
+/**
+ * V8 형식의 프레임: `at fn (file:1:2)` 또는 `at file:1:2`
+ */
+const V8_FRAME_PATTERN = /^at (?:(.+?) \((.+)\)|(.+))$/
+
+/**
+ * SpiderMonkey/JavaScriptCore 형식의 프레임: `fn@file:1:2`, `@file:1:2`, `fn@[native code]`
+ * 메시지 줄에 들어 있는 '@'와 구분하기 위해 위치가 `:줄(:열)`로 끝나는 경우만 프레임으로 봅니다.
+ */
+const GECKO_FRAME_PATTERN = /^(.*?)@(.+?:\d+(?::\d+)?|\[native code\])$/
+
+/**
+ * 위치 문자열의 끝에 붙은 줄/열 번호
+ */
+const LOCATION_PATTERN = /^(.*?):(\d+)(?::(\d+))?$/
+
+/**
+ * SpiderMonkey의 eval 위치: `file line 10 > eval`
+ */
+const GECKO_EVAL_PATTERN = /^(.*?) line (\d+) > (?:eval|Function)/
+
+/**
+ * 라이브러리/벤더 코드로 보는 파일 경로
+ * node_modules, vendor 디렉터리/청크, Vite 사전 번들, webpack 런타임, 브라우저 내장 코드와 확장 프로그램을 포함합니다.
+ */
+const LIBRARY_FILE_PATTERN =
+  /\/node_modules\/|\/vendors?\/|[/.~-]vendors?[.~-][^/]*$|\/\.vite\/deps\/|webpack\/bootstrap|^native$|^\[native code\]$|^(?:chrome|moz|safari(?:-web)?)-extension:/
+
+/**
+ * 스택 트레이스 문자열을 프레임 목록으로 변환합니다.
+ * 에러 메시지처럼 프레임이 아닌 줄은 건너뜁니다.
+ *
+ * @param stack 스택 트레이스 문자열
+ * @returns 호출 순서(가장 안쪽 호출부터)의 프레임들
+ */
+export function parseStackTrace(stack: string): StackFrame[] {
+  return stack
+    .split('\n')
+    .map((line) => parseStackLine(line))
+    .filter((frame): frame is StackFrame => frame !== null)
+}
+
+/**
+ * 프레임을 `함수 (파일:줄:열)` 형식의 문자열로 변환합니다.
+ * 함수 이름이 없으면 위치만 반환합니다.
+ *
+ * @param frame 스택 프레임
+ * @returns 프레임 문자열
+ */
+export function formatStackFrame(frame: StackFrame): string {
+  const location = formatStackLocation(frame)
+  return frame.functionName ? `${frame.functionName} (${location})` : location
+}
+
+/**
+ * 프레임의 위치를 `파일:줄:열` 형식의 문자열로 변환합니다.
+ *
+ * @param frame 스택 프레임
+ * @returns 위치 문자열 (줄/열이 없으면 파일만)
+ */
+export function formatStackLocation(frame: StackFrame): string {
+  return [frame.file, frame.line, frame.column]
+    .filter((part) => part !== undefined)
+    .join(':')
+}
+
+/**
+ * 스택 트레이스 한 줄을 프레임으로 변환합니다.
+ *
+ * @returns 프레임이 아닌 줄이면 null
+ */
+function parseStackLine(line: string): StackFrame | null {
+  const raw = line.trim()
+  if (!raw) {
+    return null
+  }
+
+  const v8 = V8_FRAME_PATTERN.exec(raw)
+  if (v8) {
+    return createFrame(raw, v8[1], v8[2] ?? v8[3] ?? '')
+  }
+
+  const gecko = GECKO_FRAME_PATTERN.exec(raw)
+  if (gecko) {
+    return createFrame(raw, gecko[1], gecko[2] ?? '')
+  }
+
+  return null
+}
+
+/**
+ * 함수 이름과 위치 문자열로 프레임을 생성합니다.
+ */
+function createFrame(
+  raw: string,
+  functionName: string | undefined,
+  location: string
+): StackFrame {
+  const { file, line, column } = parseLocation(location)
+
+  return {
+    ...(functionName && { functionName }),
+    file,
+    ...(line !== undefined && { line }),
+    ...(column !== undefined && { column }),
+    isLibrary: LIBRARY_FILE_PATTERN.test(file),
+    raw,
+  }
+}
+
+/**
+ * 위치 문자열을 파일, 줄, 열로 나눕니다.
+ * eval로 실행된 코드는 eval을 호출한 위치를 사용합니다.
+ */
+function parseLocation(location: string): {
+  file: string
+  line?: number
+  column?: number
+} {
+  // V8: `eval at fn (file:1:2), <anonymous>:3:4`
+  if (location.startsWith('eval at ')) {
+    const caller = /\(([^()]+)\)/.exec(location)
+    if (caller?.[1]) {
+      return parseLocation(caller[1])
+    }
+  }
+
+  const geckoEval = GECKO_EVAL_PATTERN.exec(location)
+  if (geckoEval) {
+    return { file: geckoEval[1] ?? '', line: Number(geckoEval[2]) }
+  }
+
+  const match = LOCATION_PATTERN.exec(location)
+  if (!match) {
+    return { file: location }
+  }
+
+  return {
+    file: match[1] ?? '',
+    line: Number(match[2]),
+    ...(match[3] !== undefined && { column: Number(match[3]) }),
+  }
+}